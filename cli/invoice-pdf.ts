@@ -0,0 +1,80 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { parseArgs } from "node:util";
+import {
+  PDF_FONTS, PDF_TEMPLATES, buildInvoicePdf, darkTheme, gateCheck, lightTheme, parseColor, readInvoiceJson,
+  validateForm, type FontLoader, type PdfFont, type PdfTemplate,
+} from "../src/core";
+
+/* ---------- invoice.json → invoice.pdf ----------------------------------- */
+// Renders the same PDF as the app's export, without a browser:
+//
+//   npm run build:cli
+//   node dist-cli/invoice-pdf.js invoice.json [invoice.pdf] [options]
+//
+// Exits 1 when the invoice has errors the app would refuse to export
+// (override with --force); warnings are printed and the PDF is written.
+const USAGE = `Usage: invoice-pdf <invoice.json> [out.pdf] [options]
+
+  --template <id>   ${PDF_TEMPLATES.map(t => t.id).join(" | ")} (default: the file's layout, else classic)
+  --theme <name>    light | dark (default: light)
+  --accent <color>  accent colour, e.g. "#2563eb"
+  --font <id>       ${PDF_FONTS.map(f => f.id).join(" | ")} (default: the invoice's font)
+  --force           write the PDF even if the invoice has errors
+  -h, --help        show this help`;
+
+const require = createRequire(import.meta.url);
+
+// fonts come straight from node_modules
+const readFont: FontLoader = async file => (await readFile(require.resolve(file))).toString("base64");
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      template: { type: "string" },
+      theme: { type: "string", default: "light" },
+      accent: { type: "string" },
+      font: { type: "string" },
+      force: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [input, output = input?.replace(/\.json$/i, "") + ".pdf"] = positionals;
+  if (values.help || !input) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const { form, payment, layout } = readInvoiceJson(await readFile(input, "utf8"));
+  if (values.template) {
+    if (!PDF_TEMPLATES.some(t => t.id === values.template)) throw new Error(`Unknown template "${values.template}".`);
+    layout.template = values.template as PdfTemplate;
+  }
+  if (values.font) {
+    if (!PDF_FONTS.some(f => f.id === values.font)) throw new Error(`Unknown font "${values.font}".`);
+    form.pdfFont = values.font as PdfFont;
+  }
+  if (values.theme !== "light" && values.theme !== "dark") throw new Error(`Unknown theme "${values.theme}".`);
+  const accent = values.accent ? parseColor(values.accent) : null;
+  if (values.accent && !accent) throw new Error(`Cannot read the colour "${values.accent}"; use #rrggbb.`);
+  const theme = values.theme === "dark" ? darkTheme(accent ?? undefined) : lightTheme(accent ?? undefined);
+
+  const issues = validateForm(form);
+  for (const i of issues) console.error(`${i.level}: ${i.message}`);
+  if (gateCheck(issues, "export").block && !values.force) {
+    console.error("Not written: fix the errors above or pass --force.");
+    return 1;
+  }
+
+  const { pdf, warnings } = await buildInvoicePdf({ form, payment, layout, theme, loadFont: readFont });
+  for (const w of warnings) console.error(`warning: ${w}`);
+  await writeFile(output, new Uint8Array(await pdf.arrayBuffer()));
+  console.log(`Wrote ${output} (${Math.round(pdf.size / 1024)} KB)`);
+  return 0;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  err => { console.error((err as Error).message); process.exitCode = 1; },
+);
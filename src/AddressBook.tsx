@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { stateLabel } from "./gst";
+import { matchesParty, type Party } from "./parties";
+
+export default function AddressBook({ customers, onPick, onDelete, onClose }: {
+  customers: Party[];
+  onPick: (p: Party) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState("");
+  const list = customers
+    .filter(c => matchesParty(c, query))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(720px,92vw)] shadow-xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold">Customers</h3>
+          <button className="btn-ghost" onClick={onClose}>Close</button>
+        </div>
+        <input className="input mb-3" placeholder="Search name, GSTIN, city, phone or email" autoFocus
+          value={query} onChange={e => setQuery(e.target.value)} />
+        {list.length === 0 ? (
+          <div className="text-sm opacity-70">
+            {customers.length === 0 ? "No customers saved yet." : "No customers match your search."}
+          </div>
+        ) : (
+          <ul className="divide-y max-h-[60vh] overflow-y-auto">
+            {list.map(c => (
+              <li key={c.id} className="py-2 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{c.name || "—"}</div>
+                  <div className="text-xs opacity-70 truncate">
+                    {[c.gstin, c.city, c.state && stateLabel(c.state)].filter(Boolean).join(" • ")}
+                  </div>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button className="btn-ghost" onClick={() => onPick(c)}>Use</button>
+                  <button className="btn-ghost" onClick={() => onDelete(c.id)}>Delete</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useRef, useState } from "react";
+import { Download, Upload } from "lucide-react";
+import {
+  MIN_PASSPHRASE, backupFileName, backupSummary, collectBackup, decryptBackup, encryptBackup, restoreBackup,
+  type BackupData,
+} from "./backup";
+import { downloadText } from "./download";
+import { todayIso } from "./ledger";
+
+// Passphrase-encrypted copy of everything on this device, and restoring one
+// (here or on another device). Restoring reloads the page.
+export default function BackupModal({ onClose }: { onClose: () => void }) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [pass, setPass] = useState("");
+  const [pass2, setPass2] = useState("");
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [restorePass, setRestorePass] = useState("");
+  const [opened, setOpened] = useState<BackupData | null>(null);
+  const [busy, setBusy] = useState("");
+
+  const passError = !pass ? "" : pass.length < MIN_PASSPHRASE
+    ? `Use at least ${MIN_PASSPHRASE} characters` : pass2 && pass2 !== pass ? "Passphrases do not match" : "";
+
+  const create = async () => {
+    setBusy("Encrypting…");
+    try {
+      const sealed = await encryptBackup(await collectBackup(), pass);
+      downloadText(backupFileName(todayIso()), JSON.stringify(sealed), "application/json");
+      setPass(""); setPass2("");
+    } catch (err) {
+      console.error("Backup failed", err);
+      alert(`Backup failed: ${(err as Error).message}`);
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const open = async () => {
+    if (!file) return;
+    setBusy("Decrypting…");
+    try {
+      setOpened(await decryptBackup(file.text, restorePass));
+    } catch (err) {
+      alert((err as Error).message);
+    } finally {
+      setBusy("");
+    }
+  };
+
+  const restore = async () => {
+    if (!opened) return;
+    if (!confirm(`Restore ${backupSummary(opened)}?\n\nDocuments with the same id and all settings on this ` +
+      "device are replaced; other documents are kept. The app reloads afterwards.")) return;
+    setBusy("Restoring…");
+    try {
+      await restoreBackup(opened);
+      location.reload();
+    } catch (err) {
+      console.error("Restore failed", err);
+      alert(`Restore failed: ${(err as Error).message}`);
+      setBusy("");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(640px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Backup &amp; Restore</h3>
+            <div className="text-xs opacity-70">
+              Invoices, versions, customers, catalog, numbering and settings, encrypted with your passphrase
+            </div>
+          </div>
+          <button className="btn-ghost" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="card space-y-2">
+          <div className="font-medium text-sm">Create a backup</div>
+          <div className="grid sm:grid-cols-2 gap-2">
+            <input className="input" type="password" placeholder="Passphrase" autoComplete="new-password"
+              value={pass} onChange={e => setPass(e.target.value)} />
+            <input className="input" type="password" placeholder="Repeat passphrase" autoComplete="new-password"
+              value={pass2} onChange={e => setPass2(e.target.value)} />
+          </div>
+          {passError && <div className="text-xs text-red-600">{passError}</div>}
+          <div className="text-xs opacity-70">
+            The passphrase cannot be recovered. Without it the backup cannot be opened, by you or anyone else.
+          </div>
+          <button className="btn-primary inline-flex items-center gap-2"
+            disabled={!!busy || !pass || pass !== pass2 || !!passError} onClick={create}>
+            <Download className="h-4 w-4" /> Download backup
+          </button>
+        </div>
+
+        <div className="card space-y-2">
+          <div className="font-medium text-sm">Restore a backup</div>
+          <div className="flex flex-wrap gap-2 items-center">
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => fileRef.current?.click()}>
+              <Upload className="h-4 w-4" /> Choose file
+            </button>
+            <input ref={fileRef} type="file" accept=".json,application/json" className="hidden"
+              onChange={async e => {
+                const f = e.target.files?.[0];
+                e.target.value = "";
+                if (f) { setFile({ name: f.name, text: await f.text() }); setOpened(null); }
+              }} />
+            {file && <span className="text-sm font-mono">{file.name}</span>}
+          </div>
+          {file && !opened && (
+            <div className="flex gap-2">
+              <input className="input" type="password" placeholder="Passphrase" autoComplete="current-password"
+                value={restorePass} onChange={e => setRestorePass(e.target.value)}
+                onKeyDown={e => { if (e.key === "Enter" && restorePass) void open(); }} />
+              <button className="btn-ghost" disabled={!!busy || !restorePass} onClick={open}>Open</button>
+            </div>
+          )}
+          {opened && (
+            <div className="flex flex-wrap gap-2 items-center text-sm">
+              <span>{backupSummary(opened)}</span>
+              <button className="btn-primary" disabled={!!busy} onClick={restore}>Restore</button>
+            </div>
+          )}
+        </div>
+
+        {busy && <div className="text-sm opacity-70">{busy}</div>}
+      </div>
+    </div>
+  );
+}
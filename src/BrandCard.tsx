@@ -0,0 +1,91 @@
+import { Copy, Plus, Trash2 } from "lucide-react";
+import { ImagePicker } from "./PdfLayoutCard";
+import {
+  DEFAULT_BRAND, activeBrand, brandTheme, contrastWarnings, newBrandId,
+  type BrandProfile, type BrandSettings,
+} from "./brands";
+
+function ColorField({ label, value, onChange }: {
+  label: string; value: string; onChange: (hex: string) => void;
+}) {
+  return (
+    <label className="text-sm">{label}
+      <div className="flex items-center gap-2">
+        <input type="color" className="h-10 w-14 rounded-xl border cursor-pointer bg-transparent"
+          value={value} onChange={e => onChange(e.target.value.toUpperCase())} />
+        <span className="font-mono text-xs opacity-70">{value}</span>
+      </div>
+    </label>
+  );
+}
+
+// Saved brand profiles and a live editor for the active one; every change
+// shows at once in the preview and in the next PNG/PDF.
+export default function BrandCard({ value, onChange, printLight }: {
+  value: BrandSettings;
+  onChange: (s: BrandSettings) => void;
+  printLight: boolean;
+}) {
+  const brand = activeBrand(value);
+  const warnings = contrastWarnings(brandTheme(brand, printLight));
+
+  const patch = (p: Partial<BrandProfile>) =>
+    onChange({ ...value, profiles: value.profiles.map(b => (b.id === brand.id ? { ...b, ...p } : b)) });
+
+  const add = (from: BrandProfile) => {
+    const next = { ...from, id: newBrandId(), name: `${from.name} copy` };
+    onChange({ active: next.id, profiles: [...value.profiles, next] });
+  };
+
+  const remove = () => {
+    if (value.profiles.length < 2 || !confirm(`Delete the brand "${brand.name}"?`)) return;
+    const profiles = value.profiles.filter(b => b.id !== brand.id);
+    onChange({ active: profiles[0].id, profiles });
+  };
+
+  return (
+    <div className="bg-surface rounded-xl p-5 shadow">
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold">Brand</h3>
+        <div className="flex items-center gap-2">
+          <select className="input" aria-label="Brand profile" value={brand.id}
+            onChange={e => onChange({ ...value, active: e.target.value })}>
+            {value.profiles.map(b => <option key={b.id} value={b.id}>{b.name || "(unnamed)"}</option>)}
+          </select>
+          <button className="inline-flex items-center justify-center h-9 w-9 shrink-0 rounded-xl border"
+            title="New brand" aria-label="New brand" onClick={() => add({ ...DEFAULT_BRAND(), name: "New brand" })}>
+            <Plus className="h-4 w-4" />
+          </button>
+          <button className="inline-flex items-center justify-center h-9 w-9 shrink-0 rounded-xl border"
+            title="Duplicate brand" aria-label="Duplicate brand" onClick={() => add(brand)}>
+            <Copy className="h-4 w-4" />
+          </button>
+          <button className="inline-flex items-center justify-center h-9 w-9 shrink-0 rounded-xl border"
+            title="Delete brand" aria-label="Delete brand" disabled={value.profiles.length < 2} onClick={remove}>
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      <div className="grid sm:grid-cols-2 gap-3">
+        <label className="text-sm sm:col-span-2">Name
+          <input className="input" value={brand.name} onChange={e => patch({ name: e.target.value })} />
+        </label>
+        <ColorField label="Accent" value={brand.accent} onChange={accent => patch({ accent })} />
+        <ColorField label="Paper (light mode)" value={brand.surface} onChange={surface => patch({ surface })} />
+        <ImagePicker label="Logo" value={brand.logo} onChange={logo => patch({ logo })} />
+        <label className="text-sm sm:col-span-2">Footer (every page)
+          <input className="input" value={brand.footer} placeholder="e.g. Registered office, website, phone"
+            onChange={e => patch({ footer: e.target.value })} />
+        </label>
+      </div>
+      {warnings.length > 0 && (
+        <ul className="mt-3 text-xs space-y-0.5 text-amber-600">
+          {warnings.map(w => <li key={w}>{w}</li>)}
+          <li className="opacity-70">
+            {printLight ? "Pick a darker accent." : "Pick other colours or turn on print-friendly light mode."}
+          </li>
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useRef, useState } from "react";
+import { Download, FileArchive, Upload } from "lucide-react";
+import { invoiceTotals, type Form } from "./invoice";
+import type { InvoiceRecord } from "./invoiceDb";
+import type { Party } from "./parties";
+import { bulkSampleCsv, parseBulkCsv, type ParsedBulk } from "./bulk";
+import { downloadCsv } from "./download";
+
+export default function BulkModal({ customers, formatMoney, onCreate, onZip, onClose }: {
+  customers: Party[];
+  formatMoney: (n: number, form: Form) => string;
+  onCreate: (forms: Form[], issue: boolean) => Promise<InvoiceRecord[]>;
+  onZip: (records: InvoiceRecord[]) => Promise<string[]>;   // resolves to the documents printed in the built-in font
+  onClose: () => void;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [file, setFile] = useState("");
+  const [parsed, setParsed] = useState<ParsedBulk | null>(null);
+  const [issue, setIssue] = useState(true);
+  const [created, setCreated] = useState<InvoiceRecord[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [fallbackFont, setFallbackFont] = useState<string[]>([]);
+
+  const read = async (f: File) => {
+    setFile(f.name);
+    setCreated(null);
+    setFallbackFont([]);
+    setParsed(parseBulkCsv(await f.text(), customers));
+  };
+
+  const busyWhile = async (task: () => Promise<void>) => {
+    setBusy(true);
+    try { await task(); } catch (err) {
+      console.error("Bulk generation failed", err);
+      alert(`Bulk generation failed: ${(err as Error).message}`);
+    } finally { setBusy(false); }
+  };
+  const create = () => busyWhile(async () => { if (parsed) setCreated(await onCreate(parsed.forms, issue)); });
+  const zip = () => busyWhile(async () => { if (created) setFallbackFont(await onZip(created)); });
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(860px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Bulk Invoices from CSV</h3>
+            <div className="text-xs opacity-70">One row per item; rows sharing an Invoice key (or customer) become one invoice</div>
+          </div>
+          <div className="flex gap-2">
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => downloadCsv("bulk-invoices-sample.csv", bulkSampleCsv())}>
+              <Download className="h-4 w-4" /> Sample CSV
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => fileRef.current?.click()}>
+              <Upload className="h-4 w-4" /> Choose CSV
+            </button>
+            <input ref={fileRef} type="file" accept=".csv,text/csv" className="hidden"
+              onChange={e => { const f = e.target.files?.[0]; if (f) void read(f); e.target.value = ""; }} />
+            <button className="btn-ghost" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        {parsed && (
+          <div className="text-sm">
+            <span className="font-mono">{file}</span>: {parsed.forms.length} invoice(s)
+            {parsed.errors.length > 0 && <>, <span className="text-red-600">{parsed.errors.length} problem(s)</span></>}
+          </div>
+        )}
+
+        {parsed && parsed.errors.length > 0 && (
+          <div className="max-h-40 overflow-y-auto rounded-xl border p-2 text-xs">
+            <table className="min-w-full">
+              <tbody>
+                {parsed.errors.map((e, i) => (
+                  <tr key={i} className="align-top">
+                    <td className="pr-3 whitespace-nowrap font-semibold">{e.row}</td>
+                    <td className="text-red-600">{e.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {parsed && parsed.forms.length > 0 && (
+          <div className="max-h-64 overflow-y-auto rounded-xl border">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="p-2">Customer</th>
+                  <th className="p-2">GSTIN</th>
+                  <th className="p-2">Date</th>
+                  <th className="p-2 text-right">Rows</th>
+                  <th className="p-2 text-right">Total</th>
+                  {created && <th className="p-2">Number</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {parsed.forms.map((f, i) => (
+                  <tr key={i} className="border-t">
+                    <td className="p-2">{f.buyer.name}</td>
+                    <td className="p-2 font-mono text-xs">{f.buyer.gstin || "—"}</td>
+                    <td className="p-2">{f.date}</td>
+                    <td className="p-2 text-right">{f.items.length}</td>
+                    <td className="p-2 text-right">{formatMoney(invoiceTotals(f).grand, f)}</td>
+                    {created && <td className="p-2">{created[i]?.invoiceNo || "draft"}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {parsed && parsed.forms.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3">
+            {!created ? (
+              <>
+                <label className="text-sm inline-flex items-center gap-2">
+                  <input type="checkbox" checked={issue} onChange={e => setIssue(e.target.checked)} />
+                  Issue with numbers (otherwise save as drafts)
+                </label>
+                <button className="btn-primary" disabled={busy} onClick={create}>
+                  Create {parsed.forms.length} invoice(s)
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="text-sm">Saved {created.length} invoice(s) to History.</span>
+                <button className="btn-primary inline-flex items-center gap-2" disabled={busy} onClick={zip}>
+                  <FileArchive className="h-4 w-4" /> {busy ? "Building…" : "Download PDFs (ZIP)"}
+                </button>
+                {fallbackFont.length > 0 && (
+                  <span className="text-sm text-amber-600">
+                    The PDF font could not be loaded; printed in the built-in font: {fallbackFont.join(", ")}
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useMemo } from "react";
+import type { InvoiceRecord } from "./invoiceDb";
+import {
+  AGEING_LABEL, balanceDue, baseRate, isOpen, monthlyTotals, outstandingByCustomer, statusOf, todayIso,
+  unconvertible, type AgeingBucket,
+} from "./ledger";
+
+const BUCKETS: AgeingBucket[] = ["notDue", "d0_30", "d31_60", "d60plus"];
+
+export default function Dashboard({ records, formatMoney, onClose }: {
+  records: InvoiceRecord[];
+  formatMoney: (n: number) => string;
+  onClose: () => void;
+}) {
+  const today = todayIso();
+  const { customers, months, outstanding, overdue, overdueCount, openCount, skipped } = useMemo(() => {
+    const open = records.filter(r => isOpen(r) && baseRate(r) > 0);
+    const late = open.filter(r => statusOf(r, today) === "overdue");
+    const due = (list: InvoiceRecord[]) => list.reduce((s, r) => s + balanceDue(r) * baseRate(r), 0);
+    return {
+      customers: outstandingByCustomer(records, today),
+      months: monthlyTotals(records).slice(0, 12),
+      outstanding: due(open),
+      overdue: due(late),
+      overdueCount: late.length,
+      openCount: open.length,
+      skipped: unconvertible(records).length,
+    };
+  }, [records, today]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(1000px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-5">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Receivables</h3>
+            {skipped > 0 && (
+              <div className="text-xs opacity-70">
+                {skipped} foreign-currency document(s) without an exchange rate left out
+              </div>
+            )}
+          </div>
+          <button className="btn-ghost" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div className="card">
+            <div className="text-sm opacity-70">Outstanding ({openCount} invoices)</div>
+            <div className="text-2xl font-bold text-accent">{formatMoney(outstanding)}</div>
+          </div>
+          <div className="card">
+            <div className="text-sm opacity-70">Overdue ({overdueCount} invoices)</div>
+            <div className="text-2xl font-bold text-red-600">{formatMoney(overdue)}</div>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="font-semibold mb-2 text-sm">Outstanding by customer (days past due)</h4>
+          {customers.length === 0 ? (
+            <div className="text-sm opacity-70">Nothing outstanding.</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-right">
+                    <th className="px-2 py-1 text-left">Customer</th>
+                    <th className="px-2 py-1">Invoices</th>
+                    {BUCKETS.map(b => <th key={b} className="px-2 py-1">{AGEING_LABEL[b]}</th>)}
+                    <th className="px-2 py-1">Credits</th>
+                    <th className="px-2 py-1">Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {customers.map(c => (
+                    <tr key={c.customer} className="border-t text-right">
+                      <td className="px-2 py-1 text-left">{c.customer}</td>
+                      <td className="px-2 py-1">{c.invoices}</td>
+                      {BUCKETS.map(b => (
+                        <td key={b} className={`px-2 py-1 ${b === "d60plus" && c.buckets[b] ? "text-red-600" : ""}`}>
+                          {c.buckets[b] ? formatMoney(c.buckets[b]) : "—"}
+                        </td>
+                      ))}
+                      <td className="px-2 py-1">{c.credits ? `−${formatMoney(c.credits)}` : "—"}</td>
+                      <td className="px-2 py-1 font-semibold">{formatMoney(c.total)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h4 className="font-semibold mb-2 text-sm">Monthly totals</h4>
+          {months.length === 0 ? (
+            <div className="text-sm opacity-70">No issued invoices yet.</div>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-right">
+                  <th className="px-2 py-1 text-left">Month</th>
+                  <th className="px-2 py-1">Invoices</th>
+                  <th className="px-2 py-1">Invoiced</th>
+                  <th className="px-2 py-1">Received</th>
+                </tr>
+              </thead>
+              <tbody>
+                {months.map(m => (
+                  <tr key={m.month} className="border-t text-right">
+                    <td className="px-2 py-1 text-left">{m.month}</td>
+                    <td className="px-2 py-1">{m.invoices}</td>
+                    <td className="px-2 py-1">{formatMoney(m.invoiced)}</td>
+                    <td className="px-2 py-1">{formatMoney(m.received)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useMemo, useState } from "react";
+import { FileJson } from "lucide-react";
+import type { Form } from "./invoice";
+import type { InvoiceRecord } from "./invoiceDb";
+import { DOC_META } from "./documents";
+import { EMPTY_IRN, checkEInvoice, eInvoiceJson, irnError, type IrnDetails } from "./einvoice";
+import { buildGstr1, gstr1FileName, type Gstr1Result } from "./gstr1";
+import { downloadText } from "./download";
+import { isValidGstin } from "./parties";
+import QrCode from "./QrCode";
+
+// The JSON is generated and checked here; uploading it to the IRP or the GST
+// portal, and pasting the IRN back, is left to the user.
+export default function EInvoiceModal({ form, records, onIrn, onClose }: {
+  form: Form;
+  records: InvoiceRecord[];
+  onIrn: (irn: IrnDetails | null) => void;
+  onClose: () => void;
+}) {
+  const check = useMemo(() => checkEInvoice(form), [form]);
+  const irn = form.irn ?? EMPTY_IRN();
+  const irnErr = irnError(irn.irn);
+  const setIrn = (p: Partial<IrnDetails>) => {
+    const next = { ...irn, ...p };
+    onIrn(Object.values(next).some(v => v.trim()) ? next : null);
+  };
+
+  const [month, setMonth] = useState(() => (form.date || new Date().toISOString()).slice(0, 7));
+  const [gstr1, setGstr1] = useState<Gstr1Result | null>(null);
+  const gstin = form.seller.gstin.trim();
+
+  const downloadEInvoice = () => {
+    const name = `${(form.invoiceNo || "draft").replace(/[^a-zA-Z0-9-_]/g, "_")}_einvoice.json`;
+    downloadText(name, eInvoiceJson(check.doc), "application/json");
+  };
+  const downloadGstr1 = () => {
+    const res = buildGstr1(records, gstin, month);
+    setGstr1(res);
+    downloadText(gstr1FileName(gstin, month), JSON.stringify(res.data, null, 2), "application/json");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(760px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">GST e-Invoice & GSTR-1</h3>
+            <div className="text-xs opacity-70">JSON is generated and validated offline; upload it on the portal yourself</div>
+          </div>
+          <button className="btn-ghost" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="card space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <div className="font-semibold text-sm">
+              e-Invoice (INV-01 v1.1) — {DOC_META[form.docType].label} {form.invoiceNo || "(not issued)"}
+            </div>
+            <button className="btn-primary inline-flex items-center gap-2" disabled={check.errors.length > 0}
+              onClick={downloadEInvoice}>
+              <FileJson className="h-4 w-4" /> Download JSON
+            </button>
+          </div>
+          {check.errors.length > 0 ? (
+            <ul className="text-xs text-red-600 list-disc pl-5 max-h-48 overflow-y-auto">
+              {check.errors.map((e, i) => <li key={i}>{e}</li>)}
+            </ul>
+          ) : (
+            <div className="text-xs text-green-700">Valid against the bundled schema and IRP value checks.</div>
+          )}
+        </div>
+
+        <div className="card space-y-2">
+          <div className="font-semibold text-sm">IRN from the portal (printed on the PDF)</div>
+          <label className="text-sm block">IRN
+            <input className="input w-full font-mono text-xs" value={irn.irn}
+              style={irnErr ? { borderColor: "#DC2626" } : undefined} aria-invalid={!!irnErr}
+              onChange={e => setIrn({ irn: e.target.value.trim() })} />
+            {irnErr && <span className="text-xs text-red-600">{irnErr}</span>}
+          </label>
+          <div className="grid sm:grid-cols-2 gap-2">
+            <label className="text-sm">Ack No
+              <input className="input w-full" value={irn.ackNo} onChange={e => setIrn({ ackNo: e.target.value })} />
+            </label>
+            <label className="text-sm">Ack Date
+              <input className="input w-full" value={irn.ackDate} placeholder="2025-04-05 12:30:00"
+                onChange={e => setIrn({ ackDate: e.target.value })} />
+            </label>
+          </div>
+          <div className="flex gap-3 items-start">
+            <label className="text-sm flex-1">Signed QR code
+              <textarea className="input w-full h-24 font-mono text-xs" value={irn.signedQr}
+                onChange={e => setIrn({ signedQr: e.target.value.trim() })} />
+            </label>
+            {irn.signedQr && <QrCode value={irn.signedQr} size={96} label="e-invoice QR code" />}
+          </div>
+        </div>
+
+        <div className="card space-y-2">
+          <div className="font-semibold text-sm">GSTR-1 (B2B, B2CL, B2CS, HSN)</div>
+          <div className="flex flex-wrap items-end gap-2">
+            <label className="text-sm">Return period
+              <input type="month" className="input" value={month} onChange={e => { setMonth(e.target.value); setGstr1(null); }} />
+            </label>
+            <button className="btn-primary inline-flex items-center gap-2" disabled={!month || !isValidGstin(gstin)}
+              onClick={downloadGstr1}>
+              <FileJson className="h-4 w-4" /> Download GSTR-1 JSON
+            </button>
+          </div>
+          {!isValidGstin(gstin) && <div className="text-xs text-red-600">Enter a valid seller GSTIN first.</div>}
+          <div className="text-xs opacity-70">Built from issued invoices saved in History ({records.length} saved).</div>
+          {gstr1 && (
+            <div className="text-xs space-y-1">
+              <div>
+                {gstr1.included} invoice(s): {gstr1.data.b2b.reduce((s, c) => s + c.inv.length, 0)} B2B,{" "}
+                {gstr1.data.b2cl.reduce((s, c) => s + c.inv.length, 0)} B2CL, {gstr1.data.b2cs.length} B2CS row(s),{" "}
+                {gstr1.data.hsn.hsn_b2b.length + gstr1.data.hsn.hsn_b2c.length} HSN row(s).
+              </div>
+              {gstr1.skipped.length > 0 && (
+                <ul className="list-disc pl-5 text-amber-700">
+                  {gstr1.skipped.map((s, i) => <li key={i}>{s}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Download, FileArchive, Upload } from "lucide-react";
+import type { Form } from "./invoice";
+import type { InvoiceRecord } from "./invoiceDb";
+import { DOC_META, DOC_TYPES, isReceivable, type DocType } from "./documents";
+import { STATUS_LABEL, statusOf, todayIso, type DisplayStatus } from "./ledger";
+import StatusBadge from "./StatusBadge";
+import { bundleFileName, makeBundle } from "./bundle";
+import { invoiceRegister, lineRegister, registerRecords } from "./registers";
+import { toCsv } from "./csv";
+import { downloadCsv, downloadText } from "./download";
+
+type SortKey = "docType" | "invoiceNo" | "customer" | "date" | "grand" | "status" | "updatedAt";
+
+const COLUMNS: { key: SortKey; label: string; right?: boolean }[] = [
+  { key: "docType", label: "Type" },
+  { key: "invoiceNo", label: "Number" },
+  { key: "customer", label: "Customer" },
+  { key: "date", label: "Date" },
+  { key: "grand", label: "Total", right: true },
+  { key: "status", label: "Status" },
+  { key: "updatedAt", label: "Updated" },
+];
+
+export default function HistoryModal({
+  records, currentId, formatMoney, onLoad, onPayments, onVersions, onDelete, onImport, onZip, onClose,
+}: {
+  records: InvoiceRecord[];
+  currentId: string | null;
+  formatMoney: (n: number, form: Form) => string;
+  onLoad: (rec: InvoiceRecord) => void;
+  onPayments: (rec: InvoiceRecord) => void;
+  onVersions: (rec: InvoiceRecord) => void;
+  onDelete: (rec: InvoiceRecord) => void;
+  onImport: () => void;
+  onZip: (rows: InvoiceRecord[]) => Promise<string[]>;   // resolves to the documents printed in the built-in font
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [status, setStatus] = useState<DisplayStatus | "">("");
+  const [docType, setDocType] = useState<DocType | "">("");
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "updatedAt", desc: true });
+
+  const list = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const rows = records.filter(r =>
+      (!q || r.invoiceNo.toLowerCase().includes(q) || r.customer.toLowerCase().includes(q)) &&
+      (!from || r.date >= from) &&
+      (!to || r.date <= to) &&
+      (!status || statusOf(r) === status) &&
+      (!docType || r.form.docType === docType)
+    );
+    const dir = sort.desc ? -1 : 1;
+    const value = (r: InvoiceRecord) =>
+      sort.key === "status" ? statusOf(r) : sort.key === "docType" ? DOC_META[r.form.docType].label : r[sort.key];
+    return rows.sort((a, b) => {
+      const x = value(a), y = value(b);
+      return dir * (typeof x === "number" && typeof y === "number"
+        ? x - y
+        : String(x).localeCompare(String(y), undefined, { numeric: true }));
+    });
+  }, [records, query, from, to, status, docType, sort]);
+
+  // exports follow the current filters
+  const exportJson = (rows: InvoiceRecord[]) =>
+    downloadText(bundleFileName(rows), JSON.stringify(makeBundle(rows), null, 2), "application/json");
+  const exportRegister = (level: "invoice" | "line") => {
+    if (!registerRecords(list).length) { alert("No issued invoices, credit or debit notes in this list."); return; }
+    const stamp = todayIso();
+    downloadCsv(`sales-register-${level}s-${stamp}.csv`,
+      toCsv(level === "invoice" ? invoiceRegister(list) : lineRegister(list)));
+  };
+
+  const [zipping, setZipping] = useState(false);
+  const exportZip = async () => {
+    setZipping(true);
+    try {
+      const fallback = await onZip(list);
+      if (fallback.length) alert(`The PDF font could not be loaded; these were printed in the built-in font: ${fallback.join(", ")}`);
+    } finally { setZipping(false); }
+  };
+
+  const toggleSort = (key: SortKey) =>
+    setSort(s => ({ key, desc: s.key === key ? !s.desc : key === "updatedAt" || key === "date" }));
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(960px,94vw)] shadow-xl">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold">Saved Invoices</h3>
+          <div className="flex flex-wrap justify-end gap-2">
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={onImport}>
+              <Upload className="h-4 w-4" /> Import
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" disabled={!list.length}
+              onClick={() => exportJson(list)}>
+              <Download className="h-4 w-4" /> JSON
+            </button>
+            <button className="btn-ghost" disabled={!list.length} onClick={() => exportRegister("invoice")}>
+              Register CSV
+            </button>
+            <button className="btn-ghost" disabled={!list.length} onClick={() => exportRegister("line")}>
+              Line register CSV
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" disabled={!list.length || zipping}
+              onClick={exportZip}>
+              <FileArchive className="h-4 w-4" /> {zipping ? "Building…" : "PDFs (ZIP)"}
+            </button>
+            <button className="btn-ghost" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        <div className="grid sm:grid-cols-[1fr,auto,auto,auto,auto] gap-2 mb-3">
+          <input className="input" placeholder="Search invoice number or customer" autoFocus
+            value={query} onChange={e => setQuery(e.target.value)} />
+          <input className="input" type="date" aria-label="From date"
+            value={from} onChange={e => setFrom(e.target.value)} />
+          <input className="input" type="date" aria-label="To date"
+            value={to} onChange={e => setTo(e.target.value)} />
+          <select className="input" aria-label="Document type"
+            value={docType} onChange={e => setDocType(e.target.value as DocType | "")}>
+            <option value="">All types</option>
+            {DOC_TYPES.map(t => <option key={t} value={t}>{DOC_META[t].label}</option>)}
+          </select>
+          <select className="input" aria-label="Status"
+            value={status} onChange={e => setStatus(e.target.value as DisplayStatus | "")}>
+            <option value="">All statuses</option>
+            {(Object.keys(STATUS_LABEL) as DisplayStatus[]).map(s =>
+              <option key={s} value={s}>{STATUS_LABEL[s]}</option>)}
+          </select>
+        </div>
+
+        {records.length === 0 ? (
+          <div className="text-sm opacity-70">No saved invoices yet.</div>
+        ) : list.length === 0 ? (
+          <div className="text-sm opacity-70">No invoices match these filters.</div>
+        ) : (
+          <div className="overflow-auto max-h-[60vh]">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left">
+                  {COLUMNS.map(c => (
+                    <th key={c.key} className={`px-2 py-1 ${c.right ? "text-right" : ""}`}>
+                      <button className="inline-flex items-center gap-1 font-semibold" onClick={() => toggleSort(c.key)}>
+                        {c.label}
+                        {sort.key === c.key && (sort.desc
+                          ? <ArrowDown className="h-3 w-3" />
+                          : <ArrowUp className="h-3 w-3" />)}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="px-2 py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {list.map(r => (
+                  <tr key={r.id} className={`border-t ${r.id === currentId ? "text-accent" : ""}`}>
+                    <td className="px-2 py-1 whitespace-nowrap">{DOC_META[r.form.docType].label}</td>
+                    <td className="px-2 py-1 font-mono">{r.invoiceNo || <span className="opacity-60">(unnumbered)</span>}</td>
+                    <td className="px-2 py-1">{r.customer || "—"}</td>
+                    <td className="px-2 py-1 whitespace-nowrap">{r.date}</td>
+                    <td className="px-2 py-1 text-right whitespace-nowrap">{formatMoney(r.grand, r.form)}</td>
+                    <td className="px-2 py-1"><StatusBadge status={statusOf(r)} /></td>
+                    <td className="px-2 py-1 whitespace-nowrap opacity-70">{new Date(r.updatedAt).toLocaleString()}</td>
+                    <td className="px-2 py-1 text-right whitespace-nowrap">
+                      <button className="btn-ghost mr-2" onClick={() => onLoad(r)}>Load</button>
+                      <button className="btn-ghost mr-2" onClick={() => exportJson([r])}>Export</button>
+                      <button className="btn-ghost mr-2" onClick={() => onPayments(r)}>
+                        {isReceivable(r.form.docType) ? "Payments" : "Status"}
+                      </button>
+                      <button className="btn-ghost mr-2" onClick={() => onVersions(r)}>Versions</button>
+                      <button className="btn-ghost" onClick={() => onDelete(r)}>Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import type { InvoiceRecord } from "./invoiceDb";
+import {
+  CONFLICT_POLICIES, findConflict, parseBundle, planImport,
+  type ConflictPolicy, type ImportPlan, type ParsedImport,
+} from "./bundle";
+import { parseLineRegister } from "./registers";
+
+export default function ImportModal({ existing, onImport, onClose }: {
+  existing: InvoiceRecord[];
+  onImport: (records: InvoiceRecord[]) => Promise<void>;
+  onClose: () => void;
+}) {
+  const fileRef = useRef<HTMLInputElement | null>(null);
+  const [file, setFile] = useState("");
+  const [register, setRegister] = useState(false);   // a line register CSV rather than a bundle
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [policy, setPolicy] = useState<ConflictPolicy>("skip");
+  const [result, setResult] = useState<ImportPlan | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const read = async (f: File) => {
+    const text = await f.text();
+    setFile(f.name);
+    setResult(null);
+    const csv = /\.csv$/i.test(f.name) || f.type === "text/csv";
+    setRegister(csv);
+    setParsed(csv ? parseLineRegister(text) : parseBundle(text));
+  };
+
+  const conflicts = parsed ? parsed.records.filter(r => findConflict(r, existing)).length : 0;
+
+  const run = async () => {
+    if (!parsed) return;
+    const plan = planImport(parsed.records, existing, policy);
+    setBusy(true);
+    try {
+      await onImport(plan.put);
+      setResult(plan);
+    } catch (err) {
+      console.error("Import failed", err);
+      alert(`Import failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-[60]">
+      <div className="bg-surface rounded-xl p-5 w-[min(720px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Import Invoices</h3>
+            <div className="text-xs opacity-70">JSON bundle exported from this app, or a line-level register CSV</div>
+          </div>
+          <div className="flex gap-2">
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => fileRef.current?.click()}>
+              <Upload className="h-4 w-4" /> Choose file
+            </button>
+            <input ref={fileRef} type="file" accept=".json,application/json,.csv,text/csv" className="hidden"
+              onChange={e => { const f = e.target.files?.[0]; if (f) void read(f); e.target.value = ""; }} />
+            <button className="btn-ghost" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        {parsed && (
+          <div className="text-sm space-y-1">
+            <div><span className="font-mono">{file}</span>: {parsed.records.length} valid invoice(s)
+              {parsed.errors.length > 0 && <>, <span className="text-red-600">{parsed.errors.length} problem(s)</span></>}
+              {conflicts > 0 && <>, {conflicts} already here</>}
+            </div>
+            {register && (
+              <div className="text-xs opacity-70">
+                A register has no seller details: imported invoices take the seller from your business profile.
+              </div>
+            )}
+          </div>
+        )}
+
+        {parsed && parsed.errors.length > 0 && (
+          <div className="max-h-48 overflow-y-auto rounded-xl border p-2 text-xs">
+            <table className="min-w-full">
+              <tbody>
+                {parsed.errors.map((e, i) => (
+                  <tr key={i} className="align-top">
+                    <td className="pr-3 whitespace-nowrap font-semibold">{e.row}</td>
+                    <td className="text-red-600">{e.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {parsed && parsed.records.length > 0 && !result && (
+          <div className="flex flex-wrap items-center gap-2">
+            {conflicts > 0 && (
+              <select className="input flex-1" aria-label="When an invoice already exists"
+                value={policy} onChange={e => setPolicy(e.target.value as ConflictPolicy)}>
+                {CONFLICT_POLICIES.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            )}
+            <button className="btn-primary" disabled={busy} onClick={run}>
+              Import {parsed.records.length} invoice(s)
+            </button>
+          </div>
+        )}
+
+        {result && (
+          <div className="text-sm rounded-xl border p-2">
+            Added {result.added}, replaced {result.replaced}, copied {result.copied}, skipped {result.skipped}.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,90 +1,102 @@
-import  { useEffect, useMemo, useRef, useState } from "react";
-import jsPDF from "jspdf";
-import autoTable from "jspdf-autotable";
+import  { useEffect, useMemo, useRef, useState, type ClipboardEvent, type DragEvent, type KeyboardEvent as KeyEvent } from "react";
 import * as htmlToImage from "html-to-image";
 import {
   Moon, Sun, Download as FileDown, ImageDown,
-  Save, History, Plus, Trash2
+  Save, History, Plus, Trash2, BookUser, Package, FilePlus,
+  LayoutDashboard, Stamp, ListOrdered, ArrowRightLeft, Landmark, Repeat, Files, Undo2, Redo2, GitCompare,
+  Heading, Sigma, GripVertical, Copy, DatabaseBackup, WifiOff, Send, Printer, ChartColumn,
 } from "lucide-react";
+import { GST_RATES, stateLabel } from "./gst";
+import { EMPTY_PAYMENT, bankLine, isValidIfsc, isValidVpa, upiUri, type PaymentSettings } from "./payment";
+import QrCode from "./QrCode";
+import {
+  addressLines, loadCustomers, loadSellerProfile, newPartyId,
+  partyLines, saveCustomers, saveSellerProfile, type Address, type Party,
+} from "./parties";
+import PartyFields, { AddressFields } from "./PartyFields";
+import AddressBook from "./AddressBook";
+import StateSelect from "./StateSelect";
+import {
+  findByDescription, findBySku, loadCatalog, loadUnits, saveCatalog, saveUnits, type Product,
+} from "./catalog";
+import ProductCatalog from "./ProductCatalog";
+import {
+  NEW_FORM, convertForm, invoiceTotals, newItem, placeOfSupply, serials, type Form, type Item,
+} from "./invoice";
+import { applyPaste, duplicateRow, isGridPaste, moveRow, parseGridPaste, type PasteColumn } from "./itemRows";
+import {
+  CONVERSIONS, DOC_META, DOC_TYPES, refLine, type DocRef, type DocType,
+} from "./documents";
+import {
+  deleteInvoice, findByNumber, getInvoice, listInvoices, loadDraft, migrateLocalStorage,
+  putInvoice, saveDraft, toRecord, type InvoiceRecord, type Revision,
+} from "./invoiceDb";
+import HistoryModal from "./HistoryModal";
+import ImportModal from "./ImportModal";
+import { PAYMENT_TERMS, addDays, daysBetween, todayIso } from "./ledger";
+import PaymentsModal from "./PaymentsModal";
+import Dashboard from "./Dashboard";
+import ReportsModal from "./ReportsModal";
+import {
+  formatNumber, loadSeries, nextSeq, patternError, previewNext, reserveSeq, saveSeries,
+  seriesFor, takeNumber, type NumberSeries,
+} from "./numbering";
+import NumberingModal from "./NumberingModal";
+import {
+  loadRecurring, runRecurring, runSummary, saveRecurring, type RecurringTemplate,
+} from "./recurring";
+import RecurringModal from "./RecurringModal";
+import BulkModal from "./BulkModal";
+import { invoicePdfZip } from "./pdfZip";
+import { downloadBlob, safeFileName } from "./download";
+import { ROUNDING_POLICIES, type DiscountMode, type RoundingPolicy, type RowKind } from "./pricing";
+import { PDF_FONTS, type PdfFont } from "./pdfFonts";
+import { loadLayout, saveLayout, type PdfLayout } from "./pdfLayout";
+import PdfLayoutCard from "./PdfLayoutCard";
+import BrandCard from "./BrandCard";
+import { activeBrand, brandLayout, brandVars, loadBrands, saveBrands, type BrandSettings } from "./brands";
+import { useUndoable } from "./useUndoable";
+import { fieldIssue, gateCheck, validateForm, type Gate } from "./validation";
+import RevisionsModal from "./RevisionsModal";
+import EInvoiceModal from "./EInvoiceModal";
+import BackupModal from "./BackupModal";
+import ShareModal from "./ShareModal";
+import { registerServiceWorker } from "./pwa";
+import { hasIrn } from "./einvoice";
+import { DEFAULT_ACCENT, buildInvoicePdf, lightTheme, parseColor, type RGB } from "./invoicePdf";
+import { fetchPdfFont } from "./pdfFontUrls";
+import {
+  BASE_CURRENCY, CURRENCIES, NUMBER_SYSTEMS, amountInWords, currencyInfo, defaultSystem, inrEquivalent,
+  numberFmt,
+  type NumberSystem,
+} from "./currency";
 
 /* ---------- helpers (theme + money) ------------------------------------- */
 const getCssVar = (name: string, fallback = "") =>
   getComputedStyle(document.documentElement).getPropertyValue(name).trim() || fallback;
 
-const nf2 = new Intl.NumberFormat("en-IN", {
-  minimumFractionDigits: 2, maximumFractionDigits: 2,
-});
-const moneyFmt = (symbol: string) => (n: number) => `${symbol}${nf2.format(+n || 0)}`;
-
-// color helpers for syncing PDF colors with CSS variables
-const hexToRgb = (hex: string): [number, number, number] => {
-  const h = hex.replace("#", "").trim();
-  const f = h.length === 3 ? h.split("").map(c => c + c).join("") : h;
-  const n = parseInt(f, 16);
-  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+const moneyFmt = ({ currency, numberSystem }: Pick<Form, "currency" | "numberSystem">) => {
+  const c = currencyInfo(currency);
+  const num = numberFmt(c.decimals, numberSystem);
+  return (n: number) => `${c.symbol}${num(n)}`;
 };
-const parseCssColor = (value: string, fallback: string): [number, number, number] => {
+
+// CSS variables → PDF colours; named colours are resolved by the browser
+const parseCssColor = (value: string, fallback: string): RGB => {
   const v = value || fallback;
-  if (v.startsWith("#")) return hexToRgb(v);
-  const m = v.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/i);
-  if (m) return [parseInt(m[1]), parseInt(m[2]), parseInt(m[3])];
+  const direct = parseColor(v);
+  if (direct) return direct;
   const el = document.createElement("span");
   el.style.color = v;
   document.body.appendChild(el);
   const cs = getComputedStyle(el).color;
   document.body.removeChild(el);
-  const mm = cs.match(/rgba?\((\d+),\s*(\d+),\s*(\d+)/i);
-  return mm ? [parseInt(mm[1]), parseInt(mm[2]), parseInt(mm[3])] : hexToRgb(fallback);
-};
-const fmtDate = (iso?: string) => {
-  if (!iso) return "";
-  const d = new Date(iso);
-  const pad = (n: number) => String(n).padStart(2, "0");
-  return `${pad(d.getDate())}-${pad(d.getMonth() + 1)}-${d.getFullYear()}`;
-};
-
-/* ---------- types -------------------------------------------------------- */
-type Item = {
-  description: string;
-  qty: number | string;
-  unit: string;
-  rate: number | string;
-  discount: number | string;
-  hsn: string;
-  sku: string;
+  return parseColor(cs) ?? parseColor(fallback) ?? DEFAULT_ACCENT;
 };
 
-type Form = {
-  businessName: string;
-  customerName: string;
-  invoiceNo: string;
-  date: string;
-  place: string;
-  symbol: string;
-  items: Item[];
-  overallDiscount: number | string;
-};
-
-const newItem = (): Item => ({
-  description: "", qty: 0, unit: "Pcs.", rate: 0, discount: 0, hsn: "", sku: ""
-});
-
-const NEW_FORM = (): Form => ({
-  businessName: "",
-  customerName: "",
-  invoiceNo: "INV-" +
-    new Date().toISOString().slice(0, 10).replaceAll("-", "") +
-    "-" + new Date().toTimeString().slice(0, 5).replace(":", ""),
-  date: new Date().toISOString().slice(0, 10),
-  place: "",
-  symbol: "₹",
-  items: [newItem()],
-  overallDiscount: 0,
-});
-
 /* ---------- localStorage keys ------------------------------------------- */
-const DRAFT_KEY = "invoice_draft_v3";
-const SAVE_PREFIX = "invoice_save_"; // followed by name
+// invoices and the working draft live in IndexedDB (see ./invoiceDb)
+const PAYMENT_KEY = "invoice_payment_v1";
 
 /* ======================================================================== */
 /*                                COMPONENT                                 */
@@ -98,191 +110,523 @@ export default function InvoiceApp() {
     document.documentElement.classList.toggle("dark", dark);
   }, [dark]);
 
-  /* form + autosave */
-  const [form, setForm] = useState<Form>(() => {
-    const draft = localStorage.getItem(DRAFT_KEY);
-    if (draft) try { return JSON.parse(draft) as Form; } catch {}
-    return NEW_FORM();
+  /* form + autosave (IndexedDB; the draft is restored once the store is open) */
+  const {
+    value: form, set: setForm, reset: resetForm, undo, redo, canUndo, canRedo,
+  } = useUndoable<Form>(NEW_FORM);
+  const [recordId, setRecordId] = useState<string | null>(null); // saved invoice being edited
+  const [ready, setReady] = useState(false);
+  useEffect(() => {
+    migrateLocalStorage()
+      .then(loadDraft)
+      .then(d => { if (d) { resetForm(d.form); setRecordId(d.recordId); } })
+      .catch(err => console.error("Could not open the invoice store", err))
+      .finally(() => setReady(true));
+  }, [resetForm]);
+
+  // Ctrl/⌘+Z undo • Ctrl/⌘+Shift+Z or Ctrl/⌘+Y redo (the editor's own history, not the browser's)
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const k = e.key.toLowerCase();
+      if (k === "z" && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((k === "z" && e.shiftKey) || k === "y") { e.preventDefault(); redo(); }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    if (ready) saveDraft({ form, recordId }).catch(err => console.error("Autosave failed", err));
+  }, [form, recordId, ready]);
+
+  const { currency, numberSystem } = form;
+  const formatMoney = useMemo(() => moneyFmt({ currency, numberSystem }), [currency, numberSystem]);
+
+  /* payment settings (shared by every invoice) */
+  const [payment, setPayment] = useState<PaymentSettings>(() => {
+    const raw = localStorage.getItem(PAYMENT_KEY);
+    if (raw) try { return { ...EMPTY_PAYMENT(), ...JSON.parse(raw) }; } catch { /* fall through */ }
+    return EMPTY_PAYMENT();
   });
-  useEffect(() => { localStorage.setItem(DRAFT_KEY, JSON.stringify(form)); }, [form]);
+  useEffect(() => { localStorage.setItem(PAYMENT_KEY, JSON.stringify(payment)); }, [payment]);
 
-  const formatMoney = useMemo(() => moneyFmt(form.symbol), [form.symbol]);
+  /* PDF layout: template, signature, terms (shared by every invoice) */
+  const [layout, setLayout] = useState<PdfLayout>(loadLayout);
+  useEffect(() => { saveLayout(layout); }, [layout]);
+
+  /* brand profiles: colours (as CSS variables), logo and footer */
+  const [brands, setBrands] = useState<BrandSettings>(() => loadBrands(layout.logo));
+  useEffect(() => { saveBrands(brands); }, [brands]);
+  const brand = activeBrand(brands);
+  useEffect(() => {
+    const root = document.documentElement.style;
+    const vars = brandVars(brand, dark);
+    for (const name of ["--color-accent", "--color-surface"]) {
+      if (vars[name]) root.setProperty(name, vars[name]);
+      else root.removeProperty(name);
+    }
+  }, [brand, dark]);
+  const pdfLayout = brandLayout(layout, brand);
 
   /* items CRUD */
-  const addItem = () => setForm(f => ({ ...f, items: [...f.items, newItem()] }));
+  const addItem = (kind: RowKind = "item") =>
+    setForm(f => ({ ...f, items: [...f.items, newItem(kind)] }), { step: true });
   const rmItem = (i: number) =>
-    setForm(f => ({ ...f, items: f.items.filter((_, idx) => idx !== i) }));
+    setForm(f => ({ ...f, items: f.items.filter((_, idx) => idx !== i) }), { step: true });
   const setItem = (i: number, patch: Partial<Item>) =>
     setForm(f => {
       const items = [...f.items]; items[i] = { ...items[i], ...patch }; return { ...f, items };
     });
+  const duplicateItem = (i: number) => setForm(f => ({ ...f, items: duplicateRow(f.items, i) }), { step: true });
+  const moveItem = (from: number, to: number) =>
+    setForm(f => ({ ...f, items: moveRow(f.items, from, to) }), { step: true });
+
+  // a block of cells copied from a spreadsheet fills rows from here down
+  const pasteItems = (i: number, col: PasteColumn, e: ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData("text/plain");
+    if (!isGridPaste(text)) return;
+    const rows = parseGridPaste(text, col);
+    if (!rows.length) return;
+    e.preventDefault();
+    setForm(f => ({ ...f, items: applyPaste(f.items, i, rows) }), { step: true });
+  };
 
-  /* totals */
-  const totals = useMemo(() => {
-    const subtotal = form.items.reduce((s, it) =>
-      s + Math.max(0, (+it.qty || 0) * (+it.rate || 0) - (+it.discount || 0)), 0);
-    const afterDisc = Math.max(0, subtotal - (+form.overallDiscount || 0));
-    const grand = Math.round(afterDisc);
-    const roundoff = +(grand - afterDisc).toFixed(2);
-    return { subtotal, roundoff, grand };
-  }, [form.items, form.overallDiscount]);
-
-  /* history modal */
+  /* grid keys: Enter = same column next row, Tab off the last cell = new row,
+     Alt+↑/↓ = move the row. Cells carry data-row / data-col. */
+  const gridRef = useRef<HTMLTableSectionElement | null>(null);
+  const focusAfterRender = useRef<{ row: number; col: string } | null>(null);
+  const focusCell = (row: number, col: string) => {
+    const q = (c: string) => gridRef.current?.querySelector<HTMLElement>(`[data-row="${row}"][data-col="${c}"]`);
+    (q(col) ?? q("description"))?.focus();
+  };
+  useEffect(() => {
+    const want = focusAfterRender.current;
+    if (!want) return;
+    focusAfterRender.current = null;
+    focusCell(want.row, want.col);
+  });
+  const onGridKey = (e: KeyEvent<HTMLTableSectionElement>) => {
+    const el = e.target as HTMLElement;
+    const row = Number(el.dataset.row), col = el.dataset.col;
+    if (!col || !Number.isInteger(row)) return;
+    const last = row === form.items.length - 1;
+    if (e.altKey && (e.key === "ArrowUp" || e.key === "ArrowDown")) {
+      const to = row + (e.key === "ArrowUp" ? -1 : 1);
+      if (to < 0 || to >= form.items.length) return;
+      e.preventDefault();
+      moveItem(row, to);
+      focusAfterRender.current = { row: to, col };
+    } else if (e.key === "Enter" && el.tagName === "INPUT") {
+      e.preventDefault();
+      if (e.shiftKey) { if (row > 0) focusCell(row - 1, col); }
+      else if (last) { addItem(); focusAfterRender.current = { row: row + 1, col }; }
+      else focusCell(row + 1, col);
+    } else if (e.key === "Tab" && !e.shiftKey && last) {
+      const cells = [...el.closest("tr")?.querySelectorAll<HTMLElement>("[data-col]") ?? []]
+        .filter(c => c.offsetParent !== null);
+      if (cells[cells.length - 1] !== el) return;
+      e.preventDefault();
+      addItem();
+      focusAfterRender.current = { row: row + 1, col: "description" };
+    }
+  };
+
+  /* drag and drop by the row handle */
+  const [dragRow, setDragRow] = useState<number | null>(null);
+
+  /* product catalog + units master */
+  const [products, setProducts] = useState<Product[]>(loadCatalog);
+  const [units, setUnits] = useState<string[]>(loadUnits);
+  const [showCatalog, setShowCatalog] = useState(false);
+  useEffect(() => { saveCatalog(products); }, [products]);
+  useEffect(() => { saveUnits(units); }, [units]);
+
+  // typing/picking a known SKU or description fills the rest of the row
+  const applyProduct = (i: number, p: Product) => setItem(i, {
+    sku: p.sku, description: p.description, hsn: p.hsn, unit: p.unit, rate: p.rate, gstRate: p.gstRate,
+  });
+  const onDescription = (i: number, description: string) => {
+    const p = findByDescription(products, description);
+    if (p) applyProduct(i, p); else setItem(i, { description });
+  };
+  const onSku = (i: number, sku: string) => {
+    const p = findBySku(products, sku);
+    if (p) applyProduct(i, p); else setItem(i, { sku });
+  };
+
+  /* parties: seller profile + customer address book */
+  const [customers, setCustomers] = useState<Party[]>(loadCustomers);
+  const [showAddressBook, setShowAddressBook] = useState(false);
+  useEffect(() => { saveCustomers(customers); }, [customers]);
+
+  const setSeller = (patch: Partial<Party>) => setForm(f => ({ ...f, seller: { ...f.seller, ...patch } }));
+  const setBuyer = (patch: Partial<Party>) => setForm(f => ({ ...f, buyer: { ...f.buyer, ...patch } }));
+  const setShipTo = (patch: Partial<Address>) => setForm(f => ({ ...f, shipTo: { ...f.shipTo, ...patch } }));
+
+  const saveSeller = () => {
+    saveSellerProfile(form.seller);
+    alert("Seller profile saved!");
+  };
+  const applySavedSeller = () => {
+    const p = loadSellerProfile();
+    if (!p) { alert("No seller profile saved yet."); return; }
+    setForm(f => ({ ...f, seller: p }), { step: true });
+  };
+  const saveCustomer = () => {
+    if (!form.buyer.name.trim()) { alert("Enter the customer name first."); return; }
+    const buyer = { ...form.buyer, id: form.buyer.id || newPartyId() };
+    setCustomers(list => [...list.filter(c => c.id !== buyer.id), buyer]);
+    setForm(f => ({ ...f, buyer }));
+    alert("Customer saved!");
+  };
+  const pickCustomer = (p: Party) => {
+    setForm(f => ({ ...f, buyer: { ...p } }), { step: true });
+    setShowAddressBook(false);
+  };
+  const deleteCustomer = (id: string) => {
+    if (!confirm("Delete this customer?")) return;
+    setCustomers(list => list.filter(c => c.id !== id));
+  };
+
+  /* totals (GST: CGST+SGST within the state, IGST across states) */
+  const totals = useMemo(() => invoiceTotals(form), [form]);
+  const sn = useMemo(() => serials(form.items), [form.items]);
+  const cur = currencyInfo(form.currency);
+  const num = numberFmt(cur.decimals, form.numberSystem);
+  const inrLine = inrEquivalent(totals.grand, form.currency, +form.exchangeRate || 0);
+  const inWords = amountInWords(totals.grand, form.currency, form.numberSystem);
+
+  const meta = DOC_META[form.docType];
+  const displayNo = form.invoiceNo || "DRAFT";
+  const upi = payment.showQr && meta.payable && form.currency === BASE_CURRENCY ? upiUri(payment, totals.grand, form.invoiceNo) : "";
+  const bankDetails = bankLine(payment);
+
+  // Store calls can fail (storage full, private browsing, a blocked upgrade);
+  // say so instead of leaving an unhandled rejection and a user who thinks it worked.
+  const storeAction = <A extends unknown[]>(what: string, run: (...args: A) => Promise<void>) =>
+    async (...args: A) => {
+      try {
+        await run(...args);
+      } catch (err) {
+        console.error(`${what} failed`, err);
+        alert(`${what} failed: ${(err as Error).message}`);
+      }
+    };
+
+  /* saved invoices + history modal */
   const [showHistory, setShowHistory] = useState(false);
-  const savedKeys = (): string[] =>
-    Object.keys(localStorage).filter(k => k.startsWith(SAVE_PREFIX)).sort();
-
-  const saveNamed = async () => {
-    const name = prompt("Save as (letters, numbers, hyphen/underscore only):", "INV-0001");
-    if (!name) return;
-    const key = SAVE_PREFIX + name.replace(/[^a-z0-9-_]/gi, "_");
-    localStorage.setItem(key, JSON.stringify(form));
+  const [records, setRecords] = useState<InvoiceRecord[]>([]);
+
+  const newInvoice = () => {
+    if (!confirm("Start a new invoice? Unsaved changes to this one will be lost.")) return;
+    resetForm(NEW_FORM());
+    setRecordId(null);
+  };
+  const saveInvoice = storeAction("Saving", async () => {
+    if (!passes("save")) return;
+    const invoiceNo = form.invoiceNo.trim();
+    const current = recordId ? await getInvoice(recordId) : undefined;
+    const clash = invoiceNo ? (await findByNumber(invoiceNo)).find(r => r.id !== current?.id) : undefined;
+    if (clash && !confirm(`Invoice ${invoiceNo} is already saved. Overwrite it?`)) return;
+    const rec = await putInvoice(toRecord({ ...form, invoiceNo }, clash ?? current));
+    setRecordId(rec.id);
     alert("Saved!");
+  });
+  const openHistory = storeAction("Loading the saved invoices", async () => {
+    setRecords(await listInvoices());
+    setShowHistory(true);
+  });
+
+  /* JSON bundle / register import (conflicts are resolved by ImportModal) */
+  const [showImport, setShowImport] = useState(false);
+  const importRecords = async (incoming: InvoiceRecord[]) => {
+    for (const rec of incoming) await putInvoice(rec);
+    setRecords(await listInvoices());
+  };
+
+  /* numbering series: a number is reserved only when the invoice is issued */
+  const [series, setSeries] = useState<NumberSeries[]>(loadSeries);
+  const [showNumbering, setShowNumbering] = useState(false);
+  useEffect(() => { saveSeries(series); }, [series]);
+  const activeSeries = seriesFor(series, form.docType, form.series);
+  const typeSeries = series.filter(s => s.docType === form.docType);
+
+  // next free number in the form's series, skipping numbers already saved;
+  // `commit` advances the counter once the issued invoice is stored
+  const allocateNumber = async (f: Form, ownId?: string) => {
+    const s = seriesFor(series, f.docType, f.series);
+    const err = patternError(s.pattern);
+    if (err) { alert(`Numbering series "${s.name}": ${err}`); return null; }
+    let seq = nextSeq(s, f.date);
+    while ((await findByNumber(formatNumber(s, f.date, seq))).some(r => r.id !== ownId)) seq++;
+    return {
+      invoiceNo: formatNumber(s, f.date, seq),
+      commit: () => setSeries(list => list.map(x => (x.id === s.id ? reserveSeq(x, f.date, seq) : x))),
+    };
   };
-  const loadNamed = (key: string) => {
-    const raw = localStorage.getItem(key); if (!raw) return;
-    try { setForm(JSON.parse(raw)); setShowHistory(false); } catch {}
+
+  const issueInvoice = storeAction("Issuing", async () => {
+    if (!passes("issue")) return;
+    const current = recordId ? await getInvoice(recordId) : undefined;
+    if (current && current.status !== "draft") {
+      alert(`${DOC_META[current.form.docType].label} ${current.invoiceNo} is already ${current.status}.`); return;
+    }
+    let invoiceNo = form.invoiceNo.trim();
+    let commit = () => {};
+    if (invoiceNo) {
+      if ((await findByNumber(invoiceNo)).some(r => r.id !== current?.id)) {
+        alert(`Number ${invoiceNo} is already used by another saved document.`); return;
+      }
+    } else {
+      const next = await allocateNumber(form, current?.id);
+      if (!next) return;
+      ({ invoiceNo, commit } = next);
+    }
+    if (!confirm(`Issue ${meta.label.toLowerCase()} ${invoiceNo}? The number cannot be reused afterwards.`)) return;
+    const rec = await putInvoice({ ...toRecord({ ...form, invoiceNo }, current), status: "issued" });
+    commit();
+    setForm(f => ({ ...f, invoiceNo }));
+    setRecordId(rec.id);
+  });
+
+  /* document type changes + one-click conversions */
+  const setDocType = (docType: DocType) => setForm(f => ({
+    ...f, docType, series: seriesFor(series, docType).id,
+    ref: DOC_META[docType].needsRef ? f.ref ?? { docType: "invoice", no: "", date: "" } : f.ref,
+  }));
+  const setRef = (patch: Partial<DocRef>) => setForm(f => ({
+    ...f, ref: { docType: "invoice", no: "", date: "", ...f.ref, ...patch },
+  }));
+  const convertTo = (to: DocType) => {
+    if (!form.invoiceNo &&
+      !confirm(`This ${meta.label.toLowerCase()} has no number yet, so the reference will be blank. Continue?`)) return;
+    if (!confirm(`Create a ${DOC_META[to].label.toLowerCase()} from ${displayNo}? ` +
+      "Save first if you want to keep changes to the current document.")) return;
+    resetForm(convertForm(form, to, seriesFor(series, to).id));
+    setRecordId(null);
   };
-  const deleteNamed = (key: string) => {
-    if (!confirm("Delete this saved invoice?")) return;
-    localStorage.removeItem(key);
-    setShowHistory(true); // re-render list
+
+  // warn inline when the typed number already belongs to another saved invoice
+  const [duplicateOf, setDuplicateOf] = useState<InvoiceRecord | null>(null);
+  useEffect(() => {
+    const no = form.invoiceNo.trim();
+    if (!ready || !no) { setDuplicateOf(null); return; }
+    let live = true;
+    findByNumber(no)
+      .then(list => { if (live) setDuplicateOf(list.find(r => r.id !== recordId) ?? null); })
+      .catch(() => { /* store unavailable: nothing to compare against */ });
+    return () => { live = false; };
+  }, [form.invoiceNo, recordId, ready]);
+
+  // the saved document a credit or debit note cites, to check the note against its total
+  const [referenced, setReferenced] = useState<InvoiceRecord | null>(null);
+  const refNo = form.ref?.no.trim() ?? "";
+  const refType = form.ref?.docType;
+  useEffect(() => {
+    if (!ready || !refNo) { setReferenced(null); return; }
+    let live = true;
+    findByNumber(refNo)
+      .then(list => {
+        if (live) setReferenced(list.find(r => r.id !== recordId && r.form.docType === refType) ?? null);
+      })
+      .catch(() => { /* store unavailable: nothing to compare against */ });
+    return () => { live = false; };
+  }, [refNo, refType, recordId, ready]);
+
+  /* validation: marked inline; errors block issue/export, warnings ask first */
+  const issues = useMemo(
+    () => validateForm(form, { duplicateNo: !!duplicateOf, refTotal: referenced?.grand }),
+    [form, duplicateOf, referenced],
+  );
+  const issueErrors = issues.filter(i => i.level === "error").length;
+  const invalid = (field: string) => {
+    const i = fieldIssue(issues, field);
+    return i ? { borderColor: i.level === "error" ? "#DC2626" : "#D97706" } : undefined;
   };
+  const passes = (gate: Gate) => {
+    const g = gateCheck(issues, gate);
+    if (g.block) { alert(g.message); return false; }
+    return !g.message || confirm(g.message);
+  };
+
+  /* revision history of saved documents */
+  const [revisionsFor, setRevisionsFor] = useState<InvoiceRecord | null>(null);
+  const openRevisions = storeAction("Loading earlier versions", async (rec?: InvoiceRecord) => {
+    const r = rec ?? (recordId ? await getInvoice(recordId) : undefined);
+    if (!r) { alert("Save this document first; earlier versions are kept from then on."); return; }
+    setRevisionsFor(r);
+  });
+  const restoreRevision = (rev: Revision) => {
+    resetForm(rev.form);
+    setRecordId(rev.recordId);
+    setRevisionsFor(null);
+    setShowHistory(false);
+  };
+
+  const loadRecord = (rec: InvoiceRecord) => {
+    resetForm(rec.form);
+    setRecordId(rec.id);
+    setShowHistory(false);
+  };
+  /* lifecycle: payments ledger + receivables dashboard */
+  const [paymentsFor, setPaymentsFor] = useState<InvoiceRecord | null>(null);
+  const [showDashboard, setShowDashboard] = useState(false);
+  const saveRecord = storeAction("Saving", async (rec: InvoiceRecord) => {
+    let commit = () => {};
+    if (rec.status === "issued" && !rec.invoiceNo) {
+      const next = await allocateNumber(rec.form, rec.id);
+      if (!next) return;
+      commit = next.commit;
+      rec = { ...rec, invoiceNo: next.invoiceNo, form: { ...rec.form, invoiceNo: next.invoiceNo } };
+      if (rec.id === recordId) setForm(f => ({ ...f, invoiceNo: rec.invoiceNo }));
+    }
+    const saved = await putInvoice({ ...rec, updatedAt: Date.now() });
+    commit();
+    setPaymentsFor(saved);
+    setRecords(await listInvoices());
+  });
+  const openDashboard = storeAction("Loading the dashboard", async () => {
+    setRecords(await listInvoices());
+    setShowDashboard(true);
+  });
+  const [showReports, setShowReports] = useState(false);
+  const openReports = storeAction("Loading the reports", async () => {
+    setRecords(await listInvoices());
+    setShowReports(true);
+  });
+
+  /* recurring templates: whatever has come due is created once the store is open */
+  const [templates, setTemplates] = useState<RecurringTemplate[]>(loadRecurring);
+  const [showRecurring, setShowRecurring] = useState(false);
+  const [recurringNote, setRecurringNote] = useState("");
+  useEffect(() => { saveRecurring(templates); }, [templates]);
+  const recurringChecked = useRef(false);
+  useEffect(() => {
+    if (!ready || recurringChecked.current) return;
+    recurringChecked.current = true;
+    runRecurring(loadRecurring(), loadSeries(), todayIso())
+      .then(run => {
+        setTemplates(run.templates);
+        setSeries(run.series);
+        setRecurringNote(runSummary(run));
+      })
+      .catch(err => console.error("Recurring invoices could not be created", err));
+  }, [ready]);
+  const runRecurringNow = storeAction("Creating recurring invoices", async () => {
+    const run = await runRecurring(templates, series, todayIso());
+    setTemplates(run.templates);
+    setSeries(run.series);
+    alert(runSummary(run) || "Nothing is due yet.");
+  });
+
+  /* bulk creation from a CSV; numbers are taken in row order */
+  const [showBulk, setShowBulk] = useState(false);
+  const createBulk = async (forms: Form[], issue: boolean) => {
+    const taken = new Set((await listInvoices()).map(r => r.invoiceNo).filter(Boolean));
+    let list = series;
+    const created: InvoiceRecord[] = [];
+    for (const f of forms) {
+      let rec = toRecord(f);
+      if (issue) {
+        const s = seriesFor(list, f.docType, f.series);
+        const err = patternError(s.pattern);
+        if (err) throw new Error(`Numbering series "${s.name}": ${err}`);
+        const next = takeNumber(s, f.date, taken);
+        list = list.map(x => (x.id === s.id ? next.series : x));
+        rec = { ...toRecord({ ...f, invoiceNo: next.invoiceNo }), status: "issued" };
+      }
+      created.push(await putInvoice(rec));
+      setSeries(list);
+    }
+    setRecords(await listInvoices());
+    return created;
+  };
+
+  /* e-invoice JSON, pasted IRN and GSTR-1 (needs the saved invoices) */
+  const [showGst, setShowGst] = useState(false);
+  const openGst = storeAction("Loading the saved invoices", async () => {
+    setRecords(await listInvoices());
+    setShowGst(true);
+  });
+
+  /* offline: service worker updates, connectivity, encrypted backup */
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [showBackup, setShowBackup] = useState(false);
+  useEffect(() => registerServiceWorker(apply => setApplyUpdate(() => apply)), []);
+  useEffect(() => {
+    const on = () => setOnline(true), off = () => setOnline(false);
+    window.addEventListener("online", on);
+    window.addEventListener("offline", off);
+    return () => { window.removeEventListener("online", on); window.removeEventListener("offline", off); };
+  }, []);
+
+  const deleteRecord = storeAction("Deleting", async (rec: InvoiceRecord) => {
+    const warning = rec.status === "draft"
+      ? `Delete saved invoice ${rec.invoiceNo || "(unnumbered draft)"}?`
+      : `Invoice ${rec.invoiceNo} has been issued. Deleting it leaves a gap in the number series; ` +
+        "cancelling it is usually the right choice. Delete anyway?";
+    if (!confirm(warning)) return;
+    await deleteInvoice(rec.id);
+    if (rec.id === recordId) setRecordId(null);
+    setRecords(await listInvoices());
+  });
 
   /* PNG export (theme-synced) */
   const previewRef = useRef<HTMLDivElement | null>(null);
   const downloadPNG = async () => {
-    if (!previewRef.current) return;
+    if (!previewRef.current || !passes("export")) return;
     const bg = getCssVar("--color-surface") || "#ffffff";
     const url = await htmlToImage.toPng(previewRef.current, {
       pixelRatio: 2,
       backgroundColor: bg,
     });
     const a = document.createElement("a");
-    a.href = url; a.download = `${form.invoiceNo}.png`; a.click();
+    a.href = url; a.download = `${safeFileName(displayNo)}.png`; a.click();
   };
 
-  /* PDF export (theme-synced) */
-  const downloadPDF = () => {
-  const doc = new jsPDF({ unit: "mm", format: "a4" });
-  const pageW = doc.internal.pageSize.getWidth();
-
-  // read theme vars from CSS
-  const bgVar      = getCssVar("--color-bg", "#FFFFFF");
-  const textVar    = getCssVar("--color-text", "#0A0A0A");
-  const accentVar  = getCssVar("--color-accent", "#2563EB");
-  const surfaceVar = getCssVar("--color-surface", "#FFFFFF");
-
-  const bgRGB      = parseCssColor(bgVar, "#FFFFFF");
-  const textRGB    = parseCssColor(textVar, "#0A0A0A");
-  const accentRGB  = parseCssColor(accentVar, "#2563EB");
-  const surfaceRGB = parseCssColor(surfaceVar, "#FFFFFF");
-
-  // tiny helper to make a very subtle tint for zebra rows / lines
-  const tint = ([r, g, b]: [number, number, number], amt = 10): [number, number, number] => {
-    const clamp = (x: number) => Math.max(0, Math.min(255, x));
-    return [clamp(r + amt), clamp(g + amt), clamp(b + amt)];
+  /* PDF export (theme-synced unless print-light is on) */
+  const pdfTheme = () => {
+    const accent = parseCssColor(getCssVar("--color-accent", "#2563EB"), "#2563EB");
+    return layout.printLight ? lightTheme(accent) : {
+      bg: parseCssColor(getCssVar("--color-bg", "#FFFFFF"), "#FFFFFF"),
+      text: parseCssColor(getCssVar("--color-text", "#0A0A0A"), "#0A0A0A"),
+      accent,
+      surface: parseCssColor(getCssVar("--color-surface", "#FFFFFF"), "#FFFFFF"),
+    };
   };
-
-  // Paint full-page background so dark mode exports dark
-  doc.setFillColor(...bgRGB);
-  doc.rect(0, 0, pageW, doc.internal.pageSize.getHeight(), "F");
-
-  // Header
-  doc.setTextColor(...textRGB);
-  doc.setFont("helvetica", "bold");
-  doc.setFontSize(18);
-  doc.text(form.businessName || "Invoice", 14, 18);
-
-  doc.setFont("helvetica", "normal");
-  doc.setFontSize(10);
-  doc.text(`Invoice No: ${form.invoiceNo}`, 14, 26);
-  doc.text(`Date: ${fmtDate(form.date)}`, 14, 31);
-  if (form.place) doc.text(`Place: ${form.place}`, 14, 36);
-
-  // Table
-  const currency = form.symbol === "₹" ? "Rs." : form.symbol;
-
-  autoTable(doc, {
-    startY: 44,
-    head: [[
-      "S.N", "Description", "Qty", "Unit",
-      `Rate (${currency})`, `Disc (${currency})`, `Amount (${currency})`
-    ]],
-    body: form.items.map((it, i) => {
-      const amount = Math.max(0, (+it.qty || 0) * (+it.rate || 0) - (+it.discount || 0));
-      return [
-        String(i + 1),
-        it.description || "",
-        String(it.qty || 0),
-        it.unit || "",
-        nf2.format(+it.rate || 0),
-        nf2.format(+it.discount || 0),
-        nf2.format(amount),
-      ];
-    }),
-    theme: "grid",
-
-    // header in accent
-    headStyles: {
-      fillColor: accentRGB,
-      textColor: [255, 255, 255],
-      fontStyle: "bold",
-      halign: "left",
-    },
-
-    // IMPORTANT: force body background & borders to theme
-    styles: {
-      font: "helvetica",
-      fontSize: 9,
-      cellPadding: 2,
-      textColor: textRGB,
-      fillColor: surfaceRGB,           // <-- this is the key line
-      lineColor: tint(surfaceRGB, 18),
-      lineWidth: 0.15,
-    },
-    alternateRowStyles: {
-      fillColor: tint(surfaceRGB, 8),  // subtle zebra that still matches theme
-    },
-    tableLineColor: tint(surfaceRGB, 18),
-    columnStyles: {
-      0: { halign: "center", cellWidth: 10 },
-      2: { halign: "right",  cellWidth: 14 },
-      3: { halign: "center", cellWidth: 14 },
-      4: { halign: "right",  cellWidth: 22 },
-      5: { halign: "right",  cellWidth: 22 },
-      6: { halign: "right",  cellWidth: 24 },
-    },
-
-    // safety: if any cell still comes out pure white, repaint it
-    didParseCell: (data) => {
-      const fc = data.cell.styles.fillColor as [number, number, number] | undefined;
-      if (fc && fc[0] === 255 && fc[1] === 255 && fc[2] === 255) {
-        data.cell.styles.fillColor = surfaceRGB;
-      }
-    },
-  });
-
-  // Totals
-  const m = (n: number) => `${currency}${nf2.format(+n || 0)}`;
-  let y = (doc as any).lastAutoTable.finalY + 8;
-  const rightX = pageW - 12;
-  const row = (label: string, value: string, strong = false, accent = false) => {
-    doc.setFont("helvetica", strong ? "bold" : "normal");
-    doc.setFontSize(strong ? 11 : 10);
-    doc.setTextColor(...(accent ? accentRGB : textRGB));
-    doc.text(label, rightX - 60, y);
-    doc.text(value, rightX, y, { align: "right" });
-    y += 6;
+  const pdfName = `${safeFileName(displayNo)}.pdf`;
+  const makePdf = async (): Promise<Blob | null> => {
+    const theme = pdfTheme();
+    let result;
+    try {
+      result = await buildInvoicePdf({ form, payment, layout: pdfLayout, theme, loadFont: fetchPdfFont });
+    } catch (err) {
+      console.error("Could not load the PDF font", err);
+      if (!confirm("The selected PDF font could not be loaded. Export with the built-in font instead?")) return null;
+      result = await buildInvoicePdf({
+        form: { ...form, pdfFont: "helvetica" }, payment, layout: pdfLayout, theme, loadFont: fetchPdfFont,
+      });
+    }
+    if (result.warnings.length) alert(`The PDF was created without some images:\n${result.warnings.join("\n")}`);
+    return result.pdf;
+  };
+  const downloadPDF = async () => {
+    if (!passes("export")) return;
+    const pdf = await makePdf();
+    if (pdf) downloadBlob(pdfName, pdf);
   };
 
-  row("Subtotal",         m(totals.subtotal));
-  row("Overall Discount", m(+form.overallDiscount || 0));
-  row("Round Off",        m(totals.roundoff));
-  row("Grand Total",      m(totals.grand), true, true);
-
-  doc.save(`${form.invoiceNo.replace(/[^a-zA-Z0-9-_]/g, "_")}.pdf`);
-};
+  /* send (share sheet, WhatsApp, e-mail) and print */
+  const [showShare, setShowShare] = useState(false);
+  const openShare = () => { if (passes("export")) setShowShare(true); };
+  const printInvoice = () => { if (passes("export")) window.print(); };
+  const downloadPdfZip = async (rows: InvoiceRecord[]) => {
+    const { zip, fallbackFont } = await invoicePdfZip(rows, { payment, layout: pdfLayout, theme: pdfTheme(), loadFont: fetchPdfFont });
+    downloadBlob(`invoices-${todayIso()}.zip`, zip);
+    return fallbackFont;
+  };
 
 
   return (
@@ -290,7 +634,7 @@ export default function InvoiceApp() {
       <div className="mx-auto max-w-6xl space-y-6">
 
         {/* Top bar */}
-        <div className="flex items-center justify-between">
+        <div className="flex flex-wrap items-center justify-between gap-3">
           <div className="flex items-center gap-3">
             <div className="h-10 w-10 grid place-items-center rounded-2xl text-white font-extrabold shadow"
               style={{ background: "var(--color-accent)" }}>
@@ -302,167 +646,540 @@ export default function InvoiceApp() {
             </div>
           </div>
 
-          <div className="flex items-center gap-2">
+          <div className="flex flex-wrap items-center justify-end gap-2">
             <button className="btn-ghost inline-flex items-center gap-2" onClick={() => setDark(d => !d)}>
               {dark ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
               {dark ? "Light" : "Dark"}
             </button>
-            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => saveNamed()}>
+            <button className="btn-ghost inline-flex items-center gap-2" disabled={!canUndo} onClick={undo}
+              title="Undo (Ctrl+Z)">
+              <Undo2 className="h-4 w-4" /> Undo
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" disabled={!canRedo} onClick={redo}
+              title="Redo (Ctrl+Shift+Z)">
+              <Redo2 className="h-4 w-4" /> Redo
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={newInvoice}>
+              <FilePlus className="h-4 w-4" /> New
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => saveInvoice()}>
               <Save className="h-4 w-4" /> Save
             </button>
-            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => setShowHistory(true)}>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => issueInvoice()}>
+              <Stamp className="h-4 w-4" /> Issue
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" disabled={!recordId} onClick={() => openRevisions()}>
+              <GitCompare className="h-4 w-4" /> Versions
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => openHistory()}>
               <History className="h-4 w-4" /> History
             </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => openDashboard()}>
+              <LayoutDashboard className="h-4 w-4" /> Dashboard
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => openReports()}>
+              <ChartColumn className="h-4 w-4" /> Reports
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => setShowNumbering(true)}>
+              <ListOrdered className="h-4 w-4" /> Numbering
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => setShowCatalog(true)}>
+              <Package className="h-4 w-4" /> Catalog
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => setShowRecurring(true)}>
+              <Repeat className="h-4 w-4" /> Recurring
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => setShowBulk(true)}>
+              <Files className="h-4 w-4" /> Bulk
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => openGst()}>
+              <Landmark className="h-4 w-4" /> GST
+            </button>
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => setShowBackup(true)}>
+              <DatabaseBackup className="h-4 w-4" /> Backup
+            </button>
           </div>
         </div>
 
+        {!online && (
+          <div className="card flex items-center gap-2 text-sm">
+            <WifiOff className="h-4 w-4" />
+            Offline. Everything keeps working and is saved on this device.
+          </div>
+        )}
+
+        {applyUpdate && (
+          <div className="card flex items-center justify-between gap-3 text-sm">
+            <span>A new version of the app is ready.</span>
+            <div className="flex gap-2">
+              <button className="btn-ghost" onClick={applyUpdate}>Reload</button>
+              <button className="btn-ghost" onClick={() => setApplyUpdate(null)}>Later</button>
+            </div>
+          </div>
+        )}
+
+        {recurringNote && (
+          <div className="card flex items-center justify-between gap-3 text-sm">
+            <span>{recurringNote}</span>
+            <div className="flex gap-2">
+              <button className="btn-ghost" onClick={() => { setRecurringNote(""); void openHistory(); }}>Open History</button>
+              <button className="btn-ghost" onClick={() => setRecurringNote("")}>Dismiss</button>
+            </div>
+          </div>
+        )}
+
         {/* Form + Items */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* left */}
           <section className="lg:col-span-2 space-y-4">
             <div className="bg-surface rounded-xl p-5 shadow">
-              <h3 className="font-semibold mb-3">Header</h3>
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                <h3 className="font-semibold">Header</h3>
+                {CONVERSIONS[form.docType].length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="opacity-70">Create:</span>
+                    {CONVERSIONS[form.docType].map(t => (
+                      <button key={t} className="btn-ghost inline-flex items-center gap-2" onClick={() => convertTo(t)}>
+                        <ArrowRightLeft className="h-4 w-4" /> {DOC_META[t].label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               <div className="grid sm:grid-cols-2 gap-3">
-                <input className="input" placeholder="Business Name"
-                  value={form.businessName}
-                  onChange={e => setForm({ ...form, businessName: e.target.value })} />
-                <input className="input" placeholder="Customer Name"
-                  value={form.customerName}
-                  onChange={e => setForm({ ...form, customerName: e.target.value })} />
-                <input className="input" placeholder="Invoice No"
-                  value={form.invoiceNo}
-                  onChange={e => setForm({ ...form, invoiceNo: e.target.value })} />
-                <input className="input" type="date"
-                  value={form.date}
-                  onChange={e => setForm({ ...form, date: e.target.value })} />
-                <input className="input" placeholder="Place of Issue"
+                <select className="input" aria-label="Document type"
+                  value={form.docType} onChange={e => setDocType(e.target.value as DocType)}>
+                  {DOC_TYPES.map(t => <option key={t} value={t}>{DOC_META[t].label}</option>)}
+                </select>
+                <div>
+                  <div className="flex gap-2">
+                    {typeSeries.length > 1 && (
+                      <select className="input w-auto" aria-label="Numbering series"
+                        value={activeSeries.id} onChange={e => setForm({ ...form, series: e.target.value })}>
+                        {typeSeries.map(x => <option key={x.id} value={x.id}>{x.name}</option>)}
+                      </select>
+                    )}
+                    <input className="input" aria-label={meta.noLabel}
+                      placeholder={`${meta.noLabel}: assigned on issue (next ${previewNext(activeSeries, form.date)})`}
+                      value={form.invoiceNo}
+                      style={duplicateOf ? { borderColor: "#DC2626" } : undefined}
+                      onChange={e => setForm({ ...form, invoiceNo: e.target.value })} />
+                  </div>
+                  {duplicateOf && (
+                    <div className="text-xs mt-1 text-red-600">
+                      Already used by a saved invoice for {duplicateOf.customer || "another customer"} ({duplicateOf.date}).
+                    </div>
+                  )}
+                </div>
+                {(meta.needsRef || form.ref) && (
+                  <div className="sm:col-span-2 grid sm:grid-cols-[auto,1fr,auto] gap-2 items-center">
+                    <select className="input w-auto" aria-label="Reference document type"
+                      value={form.ref?.docType ?? "invoice"} onChange={e => setRef({ docType: e.target.value as DocType })}>
+                      {DOC_TYPES.map(t => <option key={t} value={t}>Against {DOC_META[t].label}</option>)}
+                    </select>
+                    <input className="input" placeholder="Original document number"
+                      style={invalid("ref.no")} title={fieldIssue(issues, "ref.no")?.message}
+                      value={form.ref?.no ?? ""} onChange={e => setRef({ no: e.target.value })} />
+                    <input className="input" type="date" aria-label="Original document date"
+                      value={form.ref?.date ?? ""} onChange={e => setRef({ date: e.target.value })} />
+                  </div>
+                )}
+                <input className="input" type="date" aria-label="Date"
+                  value={form.date} style={invalid("date")} title={fieldIssue(issues, "date")?.message}
+                  onChange={e => setForm({ ...form, date: e.target.value, dueDate: addDays(e.target.value, form.terms) })} />
+                <select className="input" aria-label="Payment terms"
+                  value={PAYMENT_TERMS.some(t => t.days === form.terms) ? form.terms : -1}
+                  onChange={e => {
+                    const terms = +e.target.value;
+                    if (terms >= 0) setForm({ ...form, terms, dueDate: addDays(form.date, terms) });
+                  }}>
+                  {PAYMENT_TERMS.map(t => <option key={t.days} value={t.days}>{t.label}</option>)}
+                  {!PAYMENT_TERMS.some(t => t.days === form.terms) &&
+                    <option value={-1}>Net {form.terms}</option>}
+                </select>
+                <label className="flex items-center gap-2 text-sm">
+                  <span className="whitespace-nowrap opacity-70">{meta.dueLabel}</span>
+                  <input className="input" type="date"
+                    value={form.dueDate} style={invalid("dueDate")} title={fieldIssue(issues, "dueDate")?.message}
+                    onChange={e => setForm({
+                      ...form, dueDate: e.target.value,
+                      terms: Math.max(0, daysBetween(form.date, e.target.value) || 0),
+                    })} />
+                </label>
+                <StateSelect placeholder="Place of Supply: from ship-to / buyer"
                   value={form.place}
-                  onChange={e => setForm({ ...form, place: e.target.value })} />
-                <div className="flex items-center gap-2">
-                  <select
-                    className="input"
-                    value={form.symbol === "₹" ? "INR" : "OTHER"}
-                    onChange={(e) => setForm({ ...form, symbol: e.target.value === "INR" ? "₹" : form.symbol })}
-                  >
-                    <option value="INR">INR – ₹</option>
-                    <option value="OTHER">Custom</option>
-                  </select>
-                  <input className="input" value={form.symbol}
-                    onChange={e => setForm({ ...form, symbol: e.target.value })} />
+                  onChange={code => setForm({ ...form, place: code })} />
+                <select className="input" aria-label="Currency" value={form.currency}
+                  onChange={e => setForm({
+                    ...form, currency: e.target.value, numberSystem: defaultSystem(e.target.value),
+                    exchangeRate: e.target.value === BASE_CURRENCY ? 0 : form.exchangeRate,
+                  })}>
+                  {CURRENCIES.map(c => (
+                    <option key={c.code} value={c.code}>{c.code} – {c.name} ({c.symbol.trim()})</option>
+                  ))}
+                </select>
+                <select className="input" aria-label="Number format" value={form.numberSystem}
+                  onChange={e => setForm({ ...form, numberSystem: e.target.value as NumberSystem })}>
+                  {NUMBER_SYSTEMS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+                {form.currency !== BASE_CURRENCY && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <span className="whitespace-nowrap opacity-70">₹ per {form.currency}</span>
+                    <input className="input text-right" type="number" min={0} step={0.0001}
+                      placeholder="Exchange rate (optional)"
+                      value={form.exchangeRate || ""}
+                      onChange={e => setForm({ ...form, exchangeRate: e.target.value })} />
+                  </label>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-surface rounded-xl p-5 shadow">
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="font-semibold">Seller</h3>
+                <div className="flex gap-2">
+                  <button className="btn-ghost" onClick={applySavedSeller}>Use saved profile</button>
+                  <button className="btn-ghost" onClick={saveSeller}>Save as my profile</button>
                 </div>
               </div>
+              <PartyFields namePlaceholder="Business Name" value={form.seller} onChange={setSeller}
+                nameError={fieldIssue(issues, "seller.name")?.message} />
             </div>
 
             <div className="bg-surface rounded-xl p-5 shadow">
               <div className="mb-3 flex items-center justify-between">
-                <h3 className="font-semibold">Items</h3>
-                <button className="btn-ghost inline-flex items-center gap-2" onClick={addItem}>
-                  <Plus className="h-4 w-4" /> Add row
-                </button>
+                <h3 className="font-semibold">Bill To</h3>
+                <div className="flex gap-2">
+                  <button className="btn-ghost inline-flex items-center gap-2" onClick={() => setShowAddressBook(true)}>
+                    <BookUser className="h-4 w-4" /> Customers
+                  </button>
+                  <button className="btn-ghost" onClick={saveCustomer}>Save customer</button>
+                </div>
+              </div>
+              <PartyFields namePlaceholder="Customer Name" value={form.buyer} onChange={setBuyer}
+                nameError={fieldIssue(issues, "buyer.name")?.message} />
+            </div>
+
+            <div className="bg-surface rounded-xl p-5 shadow">
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="font-semibold">Ship To</h3>
+                <label className="text-sm inline-flex items-center gap-2">
+                  <input type="checkbox" checked={form.shipToSame}
+                    onChange={e => setForm({ ...form, shipToSame: e.target.checked })} />
+                  Same as billing address
+                </label>
+              </div>
+              {!form.shipToSame &&
+                <AddressFields namePlaceholder="Consignee Name" value={form.shipTo} onChange={setShipTo} />}
+            </div>
+
+            <div className="bg-surface rounded-xl p-5 shadow">
+              <div className="mb-3 flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold">Items</h3>
+                  <div className="text-xs opacity-70">
+                    Enter moves down, Tab past the last cell adds a row, Alt+↑/↓ moves a row.
+                    Paste cells from Excel or Sheets into any column.
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button className="btn-ghost inline-flex items-center gap-2" onClick={() => addItem()}>
+                    <Plus className="h-4 w-4" /> Add row
+                  </button>
+                  <button className="btn-ghost inline-flex items-center gap-2" onClick={() => addItem("section")}>
+                    <Heading className="h-4 w-4" /> Section
+                  </button>
+                  <button className="btn-ghost inline-flex items-center gap-2" onClick={() => addItem("subtotal")}>
+                    <Sigma className="h-4 w-4" /> Subtotal
+                  </button>
+                </div>
               </div>
               <div className="overflow-x-auto">
                 <table className="min-w-full text-sm">
                   <thead>
                     <tr className="text-left">
-                      <th className="px-2 py-2 w-10 text-center">#</th>
+                      <th className="px-2 py-2 w-14 text-center">#</th>
                       <th className="px-2 py-2">Description</th>
                       <th className="px-2 py-2 w-24 text-right">Qty</th>
                       <th className="px-2 py-2 w-24 text-center">Unit</th>
                       <th className="px-2 py-2 w-28 text-right">Rate</th>
                       <th className="px-2 py-2 w-28 text-right">Discount</th>
+                      <th className="px-2 py-2 w-24 text-right">GST %</th>
+                      <th className="px-2 py-2 w-20 text-right hidden md:table-cell">Cess %</th>
                       <th className="px-2 py-2 w-24 text-center hidden md:table-cell">HSN</th>
                       <th className="px-2 py-2 w-24 text-center hidden md:table-cell">SKU</th>
                       <th className="px-2 py-2 w-28 text-right">Amount</th>
-                      <th className="px-2 py-2 w-12 text-center">Del</th>
+                      <th className="px-2 py-2 w-24 text-center">Row</th>
                     </tr>
                   </thead>
-                  <tbody className="align-middle">
+                  <tbody className="align-middle" ref={gridRef} onKeyDown={onGridKey}>
                     {form.items.map((it, i) => {
-                      const amount = Math.max(0, (+it.qty || 0) * (+it.rate || 0) - (+it.discount || 0));
+                      const line = totals.lines[i];
+                      const mark = (k: string) => invalid(`items.${i}.${k}`);
+                      const hint = (k: string) => fieldIssue(issues, `items.${i}.${k}`)?.message;
+                      const cell = (col: string) => ({ "data-row": i, "data-col": col });
+                      const paste = (col: PasteColumn) => ({
+                        ...cell(col), onPaste: (e: ClipboardEvent<HTMLInputElement>) => pasteItems(i, col, e),
+                      });
+                      const handle = (
+                        <td className="px-2 py-2 text-center cursor-grab whitespace-nowrap" draggable
+                          title="Drag to reorder"
+                          onDragStart={e => {
+                            e.dataTransfer.effectAllowed = "move";
+                            e.dataTransfer.setData("text/plain", String(i));
+                            const tr = e.currentTarget.closest("tr");
+                            if (tr) e.dataTransfer.setDragImage(tr, 0, 0);
+                            setDragRow(i);
+                          }}
+                          onDragEnd={() => setDragRow(null)}>
+                          <GripVertical className="h-4 w-4 inline opacity-50" /> {sn[i]}
+                        </td>
+                      );
+                      const actions = (
+                        <td className="px-2 py-2 text-center whitespace-nowrap">
+                          <button className="inline-flex items-center justify-center h-9 w-9 rounded-xl border mr-1"
+                            title="Duplicate row" onClick={() => duplicateItem(i)}>
+                            <Copy className="h-4 w-4" />
+                          </button>
+                          <button className="inline-flex items-center justify-center h-9 w-9 rounded-xl border"
+                            title="Delete row" onClick={() => rmItem(i)}>
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </td>
+                      );
+                      const drop = {
+                        onDragOver: (e: DragEvent) => { if (dragRow !== null) e.preventDefault(); },
+                        onDrop: (e: DragEvent) => {
+                          e.preventDefault();
+                          if (dragRow !== null) moveItem(dragRow, i);
+                          setDragRow(null);
+                        },
+                      };
+                      const rowClass = `border-t ${dragRow === i ? "opacity-50" : ""}`;
+                      if (it.kind !== "item") {
+                        return (
+                          <tr key={it.id} className={`${rowClass} font-semibold`} {...drop}>
+                            {handle}
+                            <td className="px-2 py-2" colSpan={6}>
+                              <input className="input font-semibold" {...cell("description")}
+                                placeholder={it.kind === "section" ? "Section heading" : "Subtotal"}
+                                value={it.description} style={mark("description")} title={hint("description")}
+                                onChange={e => setItem(i, { description: e.target.value })} />
+                            </td>
+                            <td className="hidden md:table-cell" colSpan={3} />
+                            <td className="px-2 py-2 text-right">
+                              {it.kind === "subtotal" && formatMoney(line.sum ?? 0)}
+                            </td>
+                            {actions}
+                          </tr>
+                        );
+                      }
                       return (
-                        <tr key={i} className="border-t">
-                          <td className="px-2 py-2 text-center">{i + 1}</td>
+                        <tr key={it.id} className={rowClass} {...drop}>
+                          {handle}
                           <td className="px-2 py-2">
-                            <input className="input" placeholder="Description"
-                              value={it.description}
-                              onChange={e => setItem(i, { description: e.target.value })} />
+                            <input className="input" placeholder="Description" {...paste("description")}
+                              value={it.description} style={mark("description")} title={hint("description")}
+                              list="catalog-descriptions"
+                              onChange={e => onDescription(i, e.target.value)} />
                           </td>
                           <td className="px-2 py-2">
-                            <input className="input text-right" type="number" step={0.001}
-                              value={it.qty}
+                            <input className="input text-right" type="number" step={0.001} {...paste("qty")}
+                              value={it.qty} style={mark("qty")} title={hint("qty")}
                               onChange={e => setItem(i, { qty: e.target.value })} />
                           </td>
                           <td className="px-2 py-2">
-                            <select className="input" value={it.unit}
+                            <select className="input" value={it.unit} {...cell("unit")}
                               onChange={e => setItem(i, { unit: e.target.value })}>
-                              {["Pcs.", "Kg", "Ltr", "Mtr", "Set", "Box", "Nos"].map(u =>
+                              {(units.includes(it.unit) || !it.unit ? units : [...units, it.unit]).map(u =>
                                 <option key={u} value={u}>{u}</option>
                               )}
                             </select>
                           </td>
                           <td className="px-2 py-2">
-                            <input className="input text-right" type="number" step={0.01}
-                              value={it.rate}
+                            <input className="input text-right" type="number" step={0.01} {...paste("rate")}
+                              value={it.rate} style={mark("rate")} title={hint("rate")}
                               onChange={e => setItem(i, { rate: e.target.value })} />
                           </td>
                           <td className="px-2 py-2">
-                            <input className="input text-right" type="number" step={0.01}
-                              value={it.discount}
-                              onChange={e => setItem(i, { discount: e.target.value })} />
+                            <div className="flex gap-1">
+                              <input className="input text-right" type="number" step={0.01} {...paste("discount")}
+                                value={it.discount}
+                                aria-invalid={line.negative || !!hint("discount")}
+                                style={line.negative ? { borderColor: "#DC2626" } : mark("discount")}
+                                title={hint("discount")}
+                                onChange={e => setItem(i, { discount: e.target.value })} />
+                              <select className="input w-14 px-1" aria-label="Discount type" value={it.discountMode}
+                                {...cell("discountMode")}
+                                onChange={e => setItem(i, { discountMode: e.target.value as DiscountMode })}>
+                                <option value="amount">{cur.symbol.trim()}</option>
+                                <option value="percent">%</option>
+                              </select>
+                            </div>
+                          </td>
+                          <td className="px-2 py-2">
+                            <select className="input text-right" value={+it.gstRate || 0} {...cell("gstRate")}
+                              onChange={e => setItem(i, { gstRate: +e.target.value })}>
+                              {GST_RATES.map(r => <option key={r} value={r}>{r}%</option>)}
+                            </select>
+                          </td>
+                          <td className="px-2 py-2 hidden md:table-cell">
+                            <input className="input text-right" type="number" step={0.01} {...cell("cess")}
+                              value={it.cess} style={mark("cess")} title={hint("cess")}
+                              onChange={e => setItem(i, { cess: e.target.value })} />
                           </td>
                           <td className="px-2 py-2 hidden md:table-cell">
-                            <input className="input text-center" value={it.hsn}
+                            <input className="input text-center" value={it.hsn} {...paste("hsn")}
+                              style={mark("hsn")} title={hint("hsn")}
                               onChange={e => setItem(i, { hsn: e.target.value })} />
                           </td>
                           <td className="px-2 py-2 hidden md:table-cell">
-                            <input className="input text-center" value={it.sku}
-                              onChange={e => setItem(i, { sku: e.target.value })} />
+                            <input className="input text-center" value={it.sku} {...paste("sku")}
+                              list="catalog-skus"
+                              onChange={e => onSku(i, e.target.value)} />
                           </td>
                           <td className="px-2 py-2">
-                            <input className="input text-right bg-surface" readOnly
-                              value={formatMoney(amount)} />
-                          </td>
-                          <td className="px-2 py-2 text-center">
-                            <button className="inline-flex items-center justify-center h-9 w-9 rounded-xl border"
-                              onClick={() => rmItem(i)}>
-                              <Trash2 className="h-4 w-4" />
-                            </button>
+                            <input className="input text-right bg-surface" readOnly tabIndex={-1}
+                              title={form.priceMode === "inclusive" ? "Taxable value (GST removed)" : undefined}
+                              value={formatMoney(line.net)} />
                           </td>
+                          {actions}
                         </tr>
                       );
                     })}
                   </tbody>
                 </table>
+                <datalist id="catalog-descriptions">
+                  {products.filter(p => p.description).map(p =>
+                    <option key={p.id} value={p.description}>{p.sku}</option>)}
+                </datalist>
+                <datalist id="catalog-skus">
+                  {products.filter(p => p.sku).map(p =>
+                    <option key={p.id} value={p.sku}>{p.description}</option>)}
+                </datalist>
               </div>
 
-              <div className="mt-4 grid sm:grid-cols-[1fr,200px] gap-3">
-                <div />
+              <div className="mt-4 grid sm:grid-cols-[1fr,auto,220px] gap-3 items-end">
+                <label className="text-sm inline-flex items-center gap-2">
+                  <input type="checkbox" checked={form.priceMode === "inclusive"}
+                    onChange={e => setForm({ ...form, priceMode: e.target.checked ? "inclusive" : "exclusive" })} />
+                  Rates include GST
+                </label>
+                <label className="block text-sm">Rounding
+                  <select className="input" value={form.rounding}
+                    onChange={e => setForm({ ...form, rounding: e.target.value as RoundingPolicy })}>
+                    {ROUNDING_POLICIES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                  </select>
+                </label>
                 <div>
                   <label className="block text-sm mb-1">Overall Discount</label>
-                  <input className="input text-right" type="number" step={0.01}
-                    value={form.overallDiscount}
-                    onChange={e => setForm({ ...form, overallDiscount: e.target.value })} />
+                  <div className="flex gap-1">
+                    <input className="input text-right" type="number" step={0.01}
+                      value={form.overallDiscount}
+                      onChange={e => setForm({ ...form, overallDiscount: e.target.value })} />
+                    <select className="input w-14 px-1" aria-label="Overall discount type"
+                      value={form.overallDiscountMode}
+                      onChange={e => setForm({ ...form, overallDiscountMode: e.target.value as DiscountMode })}>
+                      <option value="amount">{cur.symbol.trim()}</option>
+                      <option value="percent">%</option>
+                    </select>
+                  </div>
                 </div>
               </div>
+              {totals.warnings.length > 0 && (
+                <ul className="mt-3 text-xs text-red-600 list-disc pl-5">
+                  {totals.warnings.map(w => <li key={w}>{w}</li>)}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-surface rounded-xl p-5 shadow">
+              <div className="mb-3 flex items-center justify-between">
+                <h3 className="font-semibold">Payment</h3>
+                <label className="text-sm inline-flex items-center gap-2">
+                  <input type="checkbox" checked={payment.showQr}
+                    onChange={e => setPayment({ ...payment, showQr: e.target.checked })} />
+                  UPI QR on invoice
+                </label>
+              </div>
+              <div className="grid sm:grid-cols-2 gap-3">
+                <input className="input" placeholder="UPI ID (VPA), e.g. shop@okhdfcbank"
+                  value={payment.vpa}
+                  aria-invalid={!!payment.vpa && !isValidVpa(payment.vpa)}
+                  style={payment.vpa && !isValidVpa(payment.vpa) ? { borderColor: "#DC2626" } : undefined}
+                  onChange={e => setPayment({ ...payment, vpa: e.target.value })} />
+                <input className="input" placeholder="Payee Name"
+                  value={payment.payeeName}
+                  onChange={e => setPayment({ ...payment, payeeName: e.target.value })} />
+                <input className="input" placeholder="Bank Name (optional)"
+                  value={payment.bankName}
+                  onChange={e => setPayment({ ...payment, bankName: e.target.value })} />
+                <input className="input" placeholder="Account No (optional)"
+                  value={payment.accountNo}
+                  onChange={e => setPayment({ ...payment, accountNo: e.target.value })} />
+                <input className="input" placeholder="IFSC (optional)"
+                  value={payment.ifsc}
+                  aria-invalid={!!payment.ifsc && !isValidIfsc(payment.ifsc)}
+                  style={payment.ifsc && !isValidIfsc(payment.ifsc) ? { borderColor: "#DC2626" } : undefined}
+                  onChange={e => setPayment({ ...payment, ifsc: e.target.value.toUpperCase() })} />
+              </div>
             </div>
+
+            <BrandCard value={brands} onChange={setBrands} printLight={layout.printLight} />
+
+            <PdfLayoutCard value={layout} onChange={setLayout}
+              notes={form.notes} onNotes={notes => setForm({ ...form, notes })} />
           </section>
 
           {/* right: preview + totals */}
           <section className="space-y-4">
             <div className="bg-surface rounded-xl p-5 shadow">
               <h3 className="font-semibold mb-3">Preview</h3>
-              <div ref={previewRef} className="rounded-xl border border-accent p-4 bg-surface">
+              <div ref={previewRef} className="print-area rounded-xl border border-accent p-4 bg-surface">
                 <div className="flex items-start justify-between">
-                  <div>
-                    <div className="text-xl font-bold">{form.businessName || "Business"}</div>
-                    <div className="text-sm opacity-70">Bill To: {form.customerName || "—"}</div>
+                  <div className="flex items-start gap-3">
+                    {brand.logo && <img src={brand.logo} alt="Logo" className="max-h-14 max-w-28 object-contain" />}
+                    <div>
+                      <div className="text-xl font-bold">{form.seller.name || "Business"}</div>
+                      {partyLines(form.seller).map((l, i) => <div key={i} className="text-xs opacity-70">{l}</div>)}
+                    </div>
                   </div>
                   <div className="text-right">
-                    <div className="text-accent font-bold">INVOICE</div>
-                    <div className="text-sm">No: {form.invoiceNo}</div>
+                    <div className="text-accent font-bold">{meta.title}</div>
+                    <div className="text-sm">{meta.noLabel}: {displayNo}</div>
                     <div className="text-sm">Date: {form.date}</div>
-                    {form.place && <div className="text-sm">Place: {form.place}</div>}
+                    {form.dueDate && <div className="text-sm">{meta.dueLabel}: {form.dueDate}</div>}
+                    {refLine(form.ref) && <div className="text-sm">{refLine(form.ref)}</div>}
+                    {placeOfSupply(form) &&
+                      <div className="text-sm">Place of Supply: {stateLabel(placeOfSupply(form))}</div>}
+                  </div>
+                </div>
+
+                {hasIrn(form.irn) && (
+                  <div className="mt-3 flex items-start justify-between gap-3 text-xs">
+                    <div className="min-w-0">
+                      <div className="font-semibold text-accent">e-Invoice</div>
+                      <div className="break-all">IRN: {form.irn.irn}</div>
+                      {form.irn.ackNo && <div>Ack No: {form.irn.ackNo}</div>}
+                      {form.irn.ackDate && <div>Ack Date: {form.irn.ackDate}</div>}
+                    </div>
+                    {form.irn.signedQr && <QrCode value={form.irn.signedQr} size={96} label="e-invoice QR code" />}
+                  </div>
+                )}
+
+                <div className="mt-3 grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <div className="text-xs font-semibold text-accent">Bill To</div>
+                    <div className="font-medium">{form.buyer.name || "—"}</div>
+                    {partyLines(form.buyer).map((l, i) => <div key={i} className="text-xs opacity-70">{l}</div>)}
                   </div>
+                  {!form.shipToSame && (
+                    <div>
+                      <div className="text-xs font-semibold text-accent">Ship To</div>
+                      <div className="font-medium">{form.shipTo.name || "—"}</div>
+                      {addressLines(form.shipTo).map((l, i) => <div key={i} className="text-xs opacity-70">{l}</div>)}
+                    </div>
+                  )}
                 </div>
 
                 <div className="mt-3 overflow-x-auto">
@@ -473,77 +1190,245 @@ export default function InvoiceApp() {
                         <th className="py-1 pr-2">Description</th>
                         <th className="py-1 pr-2 w-16 text-right">Qty</th>
                         <th className="py-1 pr-2 w-16 text-center">Unit</th>
-                        <th className="py-1 pr-2 w-24 text-right">Rate ({form.symbol})</th>
-                        <th className="py-1 pr-2 w-24 text-right">Disc ({form.symbol})</th>
-                        <th className="py-1 pr-0 w-28 text-right">Amount ({form.symbol})</th>
+                        <th className="py-1 pr-2 w-24 text-right">
+                          Rate ({cur.symbol.trim()}){form.priceMode === "inclusive" && " incl. GST"}
+                        </th>
+                        <th className="py-1 pr-2 w-24 text-right">Disc</th>
+                        <th className="py-1 pr-2 w-12 text-right">GST %</th>
+                        <th className="py-1 pr-0 w-28 text-right">Amount ({cur.symbol.trim()})</th>
                       </tr>
                     </thead>
                     <tbody>
                       {form.items.map((it, i) => {
-                        const a = Math.max(0, (+it.qty || 0) * (+it.rate || 0) - (+it.discount || 0));
+                        if (it.kind === "section") {
+                          return (
+                            <tr className="border-t" key={it.id}>
+                              <td className="py-1 pr-2 font-semibold" colSpan={8}>{it.description}</td>
+                            </tr>
+                          );
+                        }
+                        if (it.kind === "subtotal") {
+                          return (
+                            <tr className="border-t font-semibold" key={it.id}>
+                              <td className="py-1 pr-2 text-right" colSpan={7}>{it.description || "Subtotal"}</td>
+                              <td className="py-1 pr-0 text-right">{num(totals.lines[i].sum ?? 0)}</td>
+                            </tr>
+                          );
+                        }
                         return (
-                          <tr className="border-t" key={i}>
-                            <td className="py-1 pr-2 text-center">{i + 1}</td>
+                          <tr className="border-t" key={it.id}>
+                            <td className="py-1 pr-2 text-center">{sn[i]}</td>
                             <td className="py-1 pr-2">{it.description}</td>
                             <td className="py-1 pr-2 text-right">{String(it.qty || 0)}</td>
                             <td className="py-1 pr-2 text-center">{it.unit}</td>
-                            <td className="py-1 pr-2 text-right">{nf2.format(+it.rate || 0)}</td>
-                            <td className="py-1 pr-2 text-right">{nf2.format(+it.discount || 0)}</td>
-                            <td className="py-1 pr-0 text-right">{nf2.format(a)}</td>
+                            <td className="py-1 pr-2 text-right">{num(+it.rate || 0)}</td>
+                            <td className="py-1 pr-2 text-right">
+                              {it.discountMode === "percent" ? `${+it.discount || 0}%` : num(+it.discount || 0)}
+                            </td>
+                            <td className="py-1 pr-2 text-right">{+it.gstRate || 0}</td>
+                            <td className="py-1 pr-0 text-right">{num(totals.lines[i].net)}</td>
                           </tr>
                         );
                       })}
                     </tbody>
                   </table>
                 </div>
+
+                {totals.tax.hsn.length > 0 && (
+                  <div className="mt-3 overflow-x-auto">
+                    <div className="text-xs font-semibold opacity-70 mb-1">HSN-wise Tax Summary</div>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-right">
+                          <th className="py-1 pr-2 text-left">HSN/SAC</th>
+                          <th className="py-1 pr-2">Taxable</th>
+                          <th className="py-1 pr-2">GST %</th>
+                          {totals.tax.supply === "intra" ? (
+                            <><th className="py-1 pr-2">CGST</th><th className="py-1 pr-2">SGST</th></>
+                          ) : <th className="py-1 pr-2">IGST</th>}
+                          <th className="py-1 pr-2">Cess</th>
+                          <th className="py-1 pr-0">Total Tax</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {totals.tax.hsn.map(h => (
+                          <tr className="border-t text-right" key={`${h.hsn}|${h.rate}`}>
+                            <td className="py-1 pr-2 text-left">{h.hsn || "—"}</td>
+                            <td className="py-1 pr-2">{num(h.taxable)}</td>
+                            <td className="py-1 pr-2">{h.rate}</td>
+                            {totals.tax.supply === "intra" ? (
+                              <><td className="py-1 pr-2">{num(h.cgst)}</td><td className="py-1 pr-2">{num(h.sgst)}</td></>
+                            ) : <td className="py-1 pr-2">{num(h.igst)}</td>}
+                            <td className="py-1 pr-2">{num(h.cess)}</td>
+                            <td className="py-1 pr-0">{num(h.cgst + h.sgst + h.igst + h.cess)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="mt-3 pt-3 border-t text-xs">
+                  <div><span className="font-semibold">Amount in words:</span> {inWords}</div>
+                  {inrLine && <div className="opacity-70">{inrLine}</div>}
+                </div>
+
+                {(upi || bankDetails) && (
+                  <div className="mt-3 pt-3 border-t flex items-center gap-3">
+                    {upi && <QrCode value={upi} size={96} />}
+                    <div className="text-xs space-y-0.5">
+                      {upi && <>
+                        <div className="font-semibold">Scan to pay {formatMoney(totals.grand)} via UPI</div>
+                        <div className="opacity-70">{payment.vpa.trim()}</div>
+                      </>}
+                      {bankDetails && <div className="opacity-70">{bankDetails}</div>}
+                    </div>
+                  </div>
+                )}
+
+                {(form.notes.trim() || layout.terms.trim()) && (
+                  <div className="mt-3 pt-3 border-t text-xs space-y-2">
+                    {form.notes.trim() && <div>
+                      <div className="font-semibold text-accent">Notes</div>
+                      <div className="whitespace-pre-line">{form.notes.trim()}</div>
+                    </div>}
+                    {layout.terms.trim() && <div>
+                      <div className="font-semibold text-accent">Terms &amp; Conditions</div>
+                      <div className="whitespace-pre-line opacity-70">{layout.terms.trim()}</div>
+                    </div>}
+                  </div>
+                )}
+
+                <div className="mt-3 flex flex-col items-end text-xs">
+                  <div className="font-semibold">For {form.seller.name}</div>
+                  {layout.signature
+                    ? <img src={layout.signature} alt="Signature" className="h-12 object-contain my-1" />
+                    : <div className="h-12" />}
+                  <div>{layout.signatory || "Authorised Signatory"}</div>
+                </div>
+                {brand.footer.trim() && (
+                  <div className="mt-3 pt-2 border-t text-center text-xs opacity-70">{brand.footer.trim()}</div>
+                )}
               </div>
             </div>
 
             <div className="bg-surface rounded-xl p-5 shadow space-y-2">
               <div className="flex justify-between"><span>Subtotal</span><span>{formatMoney(totals.subtotal)}</span></div>
-              <div className="flex justify-between"><span>Overall Discount</span><span>{formatMoney(+form.overallDiscount || 0)}</span></div>
+              <div className="flex justify-between"><span>Overall Discount</span><span>{formatMoney(totals.discount)}</span></div>
+              <div className="flex justify-between"><span>Taxable Value</span><span>{formatMoney(totals.tax.taxable)}</span></div>
+              {totals.tax.supply === "intra" ? (<>
+                <div className="flex justify-between"><span>CGST</span><span>{formatMoney(totals.tax.cgst)}</span></div>
+                <div className="flex justify-between"><span>SGST</span><span>{formatMoney(totals.tax.sgst)}</span></div>
+              </>) : (
+                <div className="flex justify-between"><span>IGST</span><span>{formatMoney(totals.tax.igst)}</span></div>
+              )}
+              {totals.tax.cess > 0 &&
+                <div className="flex justify-between"><span>Cess</span><span>{formatMoney(totals.tax.cess)}</span></div>}
               <div className="flex justify-between"><span>Round Off</span><span>{formatMoney(totals.roundoff)}</span></div>
               <div className="border-t pt-2 mt-1 flex justify-between text-lg font-bold">
-                <span>Grand Total</span><span className="text-accent">{formatMoney(totals.grand)}</span>
+                <span>{meta.totalLabel}</span>
+                <span className="text-accent">{meta.sign < 0 && "−"}{formatMoney(totals.grand)}</span>
               </div>
 
-              <div className="mt-3 flex gap-2">
+              <div className="mt-3 flex flex-wrap gap-2">
                 <button className="btn-primary inline-flex items-center gap-2" onClick={downloadPDF}>
                   <FileDown className="h-4 w-4" /> PDF
                 </button>
                 <button className="btn-ghost inline-flex items-center gap-2" onClick={downloadPNG}>
                   <ImageDown className="h-4 w-4" /> Image
                 </button>
+                <button className="btn-ghost inline-flex items-center gap-2" onClick={openShare}>
+                  <Send className="h-4 w-4" /> Send
+                </button>
+                <button className="btn-ghost inline-flex items-center gap-2" onClick={printInvoice}>
+                  <Printer className="h-4 w-4" /> Print
+                </button>
+                <select className="input" aria-label="PDF font" value={form.pdfFont}
+                  onChange={e => setForm({ ...form, pdfFont: e.target.value as PdfFont })}>
+                  {PDF_FONTS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                </select>
               </div>
+              {issues.length > 0 && (
+                <ul className="mt-3 text-xs space-y-0.5">
+                  {issues.map((x, i) => (
+                    <li key={i} className={x.level === "error" ? "text-red-600" : "text-amber-600"}>{x.message}</li>
+                  ))}
+                  {issueErrors > 0 && <li className="opacity-70">Fix the errors above before issuing or exporting.</li>}
+                </ul>
+              )}
             </div>
           </section>
         </div>
 
-        {/* History modal */}
+        {showCatalog && (
+          <ProductCatalog products={products} units={units} onProducts={setProducts} onUnits={setUnits}
+            onClose={() => setShowCatalog(false)} />
+        )}
+
+        {showAddressBook && (
+          <AddressBook customers={customers} onPick={pickCustomer} onDelete={deleteCustomer}
+            onClose={() => setShowAddressBook(false)} />
+        )}
+
         {showHistory && (
-          <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
-            <div className="bg-surface rounded-xl p-5 w-[min(680px,92vw)] shadow-xl">
-              <div className="flex items-center justify-between mb-3">
-                <h3 className="font-semibold">Saved Invoices</h3>
-                <button className="btn-ghost" onClick={() => setShowHistory(false)}>Close</button>
-              </div>
-              {savedKeys().length === 0 ? (
-                <div className="text-sm opacity-70">No saved invoices yet.</div>
-              ) : (
-                <ul className="divide-y">
-                  {savedKeys().map(k => (
-                    <li key={k} className="py-2 flex items-center justify-between">
-                      <div className="font-mono text-sm">{k.replace(SAVE_PREFIX, "")}</div>
-                      <div className="flex gap-2">
-                        <button className="btn-ghost" onClick={() => loadNamed(k)}>Load</button>
-                        <button className="btn-ghost" onClick={() => deleteNamed(k)}>Delete</button>
-                      </div>
-                    </li>
-                  ))}
-                </ul>
-              )}
-            </div>
-          </div>
+          <HistoryModal records={records} currentId={recordId}
+            formatMoney={(n, f) => moneyFmt(f)(n)}
+            onLoad={loadRecord} onPayments={setPaymentsFor} onVersions={openRevisions} onDelete={deleteRecord}
+            onImport={() => setShowImport(true)} onZip={downloadPdfZip}
+            onClose={() => setShowHistory(false)} />
+        )}
+
+        {revisionsFor && (
+          <RevisionsModal key={revisionsFor.id} record={revisionsFor}
+            current={revisionsFor.id === recordId ? form : revisionsFor.form}
+            currentLabel={revisionsFor.id === recordId ? "Editor" : "Latest save"}
+            formatMoney={(n, f) => moneyFmt(f)(n)}
+            onRestore={restoreRevision} onClose={() => setRevisionsFor(null)} />
+        )}
+
+        {showImport && (
+          <ImportModal existing={records} onImport={importRecords} onClose={() => setShowImport(false)} />
+        )}
+
+        {paymentsFor && (
+          <PaymentsModal key={paymentsFor.id} record={paymentsFor} formatMoney={moneyFmt(paymentsFor.form)}
+            onSave={saveRecord} onClose={() => setPaymentsFor(null)} />
+        )}
+
+        {showNumbering && (
+          <NumberingModal series={series}
+            onChange={setSeries} onClose={() => setShowNumbering(false)} />
+        )}
+
+        {showRecurring && (
+          <RecurringModal templates={templates} form={form} onChange={setTemplates}
+            onRunNow={runRecurringNow} onClose={() => setShowRecurring(false)} />
+        )}
+
+        {showBulk && (
+          <BulkModal customers={customers} formatMoney={(n, f) => moneyFmt(f)(n)}
+            onCreate={createBulk} onZip={downloadPdfZip} onClose={() => setShowBulk(false)} />
+        )}
+
+        {showBackup && <BackupModal onClose={() => setShowBackup(false)} />}
+
+        {showShare && (
+          <ShareModal form={form} amount={formatMoney(totals.grand)} upi={upi} pdfName={pdfName}
+            makePdf={makePdf} onClose={() => setShowShare(false)} />
+        )}
+
+        {showGst && (
+          <EInvoiceModal form={form} records={records}
+            onIrn={irn => setForm(f => ({ ...f, irn }))} onClose={() => setShowGst(false)} />
+        )}
+
+        {showDashboard && (
+          <Dashboard records={records} formatMoney={moneyFmt({ currency: BASE_CURRENCY, numberSystem: "indian" })} onClose={() => setShowDashboard(false)} />
+        )}
+
+        {showReports && (
+          <ReportsModal records={records} business={form.seller.name.trim()}
+            accent={parseColor(brand.accent) ?? DEFAULT_ACCENT} onClose={() => setShowReports(false)} />
         )}
       </div>
     </div>
@@ -0,0 +1,97 @@
+import { Plus, Trash2 } from "lucide-react";
+import { DOC_META, DOC_TYPES, type DocType } from "./documents";
+import {
+  financialYear, newSeriesId, nextSeq, patternError, previewNext, type NumberSeries,
+} from "./numbering";
+import { todayIso } from "./ledger";
+
+export default function NumberingModal({ series, onChange, onClose }: {
+  series: NumberSeries[];
+  onChange: (list: NumberSeries[]) => void;
+  onClose: () => void;
+}) {
+  const today = todayIso();
+  const fy = financialYear(today).label;
+
+  const patch = (id: string, p: Partial<NumberSeries>) =>
+    onChange(series.map(s => (s.id === id ? { ...s, ...p } : s)));
+
+  // setting "next" rewrites the current year's counter (e.g. when moving from another tool mid-year)
+  const setNext = (s: NumberSeries, next: number) => {
+    if (!(next >= 1)) return;
+    if (next < nextSeq(s, today) &&
+      !confirm("Lowering the next number can produce duplicates of issued invoices. Continue?")) return;
+    patch(s.id, { counters: { ...s.counters, [fy]: next - 1 } });
+  };
+  const add = () => onChange([...series, {
+    id: newSeriesId(), name: "New series", docType: "invoice",
+    prefix: "INV", pattern: "{PREFIX}/{FY}/{SEQ:4}", counters: {},
+  }]);
+  const remove = (s: NumberSeries) => {
+    if (series.filter(x => x.docType === s.docType).length === 1) {
+      alert(`${DOC_META[s.docType].label} needs at least one numbering series.`); return;
+    }
+    if (!confirm(`Delete series "${s.name}"?`)) return;
+    onChange(series.filter(x => x.id !== s.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(980px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Numbering Series</h3>
+            <div className="text-xs opacity-70">
+              Tokens: {"{PREFIX} {FY} {FYL} {YYYY} {YY} {MM} {SEQ:n}"} • sequences restart on 1 April • current FY {fy}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={add}>
+              <Plus className="h-4 w-4" /> Add series
+            </button>
+            <button className="btn-ghost" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        {series.map(s => {
+          const err = patternError(s.pattern);
+          return (
+            <div key={s.id} className="card grid sm:grid-cols-6 gap-3 items-end">
+              <label className="text-sm sm:col-span-2">Name
+                <input className="input" value={s.name} onChange={e => patch(s.id, { name: e.target.value })} />
+              </label>
+              <label className="text-sm sm:col-span-2">Document type
+                <select className="input" value={s.docType} onChange={e => patch(s.id, { docType: e.target.value as DocType })}>
+                  {DOC_TYPES.map(d => <option key={d} value={d}>{DOC_META[d].label}</option>)}
+                </select>
+              </label>
+              <label className="text-sm">Prefix
+                <input className="input" value={s.prefix} onChange={e => patch(s.id, { prefix: e.target.value })} />
+              </label>
+              <label className="text-sm">Next no.
+                <input className="input text-right" type="number" min={1} value={nextSeq(s, today)}
+                  onChange={e => setNext(s, +e.target.value)} />
+              </label>
+              <label className="text-sm sm:col-span-3">Pattern
+                <input className="input font-mono" value={s.pattern} style={err ? { borderColor: "#DC2626" } : undefined}
+                  onChange={e => patch(s.id, { pattern: e.target.value })} />
+              </label>
+              <div className="text-sm sm:col-span-2">
+                <div className="opacity-70">Next number</div>
+                {err
+                  ? <div className="text-red-600 text-xs">{err}</div>
+                  : <div className="font-mono">{previewNext(s, today)}</div>}
+              </div>
+              <div className="text-right">
+                <button className="inline-flex items-center justify-center h-9 w-9 rounded-xl border"
+                  aria-label={`Delete ${s.name}`} onClick={() => remove(s)}>
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { resolveState } from "./gst";
+import { gstinError, isValidPan, type Address, type Party } from "./parties";
+import StateSelect from "./StateSelect";
+
+const invalid = { borderColor: "#DC2626" };
+
+/* address-only block (ship-to) */
+export function AddressFields({ value, onChange, namePlaceholder = "Name", nameError }: {
+  value: Address; onChange: (patch: Partial<Address>) => void; namePlaceholder?: string; nameError?: string;
+}) {
+  return (
+    <div className="grid sm:grid-cols-2 gap-3">
+      <div className="sm:col-span-2">
+        <input className="input" placeholder={namePlaceholder}
+          value={value.name} style={nameError ? invalid : undefined} aria-invalid={!!nameError}
+          onChange={e => onChange({ name: e.target.value })} />
+        {nameError && <div className="text-xs mt-1 text-red-600">{nameError}</div>}
+      </div>
+      <input className="input" placeholder="Address line 1"
+        value={value.line1} onChange={e => onChange({ line1: e.target.value })} />
+      <input className="input" placeholder="Address line 2"
+        value={value.line2} onChange={e => onChange({ line2: e.target.value })} />
+      <input className="input" placeholder="City"
+        value={value.city} onChange={e => onChange({ city: e.target.value })} />
+      <input className="input" placeholder="PIN code" inputMode="numeric"
+        value={value.pincode} onChange={e => onChange({ pincode: e.target.value })} />
+      <StateSelect placeholder="State" value={value.state}
+        onChange={state => onChange({ state })} />
+    </div>
+  );
+}
+
+/* full party block (seller / bill-to) with GSTIN checksum hint */
+export default function PartyFields({ value, onChange, namePlaceholder, nameError }: {
+  value: Party; onChange: (patch: Partial<Party>) => void; namePlaceholder?: string; nameError?: string;
+}) {
+  const gErr = gstinError(value.gstin);
+  const panBad = !!value.pan && !isValidPan(value.pan);
+
+  // a valid GSTIN also tells us the state and the PAN
+  const setGstin = (raw: string) => {
+    const gstin = raw.toUpperCase().trim();
+    const patch: Partial<Party> = { gstin };
+    if (!gstinError(gstin) && gstin) {
+      const st = resolveState(gstin.slice(0, 2));
+      if (st) patch.state = st.code;
+      if (!value.pan) patch.pan = gstin.slice(2, 12);
+    }
+    onChange(patch);
+  };
+
+  return (
+    <div className="space-y-3">
+      <AddressFields value={value} onChange={onChange} namePlaceholder={namePlaceholder} nameError={nameError} />
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div>
+          <input className="input font-mono" placeholder="GSTIN" maxLength={15}
+            value={value.gstin} style={gErr ? invalid : undefined} aria-invalid={!!gErr}
+            onChange={e => setGstin(e.target.value)} />
+          {gErr && <div className="text-xs mt-1 text-red-600">{gErr}</div>}
+        </div>
+        <input className="input font-mono" placeholder="PAN" maxLength={10}
+          value={value.pan} style={panBad ? invalid : undefined} aria-invalid={panBad}
+          onChange={e => onChange({ pan: e.target.value.toUpperCase().trim() })} />
+        <input className="input" placeholder="Phone" type="tel"
+          value={value.phone} onChange={e => onChange({ phone: e.target.value })} />
+        <input className="input" placeholder="Email" type="email"
+          value={value.email} onChange={e => onChange({ email: e.target.value })} />
+      </div>
+    </div>
+  );
+}
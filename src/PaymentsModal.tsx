@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import type { InvoiceRecord, InvoiceStatus } from "./invoiceDb";
+import {
+  PAYMENT_MODES, balanceDue, newPaymentId, paidAmount, statusOf, todayIso,
+  type PaymentEntry,
+} from "./ledger";
+import StatusBadge from "./StatusBadge";
+import { DOC_META, isReceivable } from "./documents";
+
+export default function PaymentsModal({ record, formatMoney, onSave, onClose }: {
+  record: InvoiceRecord;
+  formatMoney: (n: number) => string;
+  onSave: (rec: InvoiceRecord) => void;
+  onClose: () => void;
+}) {
+  const balance = balanceDue(record);
+  const receivable = isReceivable(record.form.docType);
+  const [entry, setEntry] = useState<PaymentEntry>(() => ({
+    id: "", date: todayIso(), amount: balance, mode: "UPI", reference: "",
+  }));
+
+  const setStatus = (status: InvoiceStatus) => {
+    if (status === "cancelled" && !confirm(`Cancel ${record.invoiceNo || "this document"}?`)) return;
+    onSave({ ...record, status });
+  };
+  const addPayment = () => {
+    if (!(entry.amount > 0)) { alert("Enter an amount greater than zero."); return; }
+    if (entry.amount > balance + 0.005 &&
+      !confirm(`This is more than the balance of ${formatMoney(balance)}. Record it anyway?`)) return;
+    const payments = [...record.payments, { ...entry, id: newPaymentId() }]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    onSave({ ...record, status: record.status === "draft" ? "issued" : record.status, payments });
+    setEntry({ ...entry, amount: 0, reference: "" });
+  };
+  const removePayment = (id: string) => {
+    if (!confirm("Delete this payment?")) return;
+    onSave({ ...record, payments: record.payments.filter(p => p.id !== id) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(760px,94vw)] shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">
+              {receivable ? "Payments" : "Status"} • {DOC_META[record.form.docType].label} {record.invoiceNo}
+            </h3>
+            <div className="text-sm opacity-70">{record.customer || "—"} • Due {record.form.dueDate || "—"}</div>
+          </div>
+          <button className="btn-ghost" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div><div className="opacity-70">Total</div><div className="font-semibold">{formatMoney(record.grand)}</div></div>
+          <div><div className="opacity-70">Paid</div><div className="font-semibold">{formatMoney(paidAmount(record))}</div></div>
+          <div><div className="opacity-70">Balance</div><div className="font-semibold text-accent">{formatMoney(balance)}</div></div>
+          <div><div className="opacity-70">Status</div><StatusBadge status={statusOf(record)} /></div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {record.status !== "issued" && (
+            <button className="btn-ghost" onClick={() => setStatus("issued")}>
+              {record.status === "cancelled" ? "Reinstate" : "Mark issued"}
+            </button>
+          )}
+          {record.status === "issued" && record.payments.length === 0 && (
+            <button className="btn-ghost" onClick={() => setStatus("draft")}>Back to draft</button>
+          )}
+          {record.status !== "cancelled" && (
+            <button className="btn-ghost" onClick={() => setStatus("cancelled")}>Cancel document</button>
+          )}
+        </div>
+
+        {receivable && record.payments.length > 0 && (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="px-2 py-1">Date</th>
+                <th className="px-2 py-1">Mode</th>
+                <th className="px-2 py-1">Reference</th>
+                <th className="px-2 py-1 text-right">Amount</th>
+                <th className="px-2 py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {record.payments.map(p => (
+                <tr key={p.id} className="border-t">
+                  <td className="px-2 py-1">{p.date}</td>
+                  <td className="px-2 py-1">{p.mode}</td>
+                  <td className="px-2 py-1">{p.reference || "—"}</td>
+                  <td className="px-2 py-1 text-right">{formatMoney(p.amount)}</td>
+                  <td className="px-2 py-1 text-right">
+                    <button className="inline-flex items-center justify-center h-8 w-8 rounded-xl border"
+                      aria-label="Delete payment" onClick={() => removePayment(p.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {receivable && record.status !== "cancelled" && (
+          <div className="border-t pt-3">
+            <h4 className="font-semibold mb-2 text-sm">Record a payment</h4>
+            <div className="grid sm:grid-cols-[auto,1fr,auto,1fr,auto] gap-2">
+              <input className="input" type="date" value={entry.date}
+                onChange={e => setEntry({ ...entry, date: e.target.value })} />
+              <input className="input text-right" type="number" step={0.01} placeholder="Amount"
+                value={entry.amount} onChange={e => setEntry({ ...entry, amount: +e.target.value || 0 })} />
+              <select className="input" value={entry.mode}
+                onChange={e => setEntry({ ...entry, mode: e.target.value as PaymentEntry["mode"] })}>
+                {PAYMENT_MODES.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+              <input className="input" placeholder="Reference / UTR / cheque no"
+                value={entry.reference} onChange={e => setEntry({ ...entry, reference: e.target.value })} />
+              <button className="btn-primary" onClick={addPayment}>Add</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
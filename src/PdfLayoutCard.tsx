@@ -0,0 +1,74 @@
+import { ImagePlus, X } from "lucide-react";
+import { PDF_TEMPLATES, readImageFile, type PdfLayout, type PdfTemplate } from "./pdfLayout";
+
+export function ImagePicker({ label, value, onChange }: {
+  label: string; value: string; onChange: (dataUrl: string) => void;
+}) {
+  const pick = async (file?: File) => {
+    if (!file) return;
+    try { onChange(await readImageFile(file)); } catch (err) { alert((err as Error).message); }
+  };
+  return (
+    <div className="text-sm">
+      <div className="opacity-70 mb-1">{label}</div>
+      <div className="flex items-center gap-2">
+        {value
+          ? <img src={value} alt={label} className="h-12 max-w-32 object-contain rounded border bg-white" />
+          : <div className="h-12 w-24 rounded border grid place-items-center text-xs opacity-50">None</div>}
+        <label className="btn-ghost inline-flex items-center gap-2 cursor-pointer">
+          <ImagePlus className="h-4 w-4" /> Upload
+          <input type="file" accept="image/png,image/jpeg" className="hidden"
+            onChange={e => { void pick(e.target.files?.[0]); e.target.value = ""; }} />
+        </label>
+        {value && (
+          <button className="inline-flex items-center justify-center h-9 w-9 rounded-xl border"
+            aria-label={`Remove ${label}`} onClick={() => onChange("")}>
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function PdfLayoutCard({ value, onChange, notes, onNotes }: {
+  value: PdfLayout;
+  onChange: (l: PdfLayout) => void;
+  notes: string;                    // per invoice
+  onNotes: (notes: string) => void;
+}) {
+  const patch = (p: Partial<PdfLayout>) => onChange({ ...value, ...p });
+  return (
+    <div className="bg-surface rounded-xl p-5 shadow">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="font-semibold">PDF Layout</h3>
+        <label className="text-sm inline-flex items-center gap-2">
+          <input type="checkbox" checked={value.printLight}
+            onChange={e => patch({ printLight: e.target.checked })} />
+          Print-friendly light mode
+        </label>
+      </div>
+      <div className="grid sm:grid-cols-2 gap-3">
+        <label className="text-sm">Template
+          <select className="input" value={value.template}
+            onChange={e => patch({ template: e.target.value as PdfTemplate })}>
+            {PDF_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+          </select>
+        </label>
+        <label className="text-sm">Signatory label
+          <input className="input" value={value.signatory} placeholder="Authorised Signatory"
+            onChange={e => patch({ signatory: e.target.value })} />
+        </label>
+        <ImagePicker label="Signature" value={value.signature} onChange={signature => patch({ signature })} />
+        <label className="text-sm sm:col-span-2">Notes (this invoice)
+          <textarea className="input min-h-16" value={notes}
+            onChange={e => onNotes(e.target.value)} />
+        </label>
+        <label className="text-sm sm:col-span-2">Terms &amp; conditions (all invoices, one per line)
+          <textarea className="input min-h-20" value={value.terms}
+            onChange={e => patch({ terms: e.target.value })} />
+        </label>
+      </div>
+    </div>
+  );
+}
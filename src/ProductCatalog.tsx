@@ -0,0 +1,156 @@
+import { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import { GST_RATES } from "./gst";
+import {
+  EMPTY_PRODUCT, matchesProduct, parseCatalogCsv, upsertProduct, type Product,
+} from "./catalog";
+
+export default function ProductCatalog({ products, units, onProducts, onUnits, onClose }: {
+  products: Product[];
+  units: string[];
+  onProducts: (list: Product[]) => void;
+  onUnits: (list: string[]) => void;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState("");
+  const [edit, setEdit] = useState<Product>(EMPTY_PRODUCT);
+  const [newUnit, setNewUnit] = useState("");
+  const [report, setReport] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const list = products
+    .filter(p => matchesProduct(p, query))
+    .sort((a, b) => a.description.localeCompare(b.description));
+
+  const save = () => {
+    if (!edit.description.trim() && !edit.sku.trim()) { alert("Enter a description or SKU."); return; }
+    onProducts(upsertProduct(products, edit));
+    setEdit(EMPTY_PRODUCT());
+  };
+  const remove = (id: string) => {
+    if (!confirm("Delete this product?")) return;
+    onProducts(products.filter(p => p.id !== id));
+    if (edit.id === id) setEdit(EMPTY_PRODUCT());
+  };
+
+  const importCsv = async (file: File) => {
+    const { products: rows, errors } = parseCatalogCsv(await file.text());
+    onProducts(rows.reduce(upsertProduct, products));
+    const added = rows.map(r => r.unit).filter(u => !units.includes(u));
+    if (added.length) onUnits([...units, ...new Set(added)]);
+    setReport([`Imported ${rows.length} product(s).`, ...errors]);
+  };
+
+  const addUnit = () => {
+    const u = newUnit.trim();
+    if (u && !units.includes(u)) onUnits([...units, u]);
+    setNewUnit("");
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(900px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Product Catalog</h3>
+          <div className="flex gap-2">
+            <button className="btn-ghost inline-flex items-center gap-2" onClick={() => fileRef.current?.click()}>
+              <Upload className="h-4 w-4" /> Import CSV
+            </button>
+            <input ref={fileRef} type="file" accept=".csv,text/csv" className="hidden"
+              onChange={e => { const f = e.target.files?.[0]; if (f) importCsv(f); e.target.value = ""; }} />
+            <button className="btn-ghost" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        {report.length > 0 && (
+          <div className="text-xs rounded-xl border p-2 space-y-0.5">
+            {report.map((r, i) => <div key={i} className={i ? "text-red-600" : ""}>{r}</div>)}
+          </div>
+        )}
+
+        {/* editor */}
+        <div className="grid sm:grid-cols-6 gap-3 items-end">
+          <input className="input sm:col-span-2" placeholder="SKU"
+            value={edit.sku} onChange={e => setEdit({ ...edit, sku: e.target.value })} />
+          <input className="input sm:col-span-4" placeholder="Description"
+            value={edit.description} onChange={e => setEdit({ ...edit, description: e.target.value })} />
+          <input className="input sm:col-span-2" placeholder="HSN/SAC"
+            value={edit.hsn} onChange={e => setEdit({ ...edit, hsn: e.target.value })} />
+          <select className="input" value={edit.unit} onChange={e => setEdit({ ...edit, unit: e.target.value })}>
+            {units.map(u => <option key={u} value={u}>{u}</option>)}
+          </select>
+          <input className="input text-right" type="number" step={0.01} placeholder="Rate"
+            value={edit.rate} onChange={e => setEdit({ ...edit, rate: +e.target.value || 0 })} />
+          <select className="input" value={edit.gstRate} onChange={e => setEdit({ ...edit, gstRate: +e.target.value })}>
+            {GST_RATES.map(r => <option key={r} value={r}>{r}%</option>)}
+          </select>
+          <div className="flex gap-2">
+            <button className="btn-primary" onClick={save}>{edit.id ? "Update" : "Add"}</button>
+            {edit.id && <button className="btn-ghost" onClick={() => setEdit(EMPTY_PRODUCT())}>Cancel</button>}
+          </div>
+        </div>
+
+        {/* list */}
+        <input className="input" placeholder="Search SKU, description or HSN"
+          value={query} onChange={e => setQuery(e.target.value)} />
+        {list.length === 0 ? (
+          <div className="text-sm opacity-70">
+            {products.length === 0 ? "No products yet. Add one above or import a CSV." : "No products match your search."}
+          </div>
+        ) : (
+          <div className="overflow-x-auto max-h-[40vh]">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="px-2 py-1">SKU</th>
+                  <th className="px-2 py-1">Description</th>
+                  <th className="px-2 py-1">HSN</th>
+                  <th className="px-2 py-1">Unit</th>
+                  <th className="px-2 py-1 text-right">Rate</th>
+                  <th className="px-2 py-1 text-right">GST %</th>
+                  <th className="px-2 py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {list.map(p => (
+                  <tr key={p.id} className="border-t">
+                    <td className="px-2 py-1 font-mono">{p.sku}</td>
+                    <td className="px-2 py-1">{p.description}</td>
+                    <td className="px-2 py-1">{p.hsn}</td>
+                    <td className="px-2 py-1">{p.unit}</td>
+                    <td className="px-2 py-1 text-right">{p.rate.toFixed(2)}</td>
+                    <td className="px-2 py-1 text-right">{p.gstRate}</td>
+                    <td className="px-2 py-1 text-right whitespace-nowrap">
+                      <button className="btn-ghost mr-2" onClick={() => setEdit(p)}>Edit</button>
+                      <button className="btn-ghost" onClick={() => remove(p.id)}>Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* units master */}
+        <div className="border-t pt-3">
+          <h4 className="font-semibold mb-2 text-sm">Units</h4>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {units.map(u => (
+              <span key={u} className="inline-flex items-center gap-1 rounded-xl border px-2 py-1 text-sm">
+                {u}
+                <button aria-label={`Remove ${u}`} className="opacity-60 hover:opacity-100"
+                  onClick={() => onUnits(units.filter(x => x !== u))}>×</button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-2 max-w-sm">
+            <input className="input" placeholder="New unit, e.g. Hr or Dozen"
+              value={newUnit} onChange={e => setNewUnit(e.target.value)}
+              onKeyDown={e => { if (e.key === "Enter") addUnit(); }} />
+            <button className="btn-ghost" onClick={addUnit}>Add</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
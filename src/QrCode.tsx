@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+import { qrMatrix } from "./payment";
+
+// Crisp SVG QR; always black on white (with a quiet zone) so it scans in dark mode too.
+export default function QrCode({ value, size = 112, label = "UPI payment QR code" }: {
+  value: string;
+  size?: number;
+  label?: string;
+}) {
+  const path = useMemo(() => {
+    const m = qrMatrix(value);
+    let d = "";
+    m.forEach((row, r) => row.forEach((dark, c) => { if (dark) d += `M${c + 2} ${r + 2}h1v1h-1z`; }));
+    return { d, n: m.length + 4 };
+  }, [value]);
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${path.n} ${path.n}`} shapeRendering="crispEdges"
+      role="img" aria-label={label}>
+      <rect width={path.n} height={path.n} fill="#FFFFFF" />
+      <path d={path.d} fill="#000000" />
+    </svg>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { Plus, RefreshCw, Trash2 } from "lucide-react";
+import type { Form } from "./invoice";
+import { DOC_META } from "./documents";
+import { isLine } from "./pricing";
+import {
+  FREQUENCIES, addMonths, nextRunDate, templateFromForm, type Frequency, type RecurringTemplate,
+} from "./recurring";
+
+export default function RecurringModal({ templates, form, onChange, onRunNow, onClose }: {
+  templates: RecurringTemplate[];
+  form: Form;
+  onChange: (list: RecurringTemplate[]) => void;
+  onRunNow: () => Promise<void>;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState(() => ({
+    name: form.buyer.name || "",
+    frequency: "monthly" as Frequency,
+    startDate: addMonths(form.date, 1),
+    issue: false,
+  }));
+  const [busy, setBusy] = useState(false);
+
+  const patch = (id: string, p: Partial<RecurringTemplate>) =>
+    onChange(templates.map(t => (t.id === id ? { ...t, ...p } : t)));
+  const add = () => {
+    if (!form.items.some(it => isLine(it) && it.description.trim())) { alert("Add at least one item to the invoice first."); return; }
+    const { name, ...rest } = draft;
+    onChange([...templates, templateFromForm(form, name.trim() ? { ...rest, name: name.trim() } : rest)]);
+  };
+  const replaceRows = (t: RecurringTemplate) => {
+    if (!confirm(`Replace the customer, rows and terms of "${t.name}" with the invoice on screen?`)) return;
+    patch(t.id, { form: templateFromForm(form).form });
+  };
+  const remove = (t: RecurringTemplate) => {
+    if (confirm(`Delete recurring template "${t.name}"? Invoices already created are kept.`)) {
+      onChange(templates.filter(x => x.id !== t.id));
+    }
+  };
+  const runNow = async () => {
+    setBusy(true);
+    try { await onRunNow(); } finally { setBusy(false); }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(980px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Recurring Invoices</h3>
+            <div className="text-xs opacity-70">Due invoices are created when the app opens, each with a fresh date and number</div>
+          </div>
+          <div className="flex gap-2">
+            <button className="btn-ghost inline-flex items-center gap-2" disabled={busy} onClick={runNow}>
+              <RefreshCw className="h-4 w-4" /> Create due now
+            </button>
+            <button className="btn-ghost" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        <div className="card grid sm:grid-cols-5 gap-3 items-end">
+          <div className="sm:col-span-5 text-sm font-semibold">
+            New template from the {DOC_META[form.docType].label.toLowerCase()} on screen
+            {form.buyer.name && <> for {form.buyer.name}</>}
+          </div>
+          <label className="text-sm sm:col-span-2">Name
+            <input className="input w-full" value={draft.name} placeholder="e.g. Acme retainer"
+              onChange={e => setDraft({ ...draft, name: e.target.value })} />
+          </label>
+          <label className="text-sm">Repeat
+            <select className="input w-full" value={draft.frequency}
+              onChange={e => setDraft({ ...draft, frequency: e.target.value as Frequency })}>
+              {FREQUENCIES.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </label>
+          <label className="text-sm">First invoice on
+            <input className="input w-full" type="date" value={draft.startDate}
+              onChange={e => setDraft({ ...draft, startDate: e.target.value })} />
+          </label>
+          <button className="btn-primary inline-flex items-center justify-center gap-2" disabled={!draft.startDate} onClick={add}>
+            <Plus className="h-4 w-4" /> Add
+          </button>
+          <label className="text-sm inline-flex items-center gap-2 sm:col-span-5">
+            <input type="checkbox" checked={draft.issue} onChange={e => setDraft({ ...draft, issue: e.target.checked })} />
+            Issue automatically with the next number (otherwise a draft is saved for review)
+          </label>
+        </div>
+
+        {templates.length === 0 ? (
+          <div className="text-sm opacity-70">No recurring templates yet.</div>
+        ) : templates.map(t => (
+          <div key={t.id} className="card grid sm:grid-cols-6 gap-3 items-end">
+            <label className="text-sm sm:col-span-2">Name
+              <input className="input w-full" value={t.name} onChange={e => patch(t.id, { name: e.target.value })} />
+            </label>
+            <label className="text-sm">Repeat
+              <select className="input w-full" value={t.frequency}
+                onChange={e => patch(t.id, { frequency: e.target.value as Frequency })}>
+                {FREQUENCIES.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+            </label>
+            <label className="text-sm">Ends on
+              <input className="input w-full" type="date" value={t.endDate}
+                onChange={e => patch(t.id, { endDate: e.target.value })} />
+            </label>
+            <div className="text-sm">
+              <div className="text-xs opacity-70">Next</div>
+              <div>{t.active && (!t.endDate || nextRunDate(t) <= t.endDate) ? nextRunDate(t) : "—"}</div>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <button className="btn-ghost" onClick={() => replaceRows(t)}>Use current rows</button>
+              <button className="inline-flex items-center justify-center h-9 w-9 rounded-xl border"
+                onClick={() => remove(t)} aria-label={`Delete ${t.name}`}>
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="sm:col-span-6 flex flex-wrap gap-4 text-sm">
+              <span className="opacity-70">
+                {DOC_META[t.form.docType].label} to {t.form.buyer.name || "—"} • {t.form.items.length} row(s) •
+                {" "}{t.generated} created since {t.startDate}
+              </span>
+              <label className="inline-flex items-center gap-2">
+                <input type="checkbox" checked={t.issue} onChange={e => patch(t.id, { issue: e.target.checked })} />
+                Issue automatically
+              </label>
+              <label className="inline-flex items-center gap-2">
+                <input type="checkbox" checked={t.active} onChange={e => patch(t.id, { active: e.target.checked })} />
+                Active
+              </label>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
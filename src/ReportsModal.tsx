@@ -0,0 +1,179 @@
+import { useMemo, useState } from "react";
+import { FileDown, Sheet } from "lucide-react";
+import type { InvoiceRecord } from "./invoiceDb";
+import { todayIso } from "./ledger";
+import { toCsv } from "./csv";
+import { downloadBlob, downloadCsv } from "./download";
+import { lightTheme, type RGB } from "./invoicePdf";
+import { DEFAULT_PDF_FONT } from "./pdfFonts";
+import { fetchPdfFont } from "./pdfFontUrls";
+import { buildReportPdf, formatReportCell } from "./reportPdf";
+import {
+  buildReports, rangeLabel, rangePresets, reportFileName, reportRows,
+  type Report, type ReportId, type ReportRange,
+} from "./reports";
+
+function BarChart({ report }: { report: Report }) {
+  const max = Math.max(0, ...report.chart.map(p => Math.abs(p.value)));
+  if (!report.chart.length || !max) return null;
+  const kind = report.columns.find(c => c.label === report.chartLabel)?.kind ?? "money";
+  return (
+    <div className="space-y-1" aria-label={`${report.chartLabel} chart`}>
+      {report.chart.map((p, i) => (
+        <div key={i} className="grid grid-cols-[9rem_1fr_7rem] items-center gap-2 text-xs">
+          <div className="truncate" title={p.label}>{p.label}</div>
+          <div className="h-3 rounded bg-slate-200/60 dark:bg-slate-700/60">
+            <div className="h-3 rounded" style={{
+              width: `${Math.abs(p.value) / max * 100}%`,
+              background: p.value < 0 ? "#DC2626" : "var(--color-accent)",
+            }} />
+          </div>
+          <div className="text-right tabular-nums">{formatReportCell(p.value, kind)}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Sales analysis over a period, from the saved (issued) documents; each
+// report downloads as CSV for spreadsheets or as a PDF table.
+export default function ReportsModal({ records, business, accent, onClose }: {
+  records: InvoiceRecord[];
+  business: string;
+  accent: RGB;
+  onClose: () => void;
+}) {
+  const presets = useMemo(() => rangePresets(todayIso()), []);
+  const [range, setRange] = useState<ReportRange>(presets.find(p => p.id === "fy")!.range);
+  const [rankBy, setRankBy] = useState<"value" | "qty">("value");
+  const [tab, setTab] = useState<ReportId>("months");
+  const [busy, setBusy] = useState(false);
+
+  const { documents, skipped, reports } = useMemo(() => buildReports(records, range, { rankBy }), [records, range, rankBy]);
+  const report = reports.find(r => r.id === tab) ?? reports[0];
+  const preset = presets.find(p => p.range.from === range.from && p.range.to === range.to)?.id ?? "";
+
+  const exportCsv = () => downloadCsv(reportFileName(report, range, "csv"), toCsv(reportRows(report)));
+
+  const exportPdf = async () => {
+    setBusy(true);
+    const input = { report, range, business, theme: lightTheme(accent), loadFont: fetchPdfFont };
+    try {
+      let pdf;
+      try {
+        pdf = await buildReportPdf({ ...input, font: DEFAULT_PDF_FONT });
+      } catch (err) {
+        console.error("Could not load the PDF font", err);
+        pdf = await buildReportPdf({ ...input, font: "helvetica" });
+      }
+      downloadBlob(reportFileName(report, range, "pdf"), pdf);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(1000px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Reports</h3>
+            <div className="text-xs opacity-70">
+              {documents} issued document(s), {rangeLabel(range)} • amounts in ₹, credit notes subtracted
+              {skipped > 0 && ` • ${skipped} foreign-currency document(s) without an exchange rate left out`}
+            </div>
+          </div>
+          <button className="btn-ghost" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="text-sm">Period
+            <select className="input" value={preset}
+              onChange={e => { const p = presets.find(x => x.id === e.target.value); if (p) setRange(p.range); }}>
+              {!preset && <option value="">Custom</option>}
+              {presets.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </label>
+          <label className="text-sm">From
+            <input type="date" className="input" value={range.from} onChange={e => setRange({ ...range, from: e.target.value })} />
+          </label>
+          <label className="text-sm">To
+            <input type="date" className="input" value={range.to} onChange={e => setRange({ ...range, to: e.target.value })} />
+          </label>
+          {(tab === "products" || tab === "hsn") && (
+            <label className="text-sm">Rank by
+              <select className="input" value={rankBy} onChange={e => setRankBy(e.target.value as "value" | "qty")}>
+                <option value="value">Value</option>
+                <option value="qty">Quantity</option>
+              </select>
+            </label>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {reports.map(r => (
+            <button key={r.id} className={r.id === report.id ? "btn-primary" : "btn-ghost"} onClick={() => setTab(r.id)}>
+              {r.title}
+            </button>
+          ))}
+        </div>
+
+        <div className="card space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="font-semibold text-sm">{report.title}</h4>
+            <div className="flex gap-2">
+              <button className="btn-ghost inline-flex items-center gap-2" disabled={!report.rows.length} onClick={exportCsv}>
+                <Sheet className="h-4 w-4" /> CSV
+              </button>
+              <button className="btn-ghost inline-flex items-center gap-2" disabled={busy || !report.rows.length}
+                onClick={exportPdf}>
+                <FileDown className="h-4 w-4" /> PDF
+              </button>
+            </div>
+          </div>
+
+          {report.rows.length === 0 ? (
+            <div className="text-sm opacity-70">No issued documents in this period.</div>
+          ) : (
+            <>
+              <BarChart report={report} />
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr>
+                      {report.columns.map(c => (
+                        <th key={c.label} className={`px-2 py-1 ${c.kind === "text" ? "text-left" : "text-right"}`}>{c.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.rows.map((r, i) => (
+                      <tr key={i} className="border-t">
+                        {r.map((v, j) => (
+                          <td key={j} className={`px-2 py-1 ${report.columns[j].kind === "text" ? "" : "text-right tabular-nums"}`}>
+                            {formatReportCell(v, report.columns[j].kind)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                  {report.total && (
+                    <tfoot>
+                      <tr className="border-t font-semibold">
+                        {report.total.map((v, j) => (
+                          <td key={j} className={`px-2 py-1 ${report.columns[j].kind === "text" ? "" : "text-right tabular-nums"}`}>
+                            {formatReportCell(v, report.columns[j].kind)}
+                          </td>
+                        ))}
+                      </tr>
+                    </tfoot>
+                  )}
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
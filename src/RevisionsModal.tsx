@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useState } from "react";
+import { RotateCcw } from "lucide-react";
+import type { Form } from "./invoice";
+import { listRevisions, type InvoiceRecord, type Revision } from "./invoiceDb";
+import { DOC_META } from "./documents";
+import { diffForms } from "./formDiff";
+
+// Earlier saved versions of one record, compared against `current` (the
+// editor when the record is open there, otherwise the latest save).
+export default function RevisionsModal({ record, current, currentLabel, formatMoney, onRestore, onClose }: {
+  record: InvoiceRecord;
+  current: Form;
+  currentLabel: string;
+  formatMoney: (n: number, form: Form) => string;
+  onRestore: (rev: Revision) => void;
+  onClose: () => void;
+}) {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+  const [selected, setSelected] = useState<string>("");
+
+  useEffect(() => {
+    let live = true;
+    listRevisions(record.id)
+      .then(list => { if (live) { setRevisions(list); setSelected(list[0]?.id ?? ""); } })
+      .catch(err => { console.error("Could not read revisions", err); if (live) setRevisions([]); });
+    return () => { live = false; };
+  }, [record.id]);
+
+  const rev = revisions?.find(r => r.id === selected);
+  const changes = useMemo(() => (rev ? diffForms(rev.form, current) : []), [rev, current]);
+  const label = `${DOC_META[record.form.docType].label} ${record.invoiceNo || "(draft)"}`;
+
+  const restore = () => {
+    if (!rev) return;
+    if (!confirm(`Open the version saved ${new Date(rev.savedAt).toLocaleString()} in the editor? ` +
+      "Save afterwards to make it the current version; the one it replaces is kept here.")) return;
+    onRestore(rev);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-[60]">
+      <div className="bg-surface rounded-xl p-5 w-[min(960px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Versions of {label}</h3>
+            <div className="text-xs opacity-70">A version is kept each time a save changes the document</div>
+          </div>
+          <div className="flex gap-2">
+            <button className="btn-ghost inline-flex items-center gap-2" disabled={!rev} onClick={restore}>
+              <RotateCcw className="h-4 w-4" /> Restore
+            </button>
+            <button className="btn-ghost" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        {revisions === null ? (
+          <div className="text-sm opacity-70">Loading…</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-sm opacity-70">No earlier versions; this document has been saved once.</div>
+        ) : (
+          <div className="grid md:grid-cols-[260px,1fr] gap-4">
+            <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+              {revisions.map(r => (
+                <button key={r.id} onClick={() => setSelected(r.id)}
+                  className={`w-full text-left rounded-xl border p-2 text-sm ${r.id === selected ? "border-accent" : ""}`}>
+                  <div className="font-medium">{new Date(r.savedAt).toLocaleString()}</div>
+                  <div className="text-xs opacity-70">
+                    {r.invoiceNo || "draft"} • {r.status} • {formatMoney(r.grand, r.form)}
+                  </div>
+                </button>
+              ))}
+            </div>
+            <div className="overflow-x-auto">
+              {changes.length === 0 ? (
+                <div className="text-sm opacity-70">Same as {currentLabel.toLowerCase()}.</div>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left">
+                      <th className="p-2">Section</th>
+                      <th className="p-2">Field</th>
+                      <th className="p-2">This version</th>
+                      <th className="p-2">{currentLabel}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((c, i) => (
+                      <tr key={i} className="border-t align-top">
+                        <td className="p-2 whitespace-nowrap opacity-70">{c.section}</td>
+                        <td className="p-2 whitespace-nowrap">{c.field}</td>
+                        <td className="p-2 text-red-600 break-words">{c.before}</td>
+                        <td className="p-2 text-green-700 break-words">{c.after}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
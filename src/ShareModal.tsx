@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from "react";
+import { Mail, MessageCircle, Share2 } from "lucide-react";
+import type { Form } from "./invoice";
+import { DOC_META } from "./documents";
+import { downloadBlob } from "./download";
+import {
+  DEFAULT_MAIL_TEMPLATE, PLACEHOLDERS, canShareFiles, fillTemplate, loadMailTemplate, mailtoUrl,
+  messageVars, saveMailTemplate, sharePdf, whatsappText, whatsappUrl, type MailTemplate,
+} from "./share";
+
+// Send the current document: the PDF itself through the device share sheet,
+// a WhatsApp message, or an e-mail. mailto: cannot carry attachments, so on
+// desktop the PDF is downloaded first for the user to attach.
+export default function ShareModal({ form, amount, upi, pdfName, makePdf, onClose }: {
+  form: Form;
+  amount: string;
+  upi: string;
+  pdfName: string;
+  makePdf: () => Promise<Blob | null>;
+  onClose: () => void;
+}) {
+  const vars = useMemo(() => messageVars(form, amount, upi), [form, amount, upi]);
+  const [template, setTemplate] = useState<MailTemplate>(loadMailTemplate);
+  useEffect(() => { saveMailTemplate(template); }, [template]);
+  const [to, setTo] = useState(form.buyer.email);
+  const [phone, setPhone] = useState(form.buyer.phone);
+  const [waText, setWaText] = useState(() => whatsappText(vars));
+  const [busy, setBusy] = useState(false);
+  const canShare = useMemo(canShareFiles, []);
+
+  const subject = fillTemplate(template.subject, vars);
+  const body = fillTemplate(template.body, vars);
+  const label = `${DOC_META[form.docType].label} ${vars.number}`;
+
+  const withPdf = async (send: (pdf: Blob) => Promise<void> | void) => {
+    setBusy(true);
+    try {
+      const pdf = await makePdf();
+      if (pdf) await send(pdf);
+    } catch (err) {
+      console.error("Sharing failed", err);
+      alert(`Sharing failed: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const share = (text: string) => withPdf(async pdf => {
+    if (!await sharePdf(pdf, pdfName, subject, text)) alert("This browser cannot share files; use the e-mail option instead.");
+  });
+
+  const mail = () => withPdf(pdf => {
+    downloadBlob(pdfName, pdf);
+    location.href = mailtoUrl(to, subject, body);
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/40 grid place-items-center z-50">
+      <div className="bg-surface rounded-xl p-5 w-[min(720px,94vw)] max-h-[92vh] overflow-y-auto shadow-xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Send {label}</h3>
+            <div className="text-xs opacity-70">{vars.customer} • {amount}</div>
+          </div>
+          <button className="btn-ghost" onClick={onClose}>Close</button>
+        </div>
+
+        {canShare && (
+          <div className="card flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm">Share the PDF to any app on this device (mail, WhatsApp, Drive…)</div>
+            <button className="btn-primary inline-flex items-center gap-2" disabled={busy} onClick={() => share(body)}>
+              <Share2 className="h-4 w-4" /> Share PDF
+            </button>
+          </div>
+        )}
+
+        <div className="card space-y-2">
+          <div className="font-medium text-sm">WhatsApp</div>
+          <input className="input" placeholder="Mobile number (blank: pick a chat in WhatsApp)" inputMode="tel"
+            value={phone} onChange={e => setPhone(e.target.value)} />
+          <textarea className="input min-h-[96px]" value={waText} onChange={e => setWaText(e.target.value)} />
+          <div className="flex flex-wrap gap-2">
+            <a className="btn-ghost inline-flex items-center gap-2" href={whatsappUrl(phone, waText)}
+              target="_blank" rel="noreferrer">
+              <MessageCircle className="h-4 w-4" /> Open WhatsApp
+            </a>
+            {canShare && (
+              <button className="btn-ghost inline-flex items-center gap-2" disabled={busy} onClick={() => share(waText)}>
+                <Share2 className="h-4 w-4" /> Share PDF with this message
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="card space-y-2">
+          <div className="font-medium text-sm">E-mail</div>
+          <input className="input" type="email" placeholder="To" value={to} onChange={e => setTo(e.target.value)} />
+          <label className="block text-xs opacity-70">Subject template
+            <input className="input" value={template.subject}
+              onChange={e => setTemplate(t => ({ ...t, subject: e.target.value }))} />
+          </label>
+          <label className="block text-xs opacity-70">Message template
+            <textarea className="input min-h-[140px]" value={template.body}
+              onChange={e => setTemplate(t => ({ ...t, body: e.target.value }))} />
+          </label>
+          <div className="text-xs opacity-70">
+            Placeholders: {PLACEHOLDERS.map(p => `{${p}}`).join(" ")} •{" "}
+            <button className="underline" onClick={() => setTemplate(DEFAULT_MAIL_TEMPLATE())}>Reset to default</button>
+          </div>
+          <div className="rounded-xl border p-3 text-sm whitespace-pre-wrap">
+            <div className="font-semibold mb-1">{subject}</div>
+            {body}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button className="btn-ghost inline-flex items-center gap-2" disabled={busy} onClick={mail}>
+              <Mail className="h-4 w-4" /> Download PDF &amp; open mail
+            </button>
+            <span className="text-xs opacity-70">Attach {pdfName} from your downloads.</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { STATES, resolveState } from "./gst";
+
+export default function StateSelect({ value, onChange, placeholder }: {
+  value: string; onChange: (code: string) => void; placeholder: string;
+}) {
+  return (
+    <select className="input" value={resolveState(value)?.code ?? ""}
+      onChange={e => onChange(e.target.value)}>
+      <option value="">{placeholder}</option>
+      {STATES.map(s => <option key={s.code} value={s.code}>{s.code} – {s.name}</option>)}
+    </select>
+  );
+}
@@ -0,0 +1,18 @@
+import { STATUS_LABEL, type DisplayStatus } from "./ledger";
+
+const TONE: Record<DisplayStatus, string> = {
+  draft: "border-slate-400 text-slate-500",
+  issued: "border-blue-500 text-blue-600",
+  partial: "border-amber-500 text-amber-600",
+  paid: "border-green-600 text-green-600",
+  overdue: "border-red-600 text-red-600",
+  cancelled: "border-slate-400 text-slate-400 line-through",
+};
+
+export default function StatusBadge({ status }: { status: DisplayStatus }) {
+  return (
+    <span className={`inline-block rounded-full border px-2 py-0.5 text-xs whitespace-nowrap ${TONE[status]}`}>
+      {STATUS_LABEL[status]}
+    </span>
+  );
+}
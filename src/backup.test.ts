@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { BACKUP_FORMAT, decryptBackup, encryptBackup, type BackupData } from "./backup";
+import { makeRecord } from "./testFixtures";
+
+const data = (): BackupData => ({
+  createdAt: "2025-04-01T10:00:00.000Z",
+  records: [makeRecord()],
+  revisions: [],
+  draft: null,
+  settings: { invoice_units_v1: '["Pcs.","Nos"]' },
+});
+
+describe("encrypted backup", () => {
+  it("round-trips with the right passphrase", async () => {
+    const file = await encryptBackup(data(), "correct horse");
+    expect(file.format).toBe(BACKUP_FORMAT);
+    expect(JSON.stringify(file)).not.toContain("INV/25-26/0001");
+    const back = await decryptBackup(JSON.stringify(file), "correct horse");
+    expect(back.records[0].invoiceNo).toBe("INV/25-26/0001");
+    expect(back.settings).toEqual({ invoice_units_v1: '["Pcs.","Nos"]' });
+  });
+
+  it("refuses a wrong passphrase and other files", async () => {
+    const text = JSON.stringify(await encryptBackup(data(), "correct horse"));
+    await expect(decryptBackup(text, "wrong horse")).rejects.toThrow(/Wrong passphrase/);
+    await expect(decryptBackup('{"format":"invoice-app/bundle"}', "x")).rejects.toThrow(/not a backup/);
+    await expect(decryptBackup("%PDF-1.7", "x")).rejects.toThrow(/not JSON/);
+  });
+});
@@ -0,0 +1,114 @@
+import { gunzipSync, gzipSync, strFromU8, strToU8 } from "fflate";
+import {
+  listAllRevisions, listInvoices, loadDraft, restoreRecords, saveDraft,
+  type Draft, type InvoiceRecord, type Revision,
+} from "./invoiceDb";
+
+/* ---------- encrypted backup --------------------------------------------- */
+// Everything the app keeps in this browser: saved documents with their
+// revisions, the working draft and every invoice_* localStorage setting
+// (seller, customers, catalog, numbering, layout, payment, recurring).
+// The JSON is gzipped and sealed with AES-GCM under a key derived from the
+// passphrase (PBKDF2-SHA-256). Nothing can be read back without it.
+export const BACKUP_FORMAT = "invoice-app/backup";
+export const BACKUP_VERSION = 1;
+
+const ITERATIONS = 600_000;    // OWASP guidance for PBKDF2-SHA-256
+const SETTINGS_PREFIX = "invoice_";
+export const MIN_PASSPHRASE = 8;
+
+export type BackupData = {
+  createdAt: string;
+  records: InvoiceRecord[];
+  revisions: Revision[];
+  draft: Draft | null;
+  settings: Record<string, string>;
+};
+
+export type BackupFile = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  data: string;                // base64 ciphertext of the gzipped BackupData JSON
+};
+
+const toB64 = (bytes: Uint8Array) => {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(bin);
+};
+
+const fromB64 = (b64: string) => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+
+// the header is authenticated with the data, so it cannot be swapped
+const aad = (version: number) => strToU8(`${BACKUP_FORMAT}/${version}`);
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number) => {
+  const base = await crypto.subtle.importKey("raw", strToU8(passphrase.normalize("NFC")), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    base, { name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"],
+  );
+};
+
+export const encryptBackup = async (data: BackupData, passphrase: string): Promise<BackupFile> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, ITERATIONS);
+  const sealed = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: aad(BACKUP_VERSION) }, key, gzipSync(strToU8(JSON.stringify(data))),
+  );
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    kdf: { name: "PBKDF2", hash: "SHA-256", iterations: ITERATIONS, salt: toB64(salt) },
+    cipher: { name: "AES-GCM", iv: toB64(iv) },
+    data: toB64(new Uint8Array(sealed)),
+  };
+};
+
+export const decryptBackup = async (text: string, passphrase: string): Promise<BackupData> => {
+  let file: BackupFile;
+  try { file = JSON.parse(text); } catch { throw new Error("This is not a backup file (not JSON)."); }
+  if (file?.format !== BACKUP_FORMAT) throw new Error("This is not a backup file from this app.");
+  if (file.version > BACKUP_VERSION) throw new Error(`Backup version ${file.version} needs a newer version of the app.`);
+
+  let plain: ArrayBuffer;
+  try {
+    const key = await deriveKey(passphrase, fromB64(file.kdf.salt), file.kdf.iterations);
+    plain = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromB64(file.cipher.iv), additionalData: aad(file.version) }, key, fromB64(file.data),
+    );
+  } catch {
+    throw new Error("Wrong passphrase, or the file is damaged.");
+  }
+  const data = JSON.parse(strFromU8(gunzipSync(new Uint8Array(plain)))) as BackupData;
+  return { ...data, revisions: data.revisions ?? [], draft: data.draft ?? null, settings: data.settings ?? {} };
+};
+
+export const backupFileName = (date: string) => `invoices-${date}.backup.json`;
+
+export const backupSummary = (d: BackupData) =>
+  `${d.records.length} document(s), ${d.revisions.length} earlier version(s), ` +
+  `${Object.keys(d.settings).length} setting(s), saved ${new Date(d.createdAt).toLocaleString()}`;
+
+/* ---------- collect / restore (IndexedDB + localStorage) ----------------- */
+export const collectBackup = async (): Promise<BackupData> => {
+  const settings: Record<string, string> = {};
+  for (const key of Object.keys(localStorage)) {
+    if (key.startsWith(SETTINGS_PREFIX)) settings[key] = localStorage.getItem(key) ?? "";
+  }
+  const [records, revisions, draft] = await Promise.all([listInvoices(), listAllRevisions(), loadDraft()]);
+  return { createdAt: new Date().toISOString(), records, revisions, draft: draft ?? null, settings };
+};
+
+// Documents in the backup replace those with the same id; others stay.
+// Settings are overwritten. The page reloads afterwards to pick them up.
+export const restoreBackup = async (data: BackupData) => {
+  await restoreRecords(data.records, data.revisions);
+  if (data.draft) await saveDraft(data.draft);
+  for (const [key, value] of Object.entries(data.settings)) {
+    if (key.startsWith(SETTINGS_PREFIX)) localStorage.setItem(key, value);
+  }
+};
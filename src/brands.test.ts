@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_BRAND, activeBrand, brandLayout, brandTheme, brandVars, contrastRatio, contrastWarnings, loadBrands,
+} from "./brands";
+import { DEFAULT_LAYOUT } from "./pdfLayout";
+
+describe("contrast", () => {
+  it("computes WCAG contrast ratios", () => {
+    expect(contrastRatio([0, 0, 0], [255, 255, 255])).toBeCloseTo(21, 5);
+    expect(contrastRatio([255, 255, 255], [255, 255, 255])).toBe(1);
+    expect(contrastRatio([37, 99, 235], [255, 255, 255])).toBeCloseTo(5.17, 2);
+  });
+
+  it("passes the default brand", () => {
+    expect(contrastWarnings(brandTheme(DEFAULT_BRAND(), false))).toEqual([]);
+  });
+
+  it("warns about a pale accent and a dark paper", () => {
+    const pale = { ...DEFAULT_BRAND(), accent: "#FDE68A" };
+    const w = contrastWarnings(brandTheme(pale, false));
+    expect(w).toHaveLength(2);
+    expect(w[0]).toMatch(/^Accent headings/);
+    expect(w[1]).toMatch(/^White table headings/);
+
+    const dark = { ...DEFAULT_BRAND(), surface: "#1E293B" };
+    expect(contrastWarnings(brandTheme(dark, false))[0]).toMatch(/^Text on the paper/);
+    // print-friendly mode prints on white whatever the paper colour
+    expect(contrastWarnings(brandTheme(dark, true))).toEqual([]);
+  });
+});
+
+describe("brand profiles", () => {
+  it("start with a default profile holding the old layout logo", () => {
+    const s = loadBrands("data:image/png;base64,AAAA");
+    expect(s.profiles).toHaveLength(1);
+    expect(activeBrand(s)).toMatchObject({ id: s.active, logo: "data:image/png;base64,AAAA" });
+  });
+
+  it("carry the logo and footer into the PDF layout", () => {
+    const brand = { ...DEFAULT_BRAND(), logo: "data:image/png;base64,BBBB", footer: "www.acme.in" };
+    expect(brandLayout({ ...DEFAULT_LAYOUT(), logo: "old", template: "gst" }, brand))
+      .toMatchObject({ logo: brand.logo, footer: "www.acme.in", template: "gst" });
+  });
+
+  it("leave the dark palette's surface alone", () => {
+    const brand = { ...DEFAULT_BRAND(), accent: "#0EA5E9", surface: "#FFFBEB" };
+    expect(brandVars(brand, false)).toEqual({ "--color-accent": "#0EA5E9", "--color-surface": "#FFFBEB" });
+    expect(brandVars(brand, true)).toEqual({ "--color-accent": "#0EA5E9" });
+  });
+});
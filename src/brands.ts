@@ -0,0 +1,92 @@
+import { DEFAULT_ACCENT, lightTheme, parseColor, type PdfTheme, type RGB } from "./invoicePdf";
+import type { PdfLayout } from "./pdfLayout";
+import { readJson, writeJson } from "./storage";
+
+/* ---------- brand profiles ----------------------------------------------- */
+// One per business: the accent and paper colours, logo and page footer. The
+// active profile drives the CSS variables, so the preview, the PNG and the
+// PDF all follow it. The surface colour applies in light mode only; dark mode
+// keeps its own palette and takes just the accent.
+export type BrandProfile = {
+  id: string;
+  name: string;
+  accent: string;        // #rrggbb
+  surface: string;       // #rrggbb, the paper in light mode
+  logo: string;          // data: URL, "" = none
+  footer: string;        // printed at the foot of every PDF page
+};
+
+export type BrandSettings = { active: string; profiles: BrandProfile[] };
+
+export const newBrandId = () =>
+  `brand_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const DEFAULT_BRAND = (logo = ""): BrandProfile => ({
+  id: "brand_default", name: "Default", accent: "#2563EB", surface: "#FFFFFF", logo, footer: "",
+});
+
+export const activeBrand = (s: BrandSettings) => s.profiles.find(p => p.id === s.active) ?? s.profiles[0];
+
+// the logo and footer travel with the brand, the rest of the layout does not
+export const brandLayout = (layout: PdfLayout, brand: BrandProfile): PdfLayout =>
+  ({ ...layout, logo: brand.logo, footer: brand.footer });
+
+// CSS variables set on <html>; anything not listed falls back to index.css
+export const brandVars = (brand: BrandProfile, dark: boolean): Record<string, string> =>
+  dark ? { "--color-accent": brand.accent } : { "--color-accent": brand.accent, "--color-surface": brand.surface };
+
+/* ---------- contrast ----------------------------------------------------- */
+// WCAG 2 relative luminance and contrast ratio (1 to 21)
+const luminance = (rgb: RGB) => {
+  const [r, g, b] = rgb.map(v => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (a: RGB, b: RGB) => {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+// Body text needs 4.5:1; the accent is used for bold headings and behind the
+// white table header, where 3:1 is the floor.
+const BODY_MIN = 4.5;
+const HEADING_MIN = 3;
+
+// The printed palette: the brand paper, or white with print-friendly mode on.
+export const brandTheme = (brand: BrandProfile, printLight: boolean): PdfTheme => {
+  const accent = parseColor(brand.accent) ?? DEFAULT_ACCENT;
+  const base = lightTheme(accent);
+  if (printLight) return base;
+  const surface = parseColor(brand.surface) ?? base.surface;
+  return { ...base, bg: surface, surface };
+};
+
+// what would be hard to read on paper; [] when all is well
+export const contrastWarnings = (theme: PdfTheme): string[] => {
+  const out: string[] = [];
+  const fmt = (r: number) => `${r.toFixed(1)}:1`;
+  const body = contrastRatio(theme.text, theme.surface);
+  if (body < BODY_MIN) out.push(`Text on the paper colour is hard to read (${fmt(body)}, needs ${BODY_MIN}:1)`);
+  const heading = contrastRatio(theme.accent, theme.surface);
+  if (heading < HEADING_MIN) out.push(`Accent headings fade into the paper colour (${fmt(heading)}, needs ${HEADING_MIN}:1)`);
+  const header = contrastRatio([255, 255, 255], theme.accent);
+  if (header < HEADING_MIN) out.push(`White table headings on the accent are hard to read (${fmt(header)}, needs ${HEADING_MIN}:1)`);
+  return out;
+};
+
+/* ---------- local storage ------------------------------------------------ */
+const BRANDS_KEY = "invoice_brands_v1";
+
+// The first load turns the logo from the PDF layout settings into the
+// default profile.
+export const loadBrands = (legacyLogo = ""): BrandSettings => {
+  const s = readJson<BrandSettings | null>(BRANDS_KEY, null);
+  if (s?.profiles?.length) return { ...s, profiles: s.profiles.map(p => ({ ...DEFAULT_BRAND(), ...p })) };
+  const brand = DEFAULT_BRAND(legacyLogo);
+  return { active: brand.id, profiles: [brand] };
+};
+
+export const saveBrands = (s: BrandSettings) => writeJson(BRANDS_KEY, s);
@@ -0,0 +1,121 @@
+import { resolveState } from "./gst";
+import { NEW_FORM, newItem, type Form } from "./invoice";
+import { gstinError, type Party } from "./parties";
+import { addDays, todayIso } from "./ledger";
+import { headerIndex, parseCsv, toCsv } from "./csv";
+import { parseRegisterDate } from "./registers";
+import type { ImportIssue } from "./bundle";
+
+/* ---------- bulk CSV ----------------------------------------------------- */
+// One row per line item. Rows with the same "Invoice" key (or, without that
+// column, the same customer + GSTIN) become one invoice. Customers found in
+// the address book (by GSTIN, then name) fill in the address columns left blank.
+export const BULK_HEADER = [
+  "Invoice", "Date", "Customer", "GSTIN", "Email", "Phone", "Address", "City", "Pincode", "State",
+  "Description", "HSN/SAC", "SKU", "Quantity", "Unit", "Rate", "Discount", "GST Rate", "Cess Rate", "Notes",
+];
+
+export const bulkSampleCsv = () => toCsv([
+  BULK_HEADER,
+  ["A1", "", "Acme Traders", "27AAPFU0939F1ZV", "accounts@acme.example", "", "12 MG Road", "Pune", "411001", "MH",
+    "Monthly retainer", "998311", "", "1", "Nos", "25000", "0", "18", "0", "Thank you for your business"],
+  ["A1", "", "Acme Traders", "27AAPFU0939F1ZV", "", "", "", "", "", "",
+    "Hosting", "998315", "", "1", "Nos", "1500", "0", "18", "0", ""],
+  ["B1", "", "Walk-in Customer", "", "", "", "", "Mumbai", "", "27",
+    "Widget", "8471", "W-1", "2", "Pcs.", "500", "10", "18", "0", ""],
+]);
+
+export type ParsedBulk = { forms: Form[]; errors: ImportIssue[] };
+
+export const parseBulkCsv = (text: string, customers: Party[], today = todayIso()): ParsedBulk => {
+  const rows = parseCsv(text);
+  if (rows.length < 2) return { forms: [], errors: [{ row: "file", message: "CSV has no data rows" }] };
+  const [header, ...data] = rows;
+  const col = {
+    key: headerIndex(header, "invoice", "invoice key", "group"),
+    date: headerIndex(header, "date", "invoice date"),
+    customer: headerIndex(header, "customer", "customer name", "name"),
+    gstin: headerIndex(header, "gstin", "gstin/uin of recipient"),
+    email: headerIndex(header, "email"),
+    phone: headerIndex(header, "phone", "mobile"),
+    address: headerIndex(header, "address", "address line 1"),
+    city: headerIndex(header, "city"),
+    pincode: headerIndex(header, "pincode", "pin", "zip"),
+    state: headerIndex(header, "state", "place of supply"),
+    description: headerIndex(header, "description", "item"),
+    hsn: headerIndex(header, "hsn/sac", "hsn"),
+    sku: headerIndex(header, "sku"),
+    qty: headerIndex(header, "quantity", "qty"),
+    unit: headerIndex(header, "unit", "uqc"),
+    rate: headerIndex(header, "rate", "unit price"),
+    discount: headerIndex(header, "discount"),
+    gstRate: headerIndex(header, "gst rate", "gst %", "gst"),
+    cessRate: headerIndex(header, "cess rate", "cess"),
+    notes: headerIndex(header, "notes"),
+  };
+  const missing = (["customer", "qty", "rate"] as const).filter(k => col[k] < 0);
+  if (missing.length) {
+    return { forms: [], errors: [{ row: "header", message: `missing column(s): ${missing.join(", ")}` }] };
+  }
+
+  const errors: ImportIssue[] = [];
+  const groups = new Map<string, Form>();
+  data.forEach((r, i) => {
+    const row = `Row ${i + 2}`;
+    const get = (c: number) => (c >= 0 ? (r[c] ?? "").trim() : "");
+    const num = (c: number, fallback = 0) => {
+      const v = get(c).replace(/,/g, "").replace("%", "");
+      return v === "" ? fallback : Number(v);
+    };
+    const problems: string[] = [];
+    const name = get(col.customer);
+    const gstin = get(col.gstin).toUpperCase();
+    if (!name) problems.push("missing customer");
+    const gErr = gstinError(gstin);
+    if (gErr) problems.push(gErr);
+    const date = get(col.date) ? parseRegisterDate(get(col.date)) : today;
+    if (!date) problems.push(`unreadable date "${get(col.date)}"`);
+    const qty = num(col.qty), rate = num(col.rate), discount = num(col.discount);
+    const gstRate = num(col.gstRate, 18), cess = num(col.cessRate);
+    for (const [label, v] of [["quantity", qty], ["rate", rate], ["discount", discount], ["GST rate", gstRate], ["cess rate", cess]] as const) {
+      if (!Number.isFinite(v) || v < 0) problems.push(`invalid ${label}`);
+    }
+    const stateRaw = get(col.state);
+    const state = stateRaw ? resolveState(stateRaw)?.code : "";
+    if (state === undefined) problems.push(`unknown state "${stateRaw}"`);
+    if (problems.length) { problems.forEach(message => errors.push({ row, message })); return; }
+
+    const key = get(col.key) || `${name.toLowerCase()}|${gstin}`;
+    let form = groups.get(key);
+    if (!form) {
+      const base = NEW_FORM();
+      const known = (gstin && customers.find(c => c.gstin === gstin)) ||
+        customers.find(c => c.name.trim().toLowerCase() === name.toLowerCase());
+      const buyer = known ? { ...known } : { ...base.buyer };
+      form = {
+        ...base, date, dueDate: addDays(date, base.terms),
+        buyer: {
+          ...buyer, name,
+          gstin: gstin || buyer.gstin,
+          email: get(col.email) || buyer.email,
+          phone: get(col.phone) || buyer.phone,
+          line1: get(col.address) || buyer.line1,
+          city: get(col.city) || buyer.city,
+          pincode: get(col.pincode) || buyer.pincode,
+          state: state || (gstin ? gstin.slice(0, 2) : buyer.state),
+        },
+        notes: get(col.notes),
+        items: [],
+      };
+      groups.set(key, form);
+    } else if (get(col.date) && form.date !== date) {
+      errors.push({ row, message: `date differs from earlier rows of this invoice; using ${form.date}` });
+    }
+    form.items.push({
+      ...newItem(),
+      description: get(col.description), hsn: get(col.hsn), sku: get(col.sku),
+      unit: get(col.unit) || "Pcs.", qty, rate, discount, gstRate, cess,
+    });
+  });
+  return { forms: [...groups.values()], errors };
+};
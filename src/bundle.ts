@@ -0,0 +1,163 @@
+import { DOC_TYPES } from "./documents";
+import { invoiceTotals } from "./invoice";
+import { normalizeRecord, newRecordId, type InvoiceRecord } from "./invoiceDb";
+import { PAYMENT_MODES, todayIso } from "./ledger";
+import { ROW_KINDS } from "./pricing";
+
+/* ---------- JSON bundle -------------------------------------------------- */
+// Bump BUNDLE_VERSION when the record shape changes incompatibly and teach
+// parseBundle to read the older versions.
+export const BUNDLE_FORMAT = "invoice-app/bundle";
+export const BUNDLE_VERSION = 1;
+
+export type InvoiceBundle = {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;     // ISO timestamp
+  invoices: InvoiceRecord[];
+};
+
+export const makeBundle = (records: InvoiceRecord[]): InvoiceBundle => ({
+  format: BUNDLE_FORMAT,
+  version: BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  invoices: records,
+});
+
+export const bundleFileName = (records: InvoiceRecord[]) =>
+  records.length === 1
+    ? `${(records[0].invoiceNo || "draft").replace(/[^a-zA-Z0-9-_]/g, "_")}.json`
+    : `invoices-${todayIso()}.json`;
+
+/* ---------- validation --------------------------------------------------- */
+const STATUSES = ["draft", "issued", "cancelled"];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObj = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+const isNum = (v: unknown) => (typeof v === "number" && Number.isFinite(v)) ||
+  (typeof v === "string" && (v.trim() === "" || Number.isFinite(+v)));
+
+// every problem with one record, as "field: reason"
+export const recordErrors = (raw: unknown): string[] => {
+  if (!isObj(raw)) return ["not an object"];
+  const errs: string[] = [];
+  if (typeof raw.id !== "string" || !raw.id) errs.push("id: missing");
+  if (typeof raw.status !== "string" || !STATUSES.includes(raw.status)) errs.push(`status: unknown "${String(raw.status)}"`);
+  for (const k of ["createdAt", "updatedAt"]) {
+    const v = raw[k];
+    if (v !== undefined && !(typeof v === "number" && Number.isFinite(v) && v >= 0)) errs.push(`${k}: not a timestamp`);
+  }
+  if (raw.payments !== undefined && !Array.isArray(raw.payments)) errs.push("payments: not a list");
+  if (Array.isArray(raw.payments)) {
+    raw.payments.forEach((p, i) => {
+      if (!isObj(p)) { errs.push(`payments[${i}]: not an object`); return; }
+      if (typeof p.date !== "string" || !ISO_DATE.test(p.date)) errs.push(`payments[${i}].date: not YYYY-MM-DD`);
+      if (typeof p.amount !== "number" || !Number.isFinite(p.amount)) errs.push(`payments[${i}].amount: not a number`);
+      if (!(PAYMENT_MODES as readonly unknown[]).includes(p.mode)) errs.push(`payments[${i}].mode: unknown "${String(p.mode)}"`);
+    });
+  }
+  const f = raw.form;
+  if (!isObj(f)) return [...errs, "form: missing"];
+  if (f.docType !== undefined && !(DOC_TYPES as unknown[]).includes(f.docType)) errs.push(`form.docType: unknown "${String(f.docType)}"`);
+  if (typeof f.date !== "string" || !ISO_DATE.test(f.date)) errs.push("form.date: not YYYY-MM-DD");
+  if (f.invoiceNo !== undefined && typeof f.invoiceNo !== "string") errs.push("form.invoiceNo: not text");
+  if (!Array.isArray(f.items)) return [...errs, "form.items: not a list"];
+  f.items.forEach((it, i) => {
+    if (!isObj(it)) { errs.push(`form.items[${i}]: not an object`); return; }
+    if (it.kind !== undefined && !(ROW_KINDS as unknown[]).includes(it.kind)) errs.push(`form.items[${i}].kind: unknown "${String(it.kind)}"`);
+    for (const k of ["qty", "rate", "discount", "gstRate", "cess"]) {
+      if (it[k] !== undefined && !isNum(it[k])) errs.push(`form.items[${i}].${k}: not a number`);
+    }
+  });
+  return errs;
+};
+
+export type ImportIssue = { row: string; message: string };
+
+export type ParsedImport = { records: InvoiceRecord[]; errors: ImportIssue[] };
+
+// Reads a bundle (or a single exported record). Invalid records are reported
+// and left out; the valid ones are still returned. The summary fields are
+// rebuilt from the form, as toRecord does, so a hand-edited file cannot carry
+// a total that disagrees with its items; missing timestamps become "now".
+export const parseBundle = (text: string): ParsedImport => {
+  let data: unknown;
+  try { data = JSON.parse(text); } catch (err) {
+    return { records: [], errors: [{ row: "file", message: `not valid JSON (${(err as Error).message})` }] };
+  }
+  let list: unknown[];
+  if (isObj(data) && data.format === BUNDLE_FORMAT) {
+    if (typeof data.version !== "number" || data.version > BUNDLE_VERSION) {
+      return { records: [], errors: [{ row: "file", message: `bundle version ${String(data.version)} is newer than this app supports` }] };
+    }
+    if (!Array.isArray(data.invoices)) return { records: [], errors: [{ row: "file", message: "invoices: not a list" }] };
+    list = data.invoices;
+  } else if (isObj(data) && isObj(data.form)) {
+    list = [data];
+  } else {
+    return { records: [], errors: [{ row: "file", message: "not an invoice bundle" }] };
+  }
+
+  const records: InvoiceRecord[] = [];
+  const errors: ImportIssue[] = [];
+  const now = Date.now();
+  list.forEach((raw, i) => {
+    const label = `Invoice ${i + 1}${isObj(raw) && raw.invoiceNo ? ` (${String(raw.invoiceNo)})` : ""}`;
+    const errs = recordErrors(raw);
+    if (errs.length) { errs.forEach(message => errors.push({ row: label, message })); return; }
+    const rec = normalizeRecord(raw as InvoiceRecord);
+    const createdAt = rec.createdAt ?? now;
+    records.push({
+      ...rec, invoiceNo: rec.form.invoiceNo, customer: rec.form.buyer.name, date: rec.form.date,
+      grand: invoiceTotals(rec.form).grand, createdAt, updatedAt: rec.updatedAt ?? createdAt,
+    });
+  });
+  return { records, errors };
+};
+
+/* ---------- conflicts ---------------------------------------------------- */
+// skip: keep what is here • replace: overwrite the local record •
+// copy: import alongside; a clashing number is cleared and the copy becomes a draft
+export type ConflictPolicy = "skip" | "replace" | "copy";
+
+export const CONFLICT_POLICIES: { id: ConflictPolicy; label: string }[] = [
+  { id: "skip", label: "Skip invoices that already exist" },
+  { id: "replace", label: "Replace the existing invoice" },
+  { id: "copy", label: "Import as a copy (draft, number cleared)" },
+];
+
+// an incoming record conflicts when its id, or its type + number, is already taken
+export const findConflict = (rec: InvoiceRecord, existing: InvoiceRecord[]) =>
+  existing.find(e => e.id === rec.id) ??
+  (rec.invoiceNo
+    ? existing.find(e => e.invoiceNo === rec.invoiceNo && e.form.docType === rec.form.docType)
+    : undefined);
+
+export type ImportPlan = { put: InvoiceRecord[]; added: number; replaced: number; copied: number; skipped: number };
+
+export const planImport = (
+  incoming: InvoiceRecord[], existing: InvoiceRecord[], policy: ConflictPolicy,
+): ImportPlan => {
+  const plan: ImportPlan = { put: [], added: 0, replaced: 0, copied: 0, skipped: 0 };
+  const taken = [...existing];
+  for (const rec of incoming) {
+    const hit = findConflict(rec, taken);
+    if (!hit) {
+      plan.put.push(rec); plan.added++;
+    } else if (policy === "replace") {
+      plan.put.push({ ...rec, id: hit.id }); plan.replaced++;
+    } else if (policy === "copy") {
+      const clash = !!rec.invoiceNo && findConflict({ ...rec, id: "" }, taken);
+      plan.put.push(clash
+        ? { ...rec, id: newRecordId(), invoiceNo: "", status: "draft", payments: [], form: { ...rec.form, invoiceNo: "" } }
+        : { ...rec, id: newRecordId() });
+      plan.copied++;
+    } else {
+      plan.skipped++;
+      continue;
+    }
+    taken.push(plan.put[plan.put.length - 1]);
+  }
+  return plan;
+};
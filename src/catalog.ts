@@ -0,0 +1,100 @@
+import { GST_RATES } from "./gst";
+import { headerIndex, parseCsv } from "./csv";
+import { readJson, writeJson } from "./storage";
+
+/* ---------- types -------------------------------------------------------- */
+export type Product = {
+  id: string;
+  sku: string;
+  description: string;
+  hsn: string;
+  unit: string;
+  rate: number;
+  gstRate: number;
+};
+
+export const EMPTY_PRODUCT = (): Product => ({
+  id: "", sku: "", description: "", hsn: "", unit: "Pcs.", rate: 0, gstRate: 18,
+});
+
+export const newProductId = () =>
+  `sku_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const DEFAULT_UNITS = ["Pcs.", "Kg", "Ltr", "Mtr", "Set", "Box", "Nos"];
+
+/* ---------- lookup ------------------------------------------------------- */
+const norm = (s: string) => s.trim().toLowerCase();
+
+export const findBySku = (list: Product[], sku: string) =>
+  norm(sku) ? list.find(p => norm(p.sku) === norm(sku)) : undefined;
+
+export const findByDescription = (list: Product[], text: string) =>
+  norm(text) ? list.find(p => norm(p.description) === norm(text)) : undefined;
+
+export const matchesProduct = (p: Product, query: string) => {
+  const q = norm(query);
+  return !q || [p.sku, p.description, p.hsn].some(v => v.toLowerCase().includes(q));
+};
+
+// upsert keyed by SKU (falls back to id for products without one)
+export const upsertProduct = (list: Product[], p: Product): Product[] => {
+  const same = (x: Product) => x.id === p.id || (!!p.sku.trim() && norm(x.sku) === norm(p.sku));
+  const prev = list.find(same);
+  const next = { ...p, id: prev?.id || p.id || newProductId() };
+  return prev ? list.map(x => (x === prev ? next : x)) : [...list, next];
+};
+
+/* ---------- CSV import --------------------------------------------------- */
+export type CatalogImport = { products: Product[]; errors: string[] };
+
+// Columns: sku, description, hsn, unit, rate, gst (header names are matched loosely)
+export const parseCatalogCsv = (text: string): CatalogImport => {
+  const rows = parseCsv(text);
+  const errors: string[] = [];
+  if (rows.length < 2) return { products: [], errors: ["CSV has no data rows"] };
+
+  const [header, ...data] = rows;
+  const col = {
+    sku: headerIndex(header, "sku", "code", "item code"),
+    description: headerIndex(header, "description", "name", "item", "product"),
+    hsn: headerIndex(header, "hsn", "hsn/sac", "sac"),
+    unit: headerIndex(header, "unit", "uom"),
+    rate: headerIndex(header, "rate", "price", "default rate"),
+    gstRate: headerIndex(header, "gst", "gst rate", "gst %", "tax rate"),
+  };
+  if (col.description < 0 && col.sku < 0) {
+    return { products: [], errors: ["CSV needs a 'description' or 'sku' column"] };
+  }
+
+  const products: Product[] = [];
+  data.forEach((r, i) => {
+    const line = i + 2;
+    const get = (c: number) => (c >= 0 ? (r[c] ?? "").trim() : "");
+    const rate = get(col.rate) ? Number(get(col.rate).replace(/,/g, "")) : 0;
+    const gst = get(col.gstRate) ? Number(get(col.gstRate).replace("%", "")) : 18;
+    if (!get(col.description) && !get(col.sku)) { errors.push(`Row ${line}: missing description and SKU`); return; }
+    if (!Number.isFinite(rate) || rate < 0) { errors.push(`Row ${line}: invalid rate "${get(col.rate)}"`); return; }
+    if (!(GST_RATES as readonly number[]).includes(gst)) { errors.push(`Row ${line}: invalid GST rate "${get(col.gstRate)}"`); return; }
+    products.push({
+      id: "",
+      sku: get(col.sku),
+      description: get(col.description),
+      hsn: get(col.hsn),
+      unit: get(col.unit) || "Pcs.",
+      rate,
+      gstRate: gst,
+    });
+  });
+  return { products, errors };
+};
+
+/* ---------- local storage ------------------------------------------------ */
+const CATALOG_KEY = "invoice_catalog_v1";
+const UNITS_KEY = "invoice_units_v1";
+
+export const loadCatalog = (): Product[] =>
+  readJson<Product[]>(CATALOG_KEY, []).map(p => ({ ...EMPTY_PRODUCT(), ...p }));
+export const saveCatalog = (list: Product[]) => writeJson(CATALOG_KEY, list);
+
+export const loadUnits = (): string[] => readJson<string[]>(UNITS_KEY, DEFAULT_UNITS);
+export const saveUnits = (list: string[]) => writeJson(UNITS_KEY, list);
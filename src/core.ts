@@ -0,0 +1,27 @@
+/* ---------- headless core ------------------------------------------------ */
+// The invoice model, calculations, validation and PDF rendering without React
+// or the DOM: what the CLI (cli/invoice-pdf.ts) and backend jobs build on.
+// Nothing reachable from here may read CSS, touch `document` or need Vite;
+// settings that live in localStorage read as their defaults outside the
+// browser, so pass payment details, layout and theme in explicitly.
+export {
+  NEW_FORM, invoiceTotals, newItem, normalizeForm, placeOfSupply, serials,
+  type Form, type Item, type LegacyForm, type Totals,
+} from "./invoice";
+export {
+  discountAmount, isLine, linePrice, priceInvoice, roundTotal,
+  type DiscountMode, type Pricing, type PriceMode, type RoundingPolicy, type RowKind,
+} from "./pricing";
+export { computeTax, hsnSummary, supplyType, type TaxResult } from "./gst";
+export { DOC_META, DOC_TYPES, type DocType } from "./documents";
+export { amountInWords, currencyInfo, numberFmt, roundMinor } from "./currency";
+export { gateCheck, validateForm, type FieldIssue, type Gate, type ValidationContext } from "./validation";
+export { EMPTY_PAYMENT, upiUri, type PaymentSettings } from "./payment";
+export { DEFAULT_LAYOUT, PDF_TEMPLATES, type PdfLayout, type PdfTemplate } from "./pdfLayout";
+export { DEFAULT_PDF_FONT, PDF_FONTS, type FontLoader, type PdfFont } from "./pdfFonts";
+export {
+  DEFAULT_ACCENT, buildInvoicePdf, darkTheme, fmtDate, lightTheme, parseColor,
+  type PdfInput, type PdfResult, type PdfTheme, type RGB,
+} from "./invoicePdf";
+export { readInvoiceJson, type InvoiceFile } from "./invoiceJson";
+export { brandLayout, brandTheme, contrastRatio, contrastWarnings, type BrandProfile } from "./brands";
@@ -0,0 +1,49 @@
+/* ---------- CSV / TSV ---------------------------------------------------- */
+// RFC 4180-ish: quoted fields, "" escapes, CRLF or LF line ends.
+export const parseCsv = (text: string, delimiter = ","): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell); rows.push(row); row = []; cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length) { row.push(cell); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim() !== ""));
+};
+
+const escapeCell = (v: unknown, delimiter: string) => {
+  const s = v == null ? "" : String(v);
+  return s.includes(delimiter) || /["\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCsv = (rows: unknown[][], delimiter = ","): string =>
+  rows.map(r => r.map(v => escapeCell(v, delimiter)).join(delimiter)).join("\r\n");
+
+// header lookup that tolerates case, spaces and punctuation ("HSN/SAC" → "hsnsac")
+export const headerKey = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const headerIndex = (header: string[], ...names: string[]) => {
+  const keys = header.map(headerKey);
+  for (const n of names) {
+    const i = keys.indexOf(headerKey(n));
+    if (i >= 0) return i;
+  }
+  return -1;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { amountInWords, numberInWords, roundMinor } from "./currency";
+
+describe("numberInWords", () => {
+  it("groups by lakh and crore in the Indian system", () => {
+    expect(numberInWords(1234567, "indian")).toBe("Twelve Lakh Thirty Four Thousand Five Hundred Sixty Seven");
+    expect(numberInWords(10_00_00_000, "indian")).toBe("Ten Crore");
+    expect(numberInWords(125_00_00_000, "indian")).toBe("One Hundred Twenty Five Crore");
+  });
+  it("groups by thousands and millions in the international system", () => {
+    expect(numberInWords(1234567, "international")).toBe("One Million Two Hundred Thirty Four Thousand Five Hundred Sixty Seven");
+  });
+  it("spells zero", () => {
+    expect(numberInWords(0, "indian")).toBe("Zero");
+  });
+});
+
+describe("amountInWords", () => {
+  it("adds the minor unit when there is one", () => {
+    expect(amountInWords(120000.5, "INR", "indian")).toBe("Rupees One Lakh Twenty Thousand and Fifty Paise Only");
+    expect(amountInWords(1500, "INR", "indian")).toBe("Rupees One Thousand Five Hundred Only");
+    expect(amountInWords(19.99, "USD", "international")).toBe("US Dollars Nineteen and Ninety Nine Cents Only");
+  });
+  it("has no minor unit for yen", () => {
+    expect(amountInWords(1179.4, "JPY", "international")).toBe("Yen One Thousand One Hundred Seventy Nine Only");
+  });
+  it("reads three-decimal currencies in fils", () => {
+    expect(amountInWords(2.913, "KWD", "international")).toBe("Dinars Two and Nine Hundred Thirteen Fils Only");
+    expect(amountInWords(0.005, "OMR", "international")).toBe("Rials Zero and Five Baisa Only");
+  });
+});
+
+describe("roundMinor", () => {
+  it("rounds to the given number of decimals", () => {
+    expect(roundMinor(1.005)).toBe(1.01);
+    expect(roundMinor(179.82, 0)).toBe(180);
+    expect(roundMinor(0.44442, 3)).toBe(0.444);
+  });
+});
@@ -0,0 +1,134 @@
+/* ---------- ISO 4217 currencies ----------------------------------------- */
+export type Currency = {
+  code: string;
+  name: string;
+  symbol: string;
+  decimals: number;      // minor unit digits
+  major: string;         // words: "Rupees", "US Dollars", …
+  minor: string;         // words: "Paise", "Cents", … ("" when decimals = 0)
+};
+
+export const CURRENCIES: Currency[] = [
+  { code: "INR", name: "Indian Rupee", symbol: "₹", decimals: 2, major: "Rupees", minor: "Paise" },
+  { code: "USD", name: "US Dollar", symbol: "$", decimals: 2, major: "US Dollars", minor: "Cents" },
+  { code: "EUR", name: "Euro", symbol: "€", decimals: 2, major: "Euros", minor: "Cents" },
+  { code: "GBP", name: "Pound Sterling", symbol: "£", decimals: 2, major: "Pounds", minor: "Pence" },
+  { code: "AED", name: "UAE Dirham", symbol: "AED ", decimals: 2, major: "Dirhams", minor: "Fils" },
+  { code: "SAR", name: "Saudi Riyal", symbol: "SAR ", decimals: 2, major: "Riyals", minor: "Halalas" },
+  { code: "QAR", name: "Qatari Riyal", symbol: "QAR ", decimals: 2, major: "Riyals", minor: "Dirhams" },
+  { code: "KWD", name: "Kuwaiti Dinar", symbol: "KWD ", decimals: 3, major: "Dinars", minor: "Fils" },
+  { code: "BHD", name: "Bahraini Dinar", symbol: "BHD ", decimals: 3, major: "Dinars", minor: "Fils" },
+  { code: "OMR", name: "Omani Rial", symbol: "OMR ", decimals: 3, major: "Rials", minor: "Baisa" },
+  { code: "SGD", name: "Singapore Dollar", symbol: "S$", decimals: 2, major: "Singapore Dollars", minor: "Cents" },
+  { code: "HKD", name: "Hong Kong Dollar", symbol: "HK$", decimals: 2, major: "Hong Kong Dollars", minor: "Cents" },
+  { code: "AUD", name: "Australian Dollar", symbol: "A$", decimals: 2, major: "Australian Dollars", minor: "Cents" },
+  { code: "NZD", name: "New Zealand Dollar", symbol: "NZ$", decimals: 2, major: "New Zealand Dollars", minor: "Cents" },
+  { code: "CAD", name: "Canadian Dollar", symbol: "C$", decimals: 2, major: "Canadian Dollars", minor: "Cents" },
+  { code: "CHF", name: "Swiss Franc", symbol: "CHF ", decimals: 2, major: "Swiss Francs", minor: "Rappen" },
+  { code: "JPY", name: "Japanese Yen", symbol: "¥", decimals: 0, major: "Yen", minor: "" },
+  { code: "CNY", name: "Chinese Yuan", symbol: "CN¥", decimals: 2, major: "Yuan", minor: "Fen" },
+  { code: "MYR", name: "Malaysian Ringgit", symbol: "RM", decimals: 2, major: "Ringgit", minor: "Sen" },
+  { code: "THB", name: "Thai Baht", symbol: "฿", decimals: 2, major: "Baht", minor: "Satang" },
+  { code: "ZAR", name: "South African Rand", symbol: "R", decimals: 2, major: "Rand", minor: "Cents" },
+  { code: "LKR", name: "Sri Lankan Rupee", symbol: "LKR ", decimals: 2, major: "Sri Lankan Rupees", minor: "Cents" },
+  { code: "NPR", name: "Nepalese Rupee", symbol: "NPR ", decimals: 2, major: "Nepalese Rupees", minor: "Paisa" },
+  { code: "BDT", name: "Bangladeshi Taka", symbol: "৳", decimals: 2, major: "Taka", minor: "Poisha" },
+];
+
+export const BASE_CURRENCY = "INR";
+
+export const currencyInfo = (code: string): Currency =>
+  CURRENCIES.find(c => c.code === code) ?? CURRENCIES[0];
+
+// to the currency's minor unit: 2 decimals for rupees, 0 for yen, 3 for dinars
+export const roundMinor = (n: number, decimals = 2) => {
+  const f = 10 ** decimals;
+  return Math.round((n + Number.EPSILON) * f) / f;
+};
+
+// older saves only kept a display symbol
+export const currencyFromSymbol = (symbol: string) =>
+  CURRENCIES.find(c => c.symbol.trim() === symbol.trim())?.code ?? BASE_CURRENCY;
+
+/* ---------- number formatting ------------------------------------------- */
+// indian: 12,34,567.00 (lakh/crore) • international: 1,234,567.00 (thousands/millions)
+export type NumberSystem = "indian" | "international";
+
+export const NUMBER_SYSTEMS: { id: NumberSystem; label: string }[] = [
+  { id: "indian", label: "Lakh / crore (12,34,567)" },
+  { id: "international", label: "Thousands (1,234,567)" },
+];
+
+export const defaultSystem = (code: string): NumberSystem =>
+  code === "INR" || code === "NPR" ? "indian" : "international";
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export const numberFmt = (decimals: number, system: NumberSystem) => {
+  const key = `${decimals}|${system}`;
+  let nf = formatters.get(key);
+  if (!nf) {
+    nf = new Intl.NumberFormat(system === "indian" ? "en-IN" : "en-US", {
+      minimumFractionDigits: decimals, maximumFractionDigits: decimals,
+    });
+    formatters.set(key, nf);
+  }
+  return (n: number) => nf.format(+n || 0);
+};
+
+// export invoices: the INR equivalent at the rate entered on the invoice ("" when not applicable)
+export const inrEquivalent = (amount: number, code: string, rate: number) =>
+  code !== BASE_CURRENCY && rate > 0
+    ? `Exchange rate: 1 ${code} = ₹${numberFmt(4, "indian")(rate)} • ` +
+      `Total in INR: ₹${numberFmt(2, "indian")(amount * rate)}`
+    : "";
+
+/* ---------- amount in words --------------------------------------------- */
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+// 0–999
+const below1000 = (n: number): string => {
+  const words: string[] = [];
+  if (n >= 100) { words.push(ONES[Math.floor(n / 100)], "Hundred"); n %= 100; }
+  if (n >= 20) { words.push(TENS[Math.floor(n / 10)]); n %= 10; }
+  if (n > 0) words.push(ONES[n]);
+  return words.join(" ");
+};
+
+// largest scale first; each step is [divisor, name]
+const SCALES: Record<NumberSystem, [number, string][]> = {
+  indian: [[1e7, "Crore"], [1e5, "Lakh"], [1e3, "Thousand"]],
+  international: [[1e12, "Trillion"], [1e9, "Billion"], [1e6, "Million"], [1e3, "Thousand"]],
+};
+
+export const numberInWords = (n: number, system: NumberSystem): string => {
+  n = Math.floor(Math.abs(n));
+  if (n === 0) return "Zero";
+  const words: string[] = [];
+  for (const [div, name] of SCALES[system]) {
+    if (n >= div) {
+      const q = Math.floor(n / div);
+      // above 99 crore the crore count itself is spelt out ("One Hundred Crore")
+      words.push(q >= 1000 ? numberInWords(q, system) : below1000(q), name);
+      n %= div;
+    }
+  }
+  if (n > 0) words.push(below1000(n));
+  return words.join(" ");
+};
+
+// "Rupees One Lakh Twenty Thousand and Fifty Paise Only"
+export const amountInWords = (amount: number, code: string, system: NumberSystem): string => {
+  const c = currencyInfo(code);
+  const scale = 10 ** c.decimals;
+  const total = Math.round(Math.abs(+amount || 0) * scale);
+  const major = Math.floor(total / scale);
+  const minor = total % scale;
+  let text = `${c.major} ${numberInWords(major, system)}`;
+  if (minor && c.minor) text += ` and ${numberInWords(minor, system)} ${c.minor}`;
+  return `${text} Only`;
+};
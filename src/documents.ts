@@ -0,0 +1,60 @@
+/* ---------- document types ---------------------------------------------- */
+export type DocType = "quotation" | "proforma" | "invoice" | "credit_note" | "debit_note";
+
+export type DocMeta = {
+  label: string;        // menus and lists
+  title: string;        // heading printed on the document
+  noLabel: string;
+  dueLabel: string;
+  totalLabel: string;
+  sign: 1 | -1;         // credit notes reduce what the customer owes
+  payable: boolean;     // show UPI QR / accept payments
+  needsRef: boolean;    // must cite the original invoice
+};
+
+export const DOC_META: Record<DocType, DocMeta> = {
+  quotation: {
+    label: "Quotation", title: "QUOTATION", noLabel: "Quotation No", dueLabel: "Valid Until",
+    totalLabel: "Quoted Total", sign: 1, payable: false, needsRef: false,
+  },
+  proforma: {
+    label: "Proforma Invoice", title: "PROFORMA INVOICE", noLabel: "Proforma No", dueLabel: "Due Date",
+    totalLabel: "Amount Payable", sign: 1, payable: true, needsRef: false,
+  },
+  invoice: {
+    label: "Tax Invoice", title: "TAX INVOICE", noLabel: "Invoice No", dueLabel: "Due Date",
+    totalLabel: "Grand Total", sign: 1, payable: true, needsRef: false,
+  },
+  credit_note: {
+    label: "Credit Note", title: "CREDIT NOTE", noLabel: "Credit Note No", dueLabel: "Due Date",
+    totalLabel: "Total Credit", sign: -1, payable: false, needsRef: true,
+  },
+  debit_note: {
+    label: "Debit Note", title: "DEBIT NOTE", noLabel: "Debit Note No", dueLabel: "Due Date",
+    totalLabel: "Total Debit", sign: 1, payable: true, needsRef: true,
+  },
+};
+
+export const DOC_TYPES = Object.keys(DOC_META) as DocType[];
+
+// documents that create a receivable (and so can take payments)
+export const isReceivable = (t: DocType) => t === "invoice" || t === "debit_note";
+
+/* ---------- references --------------------------------------------------- */
+export type DocRef = {
+  docType: DocType;
+  no: string;
+  date: string;
+};
+
+export const refLine = (ref: DocRef | null) =>
+  ref && ref.no ? `Against ${DOC_META[ref.docType].label} ${ref.no}${ref.date ? ` dt. ${ref.date}` : ""}` : "";
+
+// allowed one-click conversions from each type
+export const CONVERSIONS: Record<DocType, DocType[]> = {
+  quotation: ["proforma", "invoice"],
+  proforma: ["invoice"],
+  invoice: ["credit_note", "debit_note"],
+  credit_note: [],
+  debit_note: [],
+};
@@ -0,0 +1,16 @@
+/* ---------- file downloads ---------------------------------------------- */
+export const downloadBlob = (name: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url; a.download = name; a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// invoice numbers like "INV/24-25/0042" as file names
+export const safeFileName = (s: string) => s.replace(/[^a-zA-Z0-9-_]/g, "_");
+
+export const downloadText = (name: string, text: string, type = "text/plain") =>
+  downloadBlob(name, new Blob([text], { type: `${type};charset=utf-8` }));
+
+// the BOM makes Excel open UTF-8 CSVs (₹, regional names) correctly
+export const downloadCsv = (name: string, csv: string) => downloadText(name, `\uFEFF${csv}`, "text/csv");
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { newItem, type Form } from "./invoice";
+import type { InvoiceRecord } from "./invoiceDb";
+import { EMPTY_PARTY, gstinCheckChar } from "./parties";
+import { buildEInvoice, checkEInvoice, irnError, validateEInvoice } from "./einvoice";
+import { buildGstr1 } from "./gstr1";
+import { makeForm, makeRecord } from "./testFixtures";
+
+const SELLER_GSTIN = `27AAACB1234C1Z${gstinCheckChar("27AAACB1234C1Z")}`;
+const KA_GSTIN = `29AABCT1332L1Z${gstinCheckChar("29AABCT1332L1Z")}`;
+
+// the shared fixture with the full addresses and six-digit SAC the IRP asks for
+const registered = (p: Partial<Form>): Partial<Form> => ({
+  seller: {
+    ...EMPTY_PARTY(), name: "Seller Pvt Ltd", gstin: SELLER_GSTIN, line1: "1 MG Road", city: "Mumbai",
+    pincode: "400001", state: "27",
+  },
+  buyer: {
+    ...EMPTY_PARTY(), name: "Buyer, Pune", gstin: "27AAPFU0939F1ZV", line1: "2 FC Road", city: "Pune",
+    pincode: "411004", state: "27",
+  },
+  items: [
+    { ...newItem(), description: "Widget", hsn: "8471", qty: 2, rate: 500, unit: "Pcs." },
+    { ...newItem(), description: "Service", hsn: "998314", qty: 1, rate: 1000, gstRate: 5 },
+  ],
+  ...p,
+});
+
+const form = (p: Partial<Form> = {}): Form => makeForm(registered(p));
+
+const issued = (p: Partial<Form> = {}): InvoiceRecord => makeRecord(registered(p));
+
+describe("e-invoice JSON", () => {
+  it("builds a schema-valid INV-01 payload with the GST split per item", () => {
+    const { doc, errors } = checkEInvoice(form());
+    expect(errors).toEqual([]);
+    const items = doc.ItemList as Record<string, unknown>[];
+    expect(doc.DocDtls).toEqual({ Typ: "INV", No: "INV/25-26/0001", Dt: "05/04/2025" });
+    expect(items[0]).toMatchObject({ SlNo: "1", IsServc: "N", Unit: "PCS", AssAmt: 1000, CgstAmt: 90, SgstAmt: 90 });
+    expect(items[1]).toMatchObject({ IsServc: "Y", GstRt: 5, TotItemVal: 1050 });
+    expect(doc.ValDtls).toMatchObject({ AssVal: 2000, CgstVal: 115, SgstVal: 115, TotInvVal: 2230 });
+  });
+
+  it("spreads discounts into the items and carries IGST for inter-state supply", () => {
+    const doc = buildEInvoice(form({
+      overallDiscount: 10, overallDiscountMode: "percent",
+      buyer: { ...form().buyer, gstin: KA_GSTIN, state: "29" },
+    }));
+    const it0 = (doc.ItemList as Record<string, number>[])[0];
+    expect(it0.TotAmt).toBe(1000);
+    expect(it0.Discount).toBe(100);
+    expect(it0.IgstAmt).toBe(162);
+    expect(it0.CgstAmt).toBe(0);
+    expect(validateEInvoice(doc)).toEqual([]);
+  });
+
+  it("reports schema and business-rule problems by field", () => {
+    const doc = buildEInvoice(form({ buyer: { ...form().buyer, pincode: "", gstin: "27AAPFU0939F1ZX" } }));
+    const errors = validateEInvoice(doc);
+    expect(errors.some(e => e.startsWith("BuyerDtls.Pin"))).toBe(true);
+
+    const fixed = buildEInvoice(form({ buyer: { ...form().buyer, gstin: "27AAPFU0939F1ZX" } }));
+    expect(validateEInvoice(fixed)).toContain("BuyerDtls.Gstin: GSTIN checksum does not match");
+
+    const tampered = { ...fixed, ValDtls: { ...(fixed.ValDtls as object), TotInvVal: 9999 } };
+    expect(validateEInvoice(tampered)).toContain("ValDtls.TotInvVal: does not add up");
+  });
+
+  it("refuses documents that are not e-invoiced", () => {
+    expect(checkEInvoice(form({ docType: "quotation" })).errors[0]).toMatch(/Only tax invoices/);
+    expect(irnError("abc")).not.toBe("");
+    expect(irnError("a".repeat(64))).toBe("");
+  });
+});
+
+describe("GSTR-1 JSON", () => {
+  it("sorts a month's invoices into B2B, B2CS and the HSN summary", () => {
+    const b2c = issued({ invoiceNo: "INV/25-26/0002", buyer: { ...form().buyer, gstin: "" } });
+    const other = issued({ invoiceNo: "INV/25-26/0003", date: "2025-05-01" });
+    const credit = issued({ docType: "credit_note", invoiceNo: "CN/25-26/0001" });
+    const { data, included, skipped } = buildGstr1([issued(), b2c, other, credit], SELLER_GSTIN, "2025-04");
+
+    expect(data.fp).toBe("042025");
+    expect(included).toBe(2);
+    expect(skipped).toHaveLength(1);
+    expect(data.b2b).toHaveLength(1);
+    const inv = data.b2b[0].inv[0];
+    expect(inv).toMatchObject({ inum: "INV/25-26/0001", idt: "05-04-2025", val: 2230, pos: "27" });
+    expect(inv.itms.map(i => i.itm_det.rt)).toEqual([5, 18]);
+    expect(data.b2cs).toContainEqual(expect.objectContaining({ sply_ty: "INTRA", pos: "27", rt: 18, txval: 1000, camt: 90 }));
+    expect(data.hsn.hsn_b2b.find(h => h.hsn_sc === "8471")).toMatchObject({ uqc: "PCS", qty: 2, txval: 1000 });
+    expect(data.hsn.hsn_b2c.find(h => h.hsn_sc === "998314")).toMatchObject({ uqc: "NA", qty: 0 });
+  });
+
+  it("puts large inter-state B2C invoices in B2CL", () => {
+    const big = issued({
+      buyer: { ...form().buyer, gstin: "", state: "29" },
+      items: [{ ...newItem(), description: "Machine", hsn: "8479", qty: 1, rate: 200000 }],
+    });
+    const { data } = buildGstr1([big], SELLER_GSTIN, "2025-04");
+    expect(data.b2cl).toEqual([expect.objectContaining({ pos: "29" })]);
+    expect(data.b2cs).toEqual([]);
+  });
+});
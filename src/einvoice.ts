@@ -0,0 +1,222 @@
+import Ajv from "ajv";
+import { isServiceCode, resolveState, uqcOf } from "./gst";
+import { gstinError } from "./parties";
+import { invoiceTotals, placeOfSupply, type Form } from "./invoice";
+import { isLine } from "./pricing";
+import type { DocType } from "./documents";
+import { BASE_CURRENCY } from "./currency";
+import { EINVOICE_SCHEMA } from "./einvoiceSchema";
+
+/* ---------- IRN details -------------------------------------------------- */
+// What the IRP returns after registration, pasted back in by the user and
+// printed on the PDF. We never talk to the portal ourselves.
+export type IrnDetails = {
+  irn: string;          // 64-character hash
+  ackNo: string;
+  ackDate: string;      // as shown by the portal, e.g. "2025-04-05 12:30:00"
+  signedQr: string;     // signed JWT to be encoded in the QR
+};
+
+export const EMPTY_IRN = (): IrnDetails => ({ irn: "", ackNo: "", ackDate: "", signedQr: "" });
+
+export const hasIrn = (d: IrnDetails | null): d is IrnDetails => !!d && !!d.irn.trim();
+
+export const irnError = (irn: string) =>
+  !irn.trim() || /^[0-9a-f]{64}$/i.test(irn.trim()) ? "" : "IRN must be 64 hexadecimal characters";
+
+/* ---------- INV-01 JSON -------------------------------------------------- */
+const EINV_TYPES: Partial<Record<DocType, string>> = { invoice: "INV", credit_note: "CRN", debit_note: "DBN" };
+
+export const canEInvoice = (t: DocType) => t in EINV_TYPES;
+
+const r2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+const r3 = (n: number) => Math.round((n + Number.EPSILON) * 1000) / 1000;
+
+// 2025-04-05 → 05/04/2025
+const einvDate = (iso: string) => iso.split("-").reverse().join("/");
+
+// optional text fields are left out rather than sent empty (the IRP rejects "")
+const opt = (v: string) => (v.trim() ? v.trim() : undefined);
+const digits = (v: string) => opt(v.replace(/\D/g, ""));
+const stcd = (v: string) => resolveState(v)?.code ?? v;
+
+export type EInvoice = Record<string, unknown>;
+
+// Items are carried at their taxable value: the line discount and the share of
+// any overall discount both go into Discount, so ValDtls.Discount stays 0.
+export const buildEInvoice = (form: Form): EInvoice => {
+  const totals = invoiceTotals(form);
+  const { tax } = totals;
+  const { seller, buyer } = form;
+  const inclusive = form.priceMode === "inclusive";
+
+  const items = form.items
+    .map((it, i) => ({ it, l: tax.lines[i] }))
+    .filter(({ it, l }) => isLine(it) && (it.description.trim() || l.taxable > 0))
+    .map(({ it, l }, i) => {
+      const qty = +it.qty || 0;
+      const rate = +it.rate || 0;
+      const unitPrice = r3(inclusive ? rate / (1 + (l.rate + l.cessRate) / 100) : rate);
+      const totAmt = r2(qty * unitPrice);
+      const service = isServiceCode(it.hsn);
+      return {
+        SlNo: String(i + 1),
+        PrdDesc: opt(it.description),
+        IsServc: service ? "Y" : "N",
+        HsnCd: it.hsn.trim(),
+        Qty: r3(qty),
+        Unit: service ? undefined : uqcOf(it.unit),
+        UnitPrice: unitPrice,
+        TotAmt: totAmt,
+        Discount: r2(Math.max(0, totAmt - l.taxable)),
+        AssAmt: l.taxable,
+        GstRt: l.rate,
+        IgstAmt: l.igst,
+        CgstAmt: l.cgst,
+        SgstAmt: l.sgst,
+        CesRt: l.cessRate,
+        CesAmt: l.cess,
+        TotItemVal: l.total,
+      };
+    });
+
+  const ship = form.shipToSame ? undefined : {
+    LglNm: opt(form.shipTo.name) ?? buyer.name.trim(),
+    Addr1: form.shipTo.line1.trim(),
+    Addr2: opt(form.shipTo.line2),
+    Loc: form.shipTo.city.trim(),
+    Pin: +form.shipTo.pincode || 0,
+    Stcd: stcd(form.shipTo.state),
+  };
+  const prec = form.ref?.no && form.docType !== "invoice"
+    ? { PrecDocDtls: [{ InvNo: form.ref.no, InvDt: einvDate(form.ref.date) }] }
+    : undefined;
+
+  return {
+    Version: "1.1",
+    TranDtls: { TaxSch: "GST", SupTyp: "B2B", RegRev: "N", IgstOnIntra: "N" },
+    DocDtls: { Typ: EINV_TYPES[form.docType] ?? "", No: form.invoiceNo, Dt: einvDate(form.date) },
+    SellerDtls: {
+      Gstin: seller.gstin.trim(),
+      LglNm: seller.name.trim(),
+      Addr1: seller.line1.trim(),
+      Addr2: opt(seller.line2),
+      Loc: seller.city.trim(),
+      Pin: +seller.pincode || 0,
+      Stcd: stcd(seller.state),
+      Ph: digits(seller.phone),
+      Em: opt(seller.email),
+    },
+    BuyerDtls: {
+      Gstin: buyer.gstin.trim(),
+      LglNm: buyer.name.trim(),
+      Pos: stcd(placeOfSupply(form)),
+      Addr1: buyer.line1.trim(),
+      Addr2: opt(buyer.line2),
+      Loc: buyer.city.trim(),
+      Pin: +buyer.pincode || 0,
+      Stcd: stcd(buyer.state),
+      Ph: digits(buyer.phone),
+      Em: opt(buyer.email),
+    },
+    ShipDtls: ship,
+    ItemList: items,
+    ValDtls: {
+      AssVal: tax.taxable,
+      CgstVal: tax.cgst,
+      SgstVal: tax.sgst,
+      IgstVal: tax.igst,
+      CesVal: tax.cess,
+      Discount: 0,
+      RndOffAmt: totals.roundoff,
+      TotInvVal: totals.grand,
+    },
+    RefDtls: prec,
+  };
+};
+
+// JSON.stringify drops the undefined optionals
+export const eInvoiceJson = (doc: EInvoice) => JSON.stringify(doc, null, 2);
+
+/* ---------- validation --------------------------------------------------- */
+const ajv = new Ajv({ allErrors: true });
+const schemaCheck = ajv.compile(EINVOICE_SCHEMA);
+
+// "/ItemList/0/HsnCd" → "ItemList[1].HsnCd" (rows counted from 1 like the editor)
+const fieldPath = (p: string) =>
+  p.split("/").filter(Boolean).map(s => (/^\d+$/.test(s) ? `[${+s + 1}]` : `.${s}`)).join("").replace(/^\./, "");
+
+const near = (a: number, b: number, tol: number) => Math.abs(a - b) <= tol;
+
+// Validates a payload against the bundled schema, then the IRP's arithmetic
+// and GSTIN rules that a schema cannot express. Returns one line per problem.
+export const validateEInvoice = (doc: unknown): string[] => {
+  // round-trip so the undefined optionals are gone, exactly as uploaded
+  const data: unknown = JSON.parse(JSON.stringify(doc));
+  if (!schemaCheck(data)) {
+    return (schemaCheck.errors ?? []).map(e => {
+      const at = fieldPath(e.instancePath) || "document";
+      if (e.keyword === "required") return `${at}: ${String(e.params.missingProperty)} is required`;
+      if (e.keyword === "additionalProperties") return `${at}: unexpected field ${String(e.params.additionalProperty)}`;
+      if (e.keyword === "pattern") return `${at}: invalid format`;
+      if (e.keyword === "enum") return `${at}: must be one of ${(e.params.allowedValues as unknown[]).join(", ")}`;
+      return `${at}: ${e.message ?? "invalid"}`;
+    });
+  }
+
+  type Row = { SlNo: string; TotAmt: number; Discount?: number; AssAmt: number; GstRt: number; IgstAmt?: number; CgstAmt?: number; SgstAmt?: number; CesAmt?: number; TotItemVal: number };
+  const d = data as {
+    SellerDtls: { Gstin: string; Stcd: string };
+    BuyerDtls: { Gstin: string; Pos: string };
+    ItemList: Row[];
+    ValDtls: { AssVal: number; CgstVal?: number; SgstVal?: number; IgstVal?: number; CesVal?: number; Discount?: number; RndOffAmt?: number; TotInvVal: number };
+  };
+  const errs: string[] = [];
+  const sg = gstinError(d.SellerDtls.Gstin);
+  if (sg) errs.push(`SellerDtls.Gstin: ${sg}`);
+  if (d.SellerDtls.Gstin.slice(0, 2) !== d.SellerDtls.Stcd.padStart(2, "0")) {
+    errs.push("SellerDtls.Stcd: does not match the state in the seller GSTIN");
+  }
+  if (d.BuyerDtls.Gstin !== "URP") {
+    const bg = gstinError(d.BuyerDtls.Gstin);
+    if (bg) errs.push(`BuyerDtls.Gstin: ${bg}`);
+    if (d.BuyerDtls.Gstin === d.SellerDtls.Gstin) errs.push("BuyerDtls.Gstin: same as the seller GSTIN");
+  }
+  const inter = d.SellerDtls.Stcd.padStart(2, "0") !== d.BuyerDtls.Pos.padStart(2, "0");
+
+  const v = (x?: number) => x ?? 0;
+  d.ItemList.forEach(it => {
+    const at = `ItemList[${it.SlNo}]`;
+    if (!near(it.AssAmt, it.TotAmt - v(it.Discount), 1)) errs.push(`${at}: AssAmt is not TotAmt − Discount`);
+    const taxes = v(it.IgstAmt) + v(it.CgstAmt) + v(it.SgstAmt);
+    if (!near(taxes, it.AssAmt * it.GstRt / 100, 1)) errs.push(`${at}: GST amount does not match AssAmt × GstRt`);
+    if (inter && (v(it.CgstAmt) || v(it.SgstAmt))) errs.push(`${at}: inter-state supply must carry IGST only`);
+    if (!inter && v(it.IgstAmt)) errs.push(`${at}: intra-state supply must carry CGST + SGST`);
+    if (!near(it.TotItemVal, it.AssAmt + taxes + v(it.CesAmt), 1)) errs.push(`${at}: TotItemVal does not add up`);
+  });
+  const sum = (k: keyof Row) => d.ItemList.reduce((s, it) => s + v(it[k] as number), 0);
+  const val = d.ValDtls;
+  if (!near(val.AssVal, sum("AssAmt"), 1)) errs.push("ValDtls.AssVal: does not match the items");
+  if (!near(v(val.IgstVal), sum("IgstAmt"), 1)) errs.push("ValDtls.IgstVal: does not match the items");
+  if (!near(v(val.CgstVal), sum("CgstAmt"), 1)) errs.push("ValDtls.CgstVal: does not match the items");
+  if (!near(v(val.SgstVal), sum("SgstAmt"), 1)) errs.push("ValDtls.SgstVal: does not match the items");
+  const expected = val.AssVal + v(val.CgstVal) + v(val.SgstVal) + v(val.IgstVal) + v(val.CesVal)
+    - v(val.Discount) + v(val.RndOffAmt);
+  if (!near(val.TotInvVal, expected, 1)) errs.push("ValDtls.TotInvVal: does not add up");
+  return errs;
+};
+
+// Problems with the form itself, worded for the editor, before the JSON checks.
+export const eInvoiceIssues = (form: Form): string[] => {
+  const errs: string[] = [];
+  if (!canEInvoice(form.docType)) errs.push("Only tax invoices, credit notes and debit notes are e-invoiced.");
+  if (form.currency !== BASE_CURRENCY) errs.push("E-invoices for export (non-INR) are not supported here.");
+  if (!form.invoiceNo) errs.push("Issue the invoice first so it has a number.");
+  if (!form.buyer.gstin.trim()) errs.push("The customer has no GSTIN; e-invoicing is for B2B supplies.");
+  return errs;
+};
+
+export const checkEInvoice = (form: Form) => {
+  const doc = buildEInvoice(form);
+  return { doc, errors: [...eInvoiceIssues(form), ...validateEInvoice(doc)] };
+};
@@ -0,0 +1,154 @@
+/* ---------- e-invoice schema (INV-01, version 1.1) ----------------------- */
+// JSON Schema for the IRP "Generate IRN" payload, transcribed from the GSTN
+// e-invoice schema v1.1. Only the sections this app produces are detailed;
+// optional blocks we never send (payment, export, e-way bill) are left open.
+const str = (minLength: number, maxLength: number, pattern?: string) =>
+  ({ type: "string", minLength, maxLength, ...(pattern ? { pattern } : {}) });
+const amount = { type: "number", minimum: 0, maximum: 999999999999.99 };
+const signedAmount = { type: "number", minimum: -99.99, maximum: 99.99 };
+const rate = { type: "number", minimum: 0, maximum: 100 };
+
+const GSTIN = "^([0-9]{2}[0-9A-Z]{13})$";
+const GSTIN_OR_URP = "^(([0-9]{2}[0-9A-Z]{13})|URP)$";
+const STATE = "^(?!0+$)([0-9]{1,2}|96|97)$";
+const DATE = "^[0-3][0-9]/[0-1][0-9]/[0-9]{4}$";
+
+const address = {
+  Addr1: str(1, 100),
+  Addr2: str(3, 100),
+  Loc: str(3, 50),
+  Pin: { type: "integer", minimum: 100000, maximum: 999999 },
+  Stcd: str(1, 2, STATE),
+  Ph: str(6, 12, "^[0-9]+$"),
+  Em: str(6, 100, "^[a-zA-Z0-9+_.-]+@[a-zA-Z0-9.-]+$"),
+};
+
+export const EINVOICE_SCHEMA = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "GST e-invoice (INV-01) v1.1",
+  type: "object",
+  additionalProperties: false,
+  required: ["Version", "TranDtls", "DocDtls", "SellerDtls", "BuyerDtls", "ItemList", "ValDtls"],
+  properties: {
+    Version: { type: "string", const: "1.1" },
+    TranDtls: {
+      type: "object",
+      additionalProperties: false,
+      required: ["TaxSch", "SupTyp"],
+      properties: {
+        TaxSch: { type: "string", const: "GST" },
+        SupTyp: { type: "string", enum: ["B2B", "SEZWP", "SEZWOP", "EXPWP", "EXPWOP", "DEXP"] },
+        RegRev: { type: "string", enum: ["Y", "N"] },
+        EcmGstin: str(15, 15, GSTIN),
+        IgstOnIntra: { type: "string", enum: ["Y", "N"] },
+      },
+    },
+    DocDtls: {
+      type: "object",
+      additionalProperties: false,
+      required: ["Typ", "No", "Dt"],
+      properties: {
+        Typ: { type: "string", enum: ["INV", "CRN", "DBN"] },
+        No: str(1, 16, "^([A-Z1-9]{1}[A-Z0-9/-]{0,15})$"),
+        Dt: str(10, 10, DATE),
+      },
+    },
+    SellerDtls: {
+      type: "object",
+      additionalProperties: false,
+      required: ["Gstin", "LglNm", "Addr1", "Loc", "Pin", "Stcd"],
+      properties: { Gstin: str(15, 15, GSTIN), LglNm: str(3, 100), TrdNm: str(3, 100), ...address },
+    },
+    BuyerDtls: {
+      type: "object",
+      additionalProperties: false,
+      required: ["Gstin", "LglNm", "Pos", "Addr1", "Loc", "Pin", "Stcd"],
+      properties: {
+        Gstin: str(3, 15, GSTIN_OR_URP), LglNm: str(3, 100), TrdNm: str(3, 100),
+        Pos: str(1, 2, STATE), ...address,
+      },
+    },
+    ShipDtls: {
+      type: "object",
+      additionalProperties: false,
+      required: ["LglNm", "Addr1", "Loc", "Pin", "Stcd"],
+      properties: {
+        Gstin: str(3, 15, GSTIN_OR_URP), LglNm: str(3, 100), TrdNm: str(3, 100),
+        ...address,
+      },
+    },
+    ItemList: {
+      type: "array",
+      minItems: 1,
+      maxItems: 1000,
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["SlNo", "IsServc", "HsnCd", "UnitPrice", "TotAmt", "AssAmt", "GstRt", "TotItemVal"],
+        properties: {
+          SlNo: str(1, 6, "^[0-9]+$"),
+          PrdDesc: str(3, 300),
+          IsServc: { type: "string", enum: ["Y", "N"] },
+          HsnCd: str(4, 8, "^[0-9]{4,8}$"),
+          Barcde: str(3, 30),
+          Qty: { type: "number", minimum: 0, maximum: 9999999999.999 },
+          FreeQty: { type: "number", minimum: 0, maximum: 9999999999.999 },
+          Unit: str(3, 8, "^[A-Z]{3,8}$"),
+          UnitPrice: { type: "number", minimum: 0, maximum: 999999999999.999 },
+          TotAmt: amount,
+          Discount: amount,
+          PreTaxVal: amount,
+          AssAmt: amount,
+          GstRt: { type: "number", enum: [0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28] },
+          IgstAmt: amount,
+          CgstAmt: amount,
+          SgstAmt: amount,
+          CesRt: rate,
+          CesAmt: amount,
+          CesNonAdvlAmt: amount,
+          StateCesRt: rate,
+          StateCesAmt: amount,
+          StateCesNonAdvlAmt: amount,
+          OthChrg: amount,
+          TotItemVal: amount,
+        },
+      },
+    },
+    ValDtls: {
+      type: "object",
+      additionalProperties: false,
+      required: ["AssVal", "TotInvVal"],
+      properties: {
+        AssVal: amount,
+        CgstVal: amount,
+        SgstVal: amount,
+        IgstVal: amount,
+        CesVal: amount,
+        StCesVal: amount,
+        Discount: amount,
+        OthChrg: amount,
+        RndOffAmt: signedAmount,
+        TotInvVal: amount,
+        TotInvValFc: amount,
+      },
+    },
+    RefDtls: {
+      type: "object",
+      properties: {
+        InvRm: str(3, 100),
+        PrecDocDtls: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["InvNo", "InvDt"],
+            properties: { InvNo: str(1, 16), InvDt: str(10, 10, DATE), OthRefNo: str(1, 20) },
+          },
+        },
+      },
+    },
+    PayDtls: { type: "object" },
+    ExpDtls: { type: "object" },
+    EwbDtls: { type: "object" },
+  },
+} as const;
@@ -0,0 +1,67 @@
+import { stateLabel } from "./gst";
+import { DOC_META } from "./documents";
+import { invoiceTotals, type Form, type Item } from "./invoice";
+import type { Address, Party } from "./parties";
+
+/* ---------- comparing two versions of a document ------------------------ */
+export type FormChange = { section: string; field: string; before: string; after: string };
+
+const ADDRESS_FIELDS: [keyof Address, string][] = [
+  ["name", "Name"], ["line1", "Address line 1"], ["line2", "Address line 2"],
+  ["city", "City"], ["pincode", "PIN code"], ["state", "State"],
+];
+const PARTY_FIELDS: [keyof Party, string][] = [
+  ...ADDRESS_FIELDS, ["gstin", "GSTIN"], ["pan", "PAN"], ["phone", "Phone"], ["email", "Email"],
+];
+const ITEM_FIELDS: [keyof Item, string][] = [
+  ["kind", "Row type"], ["description", "Description"], ["qty", "Qty"], ["unit", "Unit"], ["rate", "Rate"],
+  ["discount", "Discount"], ["discountMode", "Discount type"], ["gstRate", "GST %"], ["cess", "Cess %"],
+  ["hsn", "HSN/SAC"], ["sku", "SKU"],
+];
+
+const show = (v: unknown) => (v === null || v === undefined || v === "" ? "—" : String(v));
+
+const itemLine = (it: Item) => (it.kind === "section" ? `Section: ${it.description || "—"}`
+  : it.kind === "subtotal" ? "Subtotal" : `${it.description || "—"} × ${+it.qty || 0} @ ${+it.rate || 0}`);
+
+// Field-by-field list of what differs; rows are compared by position.
+export const diffForms = (before: Form, after: Form): FormChange[] => {
+  const out: FormChange[] = [];
+  const cmp = (section: string, field: string, a: unknown, b: unknown, fmt: (v: unknown) => string = show) => {
+    if (String(a ?? "") !== String(b ?? "")) out.push({ section, field, before: fmt(a), after: fmt(b) });
+  };
+
+  cmp("Header", "Type", DOC_META[before.docType].label, DOC_META[after.docType].label);
+  cmp("Header", DOC_META[after.docType].noLabel, before.invoiceNo, after.invoiceNo);
+  cmp("Header", "Date", before.date, after.date);
+  cmp("Header", DOC_META[after.docType].dueLabel, before.dueDate, after.dueDate);
+  cmp("Header", "Place of supply", before.place, after.place, v => show(stateLabel(String(v ?? ""))));
+  cmp("Header", "Reference", before.ref?.no, after.ref?.no);
+  cmp("Header", "Currency", before.currency, after.currency);
+  cmp("Header", "Exchange rate", +before.exchangeRate || "", +after.exchangeRate || "");
+
+  for (const [k, label] of PARTY_FIELDS) cmp("Seller", label, before.seller[k], after.seller[k]);
+  for (const [k, label] of PARTY_FIELDS) cmp("Bill To", label, before.buyer[k], after.buyer[k]);
+  cmp("Ship To", "Same as billing", before.shipToSame ? "Yes" : "No", after.shipToSame ? "Yes" : "No");
+  if (!before.shipToSame || !after.shipToSame) {
+    for (const [k, label] of ADDRESS_FIELDS) cmp("Ship To", label, before.shipTo[k], after.shipTo[k]);
+  }
+
+  const rows = Math.max(before.items.length, after.items.length);
+  for (let i = 0; i < rows; i++) {
+    const a = before.items[i], b = after.items[i];
+    const section = `Row ${i + 1}`;
+    if (!a) { out.push({ section, field: "Added", before: "—", after: itemLine(b) }); continue; }
+    if (!b) { out.push({ section, field: "Removed", before: itemLine(a), after: "—" }); continue; }
+    for (const [k, label] of ITEM_FIELDS) cmp(section, label, a[k], b[k]);
+  }
+
+  cmp("Totals", "Overall discount", `${+before.overallDiscount || 0}${before.overallDiscountMode === "percent" ? "%" : ""}`,
+    `${+after.overallDiscount || 0}${after.overallDiscountMode === "percent" ? "%" : ""}`);
+  cmp("Totals", "Rates include GST", before.priceMode === "inclusive" ? "Yes" : "No", after.priceMode === "inclusive" ? "Yes" : "No");
+  cmp("Totals", "Rounding", before.rounding, after.rounding);
+  cmp("Totals", "Grand total", invoiceTotals(before).grand.toFixed(2), invoiceTotals(after).grand.toFixed(2));
+  cmp("Other", "Notes", before.notes, after.notes);
+  cmp("Other", "IRN", before.irn?.irn, after.irn?.irn);
+  return out;
+};
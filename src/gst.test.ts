@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { computeTax, hsnSummary, lineTax, resolveState, supplyType } from "./gst";
+
+describe("supplyType", () => {
+  it("is intra-state when both ends are in the same state", () => {
+    expect(supplyType("27", "MH")).toBe("intra");
+    expect(supplyType("Maharashtra", "27")).toBe("intra");
+  });
+  it("is inter-state when the states differ", () => {
+    expect(supplyType("27", "29")).toBe("inter");
+    expect(supplyType("7", "Karnataka")).toBe("inter");
+  });
+  it("falls back to intra-state when either state is unknown", () => {
+    expect(supplyType("27", "")).toBe("intra");
+    expect(supplyType(undefined, "29")).toBe("intra");
+    expect(supplyType("27", "Atlantis")).toBe("intra");
+    expect(resolveState("Atlantis")).toBeUndefined();
+  });
+});
+
+describe("lineTax", () => {
+  it("splits GST into CGST and SGST for intra-state supplies", () => {
+    expect(lineTax("8471", 1000, 18, 0, "intra"))
+      .toMatchObject({ cgst: 90, sgst: 90, igst: 0, total: 1180 });
+  });
+  it("keeps CGST + SGST equal to the tax when the half is not exact", () => {
+    const t = lineTax("8471", 100.1, 5, 0, "intra");
+    expect(t.cgst + t.sgst).toBe(5.01);
+    expect(t).toMatchObject({ cgst: 2.51, sgst: 2.5 });
+  });
+  it("charges IGST only for inter-state supplies", () => {
+    expect(lineTax("8471", 1000, 18, 0, "inter"))
+      .toMatchObject({ cgst: 0, sgst: 0, igst: 180, total: 1180 });
+  });
+  it("adds cess on the taxable value", () => {
+    expect(lineTax("8703", 1000, 28, 15, "inter"))
+      .toMatchObject({ igst: 280, cess: 150, total: 1430 });
+  });
+});
+
+describe("computeTax", () => {
+  const rows = [
+    { hsn: "8471", amount: 1500, gstRate: 18, cess: 0 },
+    { hsn: "9983", amount: 500, gstRate: 5, cess: 0 },
+  ];
+
+  it("spreads the overall discount pro rata before tax", () => {
+    const t = computeTax(rows, 200, "intra");
+    expect(t.lines.map(l => l.taxable)).toEqual([1350, 450]);
+    expect(t).toMatchObject({ taxable: 1800, cgst: 132.75, sgst: 132.75, igst: 0, tax: 265.5 });
+  });
+  it("never discounts below zero", () => {
+    expect(computeTax(rows, 5000, "inter")).toMatchObject({ taxable: 0, tax: 0 });
+    expect(computeTax(rows, -100, "inter").taxable).toBe(2000);
+  });
+  it("totals cess with the GST", () => {
+    const t = computeTax([{ hsn: "8703", amount: 1000, gstRate: 28, cess: 15 }], 0, "inter");
+    expect(t).toMatchObject({ igst: 280, cess: 150, tax: 430 });
+  });
+});
+
+describe("hsnSummary", () => {
+  it("groups lines by HSN and rate, sorted by code", () => {
+    const lines = [
+      lineTax("9983", 500, 18, 0, "intra"),
+      lineTax("8471", 1000, 18, 0, "intra"),
+      lineTax("8471", 250, 18, 0, "intra"),
+      lineTax("8471", 100, 12, 0, "intra"),
+    ];
+    expect(hsnSummary(lines)).toEqual([
+      { hsn: "8471", rate: 12, taxable: 100, cgst: 6, sgst: 6, igst: 0, cess: 0 },
+      { hsn: "8471", rate: 18, taxable: 1250, cgst: 112.5, sgst: 112.5, igst: 0, cess: 0 },
+      { hsn: "9983", rate: 18, taxable: 500, cgst: 45, sgst: 45, igst: 0, cess: 0 },
+    ]);
+  });
+});
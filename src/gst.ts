@@ -0,0 +1,173 @@
+import { roundMinor } from "./currency";
+
+/* ---------- GST masters -------------------------------------------------- */
+export const GST_RATES = [0, 5, 12, 18, 28] as const;
+
+export type StateInfo = { code: string; name: string; abbr: string };
+
+// GST state codes (first two digits of a GSTIN)
+export const STATES: StateInfo[] = [
+  { code: "01", name: "Jammu and Kashmir", abbr: "JK" },
+  { code: "02", name: "Himachal Pradesh", abbr: "HP" },
+  { code: "03", name: "Punjab", abbr: "PB" },
+  { code: "04", name: "Chandigarh", abbr: "CH" },
+  { code: "05", name: "Uttarakhand", abbr: "UK" },
+  { code: "06", name: "Haryana", abbr: "HR" },
+  { code: "07", name: "Delhi", abbr: "DL" },
+  { code: "08", name: "Rajasthan", abbr: "RJ" },
+  { code: "09", name: "Uttar Pradesh", abbr: "UP" },
+  { code: "10", name: "Bihar", abbr: "BR" },
+  { code: "11", name: "Sikkim", abbr: "SK" },
+  { code: "12", name: "Arunachal Pradesh", abbr: "AR" },
+  { code: "13", name: "Nagaland", abbr: "NL" },
+  { code: "14", name: "Manipur", abbr: "MN" },
+  { code: "15", name: "Mizoram", abbr: "MZ" },
+  { code: "16", name: "Tripura", abbr: "TR" },
+  { code: "17", name: "Meghalaya", abbr: "ML" },
+  { code: "18", name: "Assam", abbr: "AS" },
+  { code: "19", name: "West Bengal", abbr: "WB" },
+  { code: "20", name: "Jharkhand", abbr: "JH" },
+  { code: "21", name: "Odisha", abbr: "OD" },
+  { code: "22", name: "Chhattisgarh", abbr: "CG" },
+  { code: "23", name: "Madhya Pradesh", abbr: "MP" },
+  { code: "24", name: "Gujarat", abbr: "GJ" },
+  { code: "26", name: "Dadra and Nagar Haveli and Daman and Diu", abbr: "DH" },
+  { code: "27", name: "Maharashtra", abbr: "MH" },
+  { code: "29", name: "Karnataka", abbr: "KA" },
+  { code: "30", name: "Goa", abbr: "GA" },
+  { code: "31", name: "Lakshadweep", abbr: "LD" },
+  { code: "32", name: "Kerala", abbr: "KL" },
+  { code: "33", name: "Tamil Nadu", abbr: "TN" },
+  { code: "34", name: "Puducherry", abbr: "PY" },
+  { code: "35", name: "Andaman and Nicobar Islands", abbr: "AN" },
+  { code: "36", name: "Telangana", abbr: "TS" },
+  { code: "37", name: "Andhra Pradesh", abbr: "AD" },
+  { code: "38", name: "Ladakh", abbr: "LA" },
+  { code: "97", name: "Other Territory", abbr: "OT" },
+];
+
+// accepts a code ("27"), an abbreviation ("MH") or a full name ("Maharashtra")
+export const resolveState = (value?: string): StateInfo | undefined => {
+  const v = (value || "").trim().toLowerCase();
+  if (!v) return undefined;
+  const code = /^\d{1,2}$/.test(v) ? v.padStart(2, "0") : "";
+  return STATES.find(s =>
+    s.code === code || s.abbr.toLowerCase() === v || s.name.toLowerCase() === v
+  );
+};
+
+export const stateLabel = (value?: string) => {
+  const s = resolveState(value);
+  return s ? `${s.name} (${s.code})` : value || "";
+};
+
+/* ---------- units (UQC) -------------------------------------------------- */
+// GST unit quantity codes used by the e-invoice and GSTR-1; anything we do
+// not recognise is reported as OTH (others)
+const UQC: Record<string, string> = {
+  pcs: "PCS", pc: "PCS", piece: "PCS", pieces: "PCS", nos: "NOS", no: "NOS", numbers: "NOS",
+  kg: "KGS", kgs: "KGS", g: "GMS", gm: "GMS", gms: "GMS", ltr: "LTR", l: "LTR", ml: "MLT",
+  mtr: "MTR", m: "MTR", cm: "CMS", km: "KME", sqm: "SQM", sqft: "SQF", set: "SET", sets: "SET",
+  box: "BOX", pack: "PAC", pac: "PAC", pair: "PRS", dozen: "DOZ", doz: "DOZ", bag: "BAG",
+  bottle: "BTL", btl: "BTL", roll: "ROL", ton: "TON", tonne: "MTS", unit: "UNT", units: "UNT",
+};
+
+export const uqcOf = (unit: string) => UQC[unit.trim().toLowerCase().replace(/\.$/, "")] ?? "OTH";
+
+// SAC codes (services) all start with 99
+export const isServiceCode = (hsn: string) => hsn.trim().startsWith("99");
+
+/* ---------- supply type -------------------------------------------------- */
+export type SupplyType = "intra" | "inter";
+
+// Inter-state (IGST) only when both ends are known and differ; otherwise
+// the supply is treated as local and split into CGST + SGST.
+export const supplyType = (sellerState?: string, placeOfSupply?: string): SupplyType => {
+  const a = resolveState(sellerState)?.code;
+  const b = resolveState(placeOfSupply)?.code;
+  return a && b && a !== b ? "inter" : "intra";
+};
+
+/* ---------- per-line tax ------------------------------------------------- */
+// amounts are rounded to the document currency's minor unit (`decimals`)
+
+export type LineTax = {
+  hsn: string;
+  taxable: number;
+  rate: number;
+  cessRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  total: number;
+};
+
+export const lineTax = (
+  hsn: string, taxable: number, rate: number, cessRate: number, supply: SupplyType, decimals = 2,
+): LineTax => {
+  const r = (n: number) => roundMinor(n, decimals);
+  const tax = r(taxable * rate / 100);
+  const cgst = supply === "intra" ? r(tax / 2) : 0;
+  const sgst = supply === "intra" ? r(tax - cgst) : 0;
+  const igst = supply === "inter" ? tax : 0;
+  const cess = r(taxable * cessRate / 100);
+  return {
+    hsn, taxable: r(taxable), rate, cessRate,
+    cgst, sgst, igst, cess, total: r(taxable + cgst + sgst + igst + cess),
+  };
+};
+
+/* ---------- HSN-wise summary -------------------------------------------- */
+export type HsnRow = Omit<LineTax, "cessRate" | "total">;
+
+export const hsnSummary = (lines: LineTax[], decimals = 2): HsnRow[] => {
+  const r = (n: number) => roundMinor(n, decimals);
+  const map = new Map<string, HsnRow>();
+  for (const l of lines) {
+    const key = `${l.hsn}|${l.rate}`;
+    const row = map.get(key) ?? { hsn: l.hsn, rate: l.rate, taxable: 0, cgst: 0, sgst: 0, igst: 0, cess: 0 };
+    row.taxable = r(row.taxable + l.taxable);
+    row.cgst = r(row.cgst + l.cgst);
+    row.sgst = r(row.sgst + l.sgst);
+    row.igst = r(row.igst + l.igst);
+    row.cess = r(row.cess + l.cess);
+    map.set(key, row);
+  }
+  return [...map.values()].sort((a, b) => a.hsn.localeCompare(b.hsn) || a.rate - b.rate);
+};
+
+/* ---------- invoice-level tax ------------------------------------------- */
+export type TaxInput = { hsn: string; amount: number; gstRate: number; cess: number };
+
+export type TaxResult = {
+  supply: SupplyType;
+  lines: LineTax[];
+  hsn: HsnRow[];
+  taxable: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  cess: number;
+  tax: number;
+};
+
+// The overall (invoice-level) discount is spread over the lines in proportion
+// to their amounts, so it reduces the taxable value before GST is applied.
+export const computeTax = (
+  rows: TaxInput[], overallDiscount: number, supply: SupplyType, decimals = 2,
+): TaxResult => {
+  const gross = rows.reduce((s, r) => s + r.amount, 0);
+  const disc = Math.min(Math.max(0, overallDiscount), gross);
+  const lines = rows.map(r => {
+    const share = gross > 0 ? disc * r.amount / gross : 0;
+    return lineTax(r.hsn, r.amount - share, r.gstRate, r.cess, supply, decimals);
+  });
+  const sum = (k: "taxable" | "cgst" | "sgst" | "igst" | "cess") =>
+    roundMinor(lines.reduce((s, l) => s + l[k], 0), decimals);
+  const cgst = sum("cgst"), sgst = sum("sgst"), igst = sum("igst"), cess = sum("cess");
+  return {
+    supply, lines, hsn: hsnSummary(lines, decimals),
+    taxable: sum("taxable"), cgst, sgst, igst, cess, tax: roundMinor(cgst + sgst + igst + cess, decimals),
+  };
+};
@@ -0,0 +1,157 @@
+import { isServiceCode, resolveState, uqcOf } from "./gst";
+import { isValidGstin } from "./parties";
+import { invoiceTotals, placeOfSupply } from "./invoice";
+import { isLine } from "./pricing";
+import type { InvoiceRecord } from "./invoiceDb";
+import { BASE_CURRENCY } from "./currency";
+
+/* ---------- GSTR-1 JSON (offline tool format) ---------------------------- */
+// Covers B2B (4A), B2CL (5), B2CS (7) and the HSN summary (12, split into
+// B2B and B2C since May 2025) for tax invoices issued in one month. Credit and
+// debit notes (9B), exports (6A) and amendments are not generated; those
+// documents are listed in `skipped` so the user can file them by hand.
+const B2CL_LIMIT = 100000;   // inter-state B2C invoices above this go to B2CL
+
+const r2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+type TaxAmounts = { txval: number; iamt: number; camt: number; samt: number; csamt: number };
+
+export type Gstr1ItemDetail = TaxAmounts & { rt: number };
+
+export type Gstr1Invoice = {
+  inum: string;
+  idt: string;             // dd-mm-yyyy
+  val: number;
+  pos: string;
+  rchrg?: "N";
+  inv_typ?: "R";
+  itms: { num: number; itm_det: Gstr1ItemDetail }[];
+};
+
+export type Gstr1B2cs = TaxAmounts & { sply_ty: "INTRA" | "INTER"; pos: string; typ: "OE"; rt: number };
+
+export type Gstr1Hsn = TaxAmounts & {
+  num: number; hsn_sc: string; desc: string; uqc: string; qty: number; rt: number;
+};
+
+export type Gstr1 = {
+  gstin: string;
+  fp: string;              // filing period, MMYYYY
+  b2b: { ctin: string; inv: Gstr1Invoice[] }[];
+  b2cl: { pos: string; inv: Gstr1Invoice[] }[];
+  b2cs: Gstr1B2cs[];
+  hsn: { hsn_b2b: Gstr1Hsn[]; hsn_b2c: Gstr1Hsn[] };
+};
+
+export type Gstr1Result = { data: Gstr1; included: number; skipped: string[] };
+
+// 2025-04 → 042025
+export const filingPeriod = (month: string) => `${month.slice(5, 7)}${month.slice(0, 4)}`;
+
+const gstrDate = (iso: string) => iso.split("-").reverse().join("-");
+
+const add = (into: TaxAmounts, from: TaxAmounts) => {
+  into.txval = r2(into.txval + from.txval);
+  into.iamt = r2(into.iamt + from.iamt);
+  into.camt = r2(into.camt + from.camt);
+  into.samt = r2(into.samt + from.samt);
+  into.csamt = r2(into.csamt + from.csamt);
+};
+
+const zero = (): TaxAmounts => ({ txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 });
+
+const addHsn = (list: Map<string, Gstr1Hsn>, hsn: string, desc: string, unit: string, qty: number, rt: number, amt: TaxAmounts) => {
+  const service = isServiceCode(hsn);
+  const uqc = service ? "NA" : uqcOf(unit);
+  const key = `${hsn}|${rt}|${uqc}`;
+  const row = list.get(key) ?? { num: 0, hsn_sc: hsn, desc: desc.slice(0, 30), uqc, qty: 0, rt, ...zero() };
+  if (!service) row.qty = Math.round((row.qty + qty) * 1000) / 1000;
+  add(row, amt);
+  list.set(key, row);
+};
+
+const numbered = (list: Map<string, Gstr1Hsn>) =>
+  [...list.values()]
+    .sort((a, b) => a.hsn_sc.localeCompare(b.hsn_sc) || a.rt - b.rt)
+    .map((row, i) => ({ ...row, num: i + 1 }));
+
+// month is "YYYY-MM"
+export const buildGstr1 = (records: InvoiceRecord[], gstin: string, month: string): Gstr1Result => {
+  const skipped: string[] = [];
+  const b2b = new Map<string, Gstr1Invoice[]>();
+  const b2cl = new Map<string, Gstr1Invoice[]>();
+  const b2cs = new Map<string, Gstr1B2cs>();
+  const hsnB2b = new Map<string, Gstr1Hsn>();
+  const hsnB2c = new Map<string, Gstr1Hsn>();
+  let included = 0;
+
+  const inMonth = records
+    .filter(r => r.status === "issued" && r.date.startsWith(month))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.invoiceNo.localeCompare(b.invoiceNo));
+
+  for (const r of inMonth) {
+    const f = r.form;
+    if (f.docType === "credit_note" || f.docType === "debit_note") {
+      skipped.push(`${r.invoiceNo}: credit/debit notes (9B) are not included`);
+      continue;
+    }
+    if (f.docType !== "invoice") continue;
+    if (f.currency !== BASE_CURRENCY) {
+      skipped.push(`${r.invoiceNo}: export invoices (6A) are not included`);
+      continue;
+    }
+    const t = invoiceTotals(f);
+    const pos = resolveState(placeOfSupply(f))?.code ?? "";
+    const inter = t.tax.supply === "inter";
+    const ctin = f.buyer.gstin.trim().toUpperCase();
+    const registered = isValidGstin(ctin);
+
+    // one item row per tax rate, as the portal expects
+    const byRate = new Map<number, Gstr1ItemDetail>();
+    f.items.forEach((it, i) => {
+      const l = t.tax.lines[i];
+      if (!l || !isLine(it) || (l.taxable === 0 && !it.description.trim())) return;
+      const amt = { txval: l.taxable, iamt: l.igst, camt: l.cgst, samt: l.sgst, csamt: l.cess };
+      const row = byRate.get(l.rate) ?? { rt: l.rate, ...zero() };
+      add(row, amt);
+      byRate.set(l.rate, row);
+      addHsn(registered ? hsnB2b : hsnB2c, it.hsn.trim(), it.description, it.unit, +it.qty || 0, l.rate, amt);
+    });
+    const rates = [...byRate.values()].sort((a, b) => a.rt - b.rt);
+    const inv = (): Gstr1Invoice => ({
+      inum: f.invoiceNo, idt: gstrDate(f.date), val: t.grand, pos,
+      ...(registered ? { rchrg: "N" as const, inv_typ: "R" as const } : {}),
+      itms: rates.map(d => ({ num: d.rt * 100 + 1, itm_det: d })),
+    });
+    included++;
+
+    if (registered) {
+      b2b.set(ctin, [...(b2b.get(ctin) ?? []), inv()]);
+    } else if (inter && t.grand > B2CL_LIMIT) {
+      b2cl.set(pos, [...(b2cl.get(pos) ?? []), inv()]);
+    } else {
+      for (const d of rates) {
+        const key = `${inter ? "INTER" : "INTRA"}|${pos}|${d.rt}`;
+        const row = b2cs.get(key) ?? { sply_ty: inter ? "INTER" : "INTRA", pos, typ: "OE", rt: d.rt, ...zero() };
+        add(row, d);
+        b2cs.set(key, row);
+      }
+    }
+  }
+
+  return {
+    data: {
+      gstin: gstin.trim().toUpperCase(),
+      fp: filingPeriod(month),
+      b2b: [...b2b].map(([ctin, inv]) => ({ ctin, inv })),
+      b2cl: [...b2cl].map(([pos, inv]) => ({ pos, inv })),
+      b2cs: [...b2cs.values()],
+      hsn: { hsn_b2b: numbered(hsnB2b), hsn_b2c: numbered(hsnB2c) },
+    },
+    included,
+    skipped,
+  };
+};
+
+export const gstr1FileName = (gstin: string, month: string) =>
+  `GSTR1_${gstin.trim().toUpperCase() || "GSTIN"}_${filingPeriod(month)}.json`;
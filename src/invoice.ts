@@ -0,0 +1,155 @@
+import { supplyType } from "./gst";
+import { BASE_CURRENCY, currencyFromSymbol, currencyInfo, defaultSystem, type NumberSystem } from "./currency";
+import type { DocRef, DocType } from "./documents";
+import { DEFAULT_PDF_FONT, type PdfFont } from "./pdfFonts";
+import { isLine, priceInvoice, type DiscountMode, type PriceMode, type RoundingPolicy, type RowKind } from "./pricing";
+import { addDays, todayIso } from "./ledger";
+import type { IrnDetails } from "./einvoice";
+import { EMPTY_ADDRESS, EMPTY_PARTY, loadSellerProfile, type Address, type Party } from "./parties";
+
+/* ---------- types -------------------------------------------------------- */
+export type Item = {
+  id: string;                 // stable row key (React keys, drag and drop)
+  kind: RowKind;              // "section" rows print only the description
+  description: string;
+  qty: number | string;
+  unit: string;
+  rate: number | string;
+  discount: number | string;
+  discountMode: DiscountMode;
+  hsn: string;
+  sku: string;
+  gstRate: number | string;   // %
+  cess: number | string;      // % of taxable value
+};
+
+export type Form = {
+  docType: DocType;
+  ref: DocRef | null;          // original document (credit/debit notes, conversions)
+  seller: Party;
+  buyer: Party;
+  shipToSame: boolean;         // ship to the billing address
+  shipTo: Address;
+  series: string;              // numbering series id
+  invoiceNo: string;           // "" until the invoice is issued
+  date: string;
+  terms: number;               // payment terms in days
+  dueDate: string;
+  place: string;               // place of supply (state code); "" = derived from ship-to/buyer
+  currency: string;            // ISO 4217 code
+  numberSystem: NumberSystem;  // digit grouping and amount-in-words style
+  exchangeRate: number | string;  // INR per unit of currency (export invoices); 0 = not shown
+  items: Item[];
+  overallDiscount: number | string;
+  overallDiscountMode: DiscountMode;
+  priceMode: PriceMode;        // rates typed with or without GST
+  rounding: RoundingPolicy;    // applied to the grand total
+  notes: string;               // printed under the totals
+  irn: IrnDetails | null;      // e-invoice registration, pasted back from the IRP
+  pdfFont: PdfFont;            // font embedded in the PDF export
+};
+
+export const newRowId = () =>
+  `row_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+export const newItem = (kind: RowKind = "item"): Item => ({
+  id: newRowId(), kind, description: "", qty: 0, unit: "Pcs.", rate: 0, discount: 0, discountMode: "amount", hsn: "", sku: "",
+  gstRate: 18, cess: 0,
+});
+
+export const NEW_FORM = (): Form => ({
+  docType: "invoice",
+  ref: null,
+  seller: loadSellerProfile() ?? EMPTY_PARTY(),
+  buyer: EMPTY_PARTY(),
+  shipToSame: true,
+  shipTo: EMPTY_ADDRESS(),
+  series: "inv",
+  invoiceNo: "",
+  date: todayIso(),
+  terms: 0,
+  dueDate: todayIso(),
+  place: "",
+  currency: BASE_CURRENCY,
+  numberSystem: defaultSystem(BASE_CURRENCY),
+  exchangeRate: 0,
+  items: [newItem()],
+  overallDiscount: 0,
+  overallDiscountMode: "amount",
+  priceMode: "exclusive",
+  rounding: "nearest1",
+  notes: "",
+  irn: null,
+  pdfFont: DEFAULT_PDF_FONT,
+});
+
+// fields written by older versions of the app
+export type LegacyForm = Partial<Form> & {
+  businessName?: string;
+  customerName?: string;
+  sellerState?: string;
+  buyerState?: string;
+  symbol?: string;
+};
+
+// fill fields added after a draft/save was written (old rows carry no GST)
+export const normalizeForm = (raw: LegacyForm): Form => {
+  const base = NEW_FORM();
+  const { businessName, customerName, sellerState, buyerState, symbol, ...rest } = raw;
+  const currency = raw.currency ?? (symbol ? currencyFromSymbol(symbol) : base.currency);
+  return {
+    ...base, ...rest,
+    seller: raw.seller
+      ? { ...EMPTY_PARTY(), ...raw.seller }
+      : businessName
+        ? { ...EMPTY_PARTY(), name: businessName, state: sellerState ?? "" }
+        : base.seller,
+    buyer: { ...EMPTY_PARTY(), ...(raw.buyer ?? { name: customerName ?? "", state: buyerState ?? "" }) },
+    shipTo: { ...EMPTY_ADDRESS(), ...raw.shipTo },
+    dueDate: raw.dueDate ?? raw.date ?? base.dueDate,
+    currency,
+    numberSystem: raw.numberSystem ?? defaultSystem(currency),
+    items: (raw.items ?? base.items).map(it => ({ ...newItem(), ...it, gstRate: it.gstRate ?? 0 })),
+  };
+};
+
+// goods are taxed where they are delivered, so ship-to wins over bill-to
+export const placeOfSupply = (f: Form) =>
+  f.place || (!f.shipToSame && f.shipTo.state) || f.buyer.state;
+
+/* ---------- conversion --------------------------------------------------- */
+// quotation → invoice, invoice → credit note, …: same parties and rows, a fresh
+// date and no number yet; the source is kept as the reference
+export const convertForm = (src: Form, to: DocType, series: string): Form => {
+  const date = todayIso();
+  return {
+    ...src,
+    docType: to,
+    series,
+    invoiceNo: "",
+    date,
+    dueDate: addDays(date, src.terms),
+    ref: { docType: src.docType, no: src.invoiceNo, date: src.date },
+    irn: null,
+    items: src.items.map(it => ({ ...it })),
+  };
+};
+
+/* ---------- totals ------------------------------------------------------- */
+export const invoiceTotals = (form: Form) => priceInvoice({
+  lines: form.items,
+  overallDiscount: form.overallDiscount,
+  overallDiscountMode: form.overallDiscountMode,
+  priceMode: form.priceMode,
+  rounding: form.rounding,
+  supply: supplyType(form.seller.state, placeOfSupply(form)),
+  decimals: currencyInfo(form.currency).decimals,
+});
+
+export type Totals = ReturnType<typeof invoiceTotals>;
+
+// S.N column: items are numbered 1, 2, …; headings and subtotals get no number
+export const serials = (items: Item[]): (number | null)[] => {
+  let n = 0;
+  return items.map(it => (isLine(it) ? ++n : null));
+};
@@ -0,0 +1,223 @@
+import { invoiceTotals, normalizeForm, type Form } from "./invoice";
+import type { PaymentEntry } from "./ledger";
+
+/* ---------- records ------------------------------------------------------ */
+// stored status; paid / partially paid / overdue are derived (see ./ledger)
+export type InvoiceStatus = "draft" | "issued" | "cancelled";
+
+export type InvoiceRecord = {
+  id: string;
+  invoiceNo: string;
+  customer: string;
+  date: string;          // invoice date, YYYY-MM-DD
+  grand: number;
+  status: InvoiceStatus;
+  createdAt: number;     // epoch ms
+  updatedAt: number;
+  payments: PaymentEntry[];
+  form: Form;
+};
+
+export const newRecordId = () =>
+  `inv_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// summary fields are denormalised from the form so the list never parses forms
+export const toRecord = (form: Form, prev?: InvoiceRecord): InvoiceRecord => {
+  const now = Date.now();
+  return {
+    id: prev?.id ?? newRecordId(),
+    invoiceNo: form.invoiceNo,
+    customer: form.buyer.name,
+    date: form.date,
+    grand: invoiceTotals(form).grand,
+    status: prev?.status ?? "draft",
+    createdAt: prev?.createdAt ?? now,
+    updatedAt: now,
+    payments: prev?.payments ?? [],
+    form,
+  };
+};
+
+/* ---------- revisions --------------------------------------------------- */
+// The previous saved version of a record, kept whenever a save changes its form.
+export type Revision = {
+  id: string;
+  recordId: string;
+  savedAt: number;       // when this version was saved (the record's updatedAt then)
+  invoiceNo: string;
+  status: InvoiceStatus;
+  grand: number;
+  form: Form;
+};
+
+const MAX_REVISIONS = 30;   // per record; the oldest are dropped
+
+const toRevision = (r: InvoiceRecord): Revision => ({
+  id: `rev_${r.updatedAt.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  recordId: r.id, savedAt: r.updatedAt, invoiceNo: r.invoiceNo, status: r.status, grand: r.grand, form: r.form,
+});
+
+// records written before a field existed
+export const normalizeRecord = (r: InvoiceRecord): InvoiceRecord =>
+  ({ ...r, payments: r.payments ?? [], form: normalizeForm(r.form) });
+
+/* ---------- database ----------------------------------------------------- */
+const DB_NAME = "invoice-app";
+const DB_VERSION = 2;
+const INVOICES = "invoices";
+const META = "meta";     // key/value: the working draft
+const REVISIONS = "revisions";
+
+// one branch per schema version; never edit a released branch, add a new one
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    const s = db.createObjectStore(INVOICES, { keyPath: "id" });
+    s.createIndex("invoiceNo", "invoiceNo");
+    s.createIndex("customer", "customer");
+    s.createIndex("date", "date");
+    s.createIndex("updatedAt", "updatedAt");
+    db.createObjectStore(META);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(REVISIONS, { keyPath: "id" }).createIndex("recordId", "recordId");
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const openDb = () => dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = e => upgrade(req.result, e.oldVersion);
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => { dbPromise = null; reject(req.error); };
+});
+
+const done = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const store = async (name: string, mode: IDBTransactionMode = "readonly") =>
+  (await openDb()).transaction(name, mode).objectStore(name);
+
+/* ---------- invoices ----------------------------------------------------- */
+export const listInvoices = async (): Promise<InvoiceRecord[]> =>
+  (await done((await store(INVOICES)).getAll() as IDBRequest<InvoiceRecord[]>))
+    .map(normalizeRecord);
+
+export const getInvoice = async (id: string): Promise<InvoiceRecord | undefined> => {
+  const r = await done((await store(INVOICES)).get(id) as IDBRequest<InvoiceRecord | undefined>);
+  return r && normalizeRecord(r);
+};
+
+export const findByNumber = async (invoiceNo: string): Promise<InvoiceRecord[]> =>
+  (await done((await store(INVOICES)).index("invoiceNo").getAll(invoiceNo) as IDBRequest<InvoiceRecord[]>))
+    .map(normalizeRecord);
+
+const complete = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Saving over a record whose form changed keeps the old version as a revision,
+// in the same transaction as the write.
+export const putInvoice = async (rec: InvoiceRecord) => {
+  const tx = (await openDb()).transaction([INVOICES, REVISIONS], "readwrite");
+  const invoices = tx.objectStore(INVOICES);
+  const revisions = tx.objectStore(REVISIONS);
+  const prevReq = invoices.get(rec.id) as IDBRequest<InvoiceRecord | undefined>;
+  prevReq.onsuccess = () => {
+    const prev = prevReq.result;
+    invoices.put(rec);
+    if (!prev || JSON.stringify(prev.form) === JSON.stringify(rec.form)) return;
+    revisions.put(toRevision(prev));
+    const all = revisions.index("recordId").getAll(rec.id) as IDBRequest<Revision[]>;
+    all.onsuccess = () => all.result
+      .sort((a, b) => b.savedAt - a.savedAt)
+      .slice(MAX_REVISIONS)
+      .forEach(r => revisions.delete(r.id));
+  };
+  await complete(tx);
+  return rec;
+};
+
+export const deleteInvoice = async (id: string) => {
+  const tx = (await openDb()).transaction([INVOICES, REVISIONS], "readwrite");
+  tx.objectStore(INVOICES).delete(id);
+  const keys = tx.objectStore(REVISIONS).index("recordId").getAllKeys(id);
+  keys.onsuccess = () => keys.result.forEach(k => tx.objectStore(REVISIONS).delete(k));
+  await complete(tx);
+};
+
+// newest first
+export const listRevisions = async (recordId: string): Promise<Revision[]> =>
+  (await done((await store(REVISIONS)).index("recordId").getAll(recordId) as IDBRequest<Revision[]>))
+    .map(r => ({ ...r, form: normalizeForm(r.form) }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+
+export const listAllRevisions = async (): Promise<Revision[]> =>
+  done((await store(REVISIONS)).getAll() as IDBRequest<Revision[]>);
+
+// Writes records and revisions exactly as given (no new revisions, ids kept),
+// replacing any with the same id, all in one transaction. Used by backup
+// restore and to store a recurring run's new documents together.
+export const restoreRecords = async (records: InvoiceRecord[], revisions: Revision[]) => {
+  const tx = (await openDb()).transaction([INVOICES, REVISIONS], "readwrite");
+  records.forEach(r => tx.objectStore(INVOICES).put(r));
+  revisions.forEach(r => tx.objectStore(REVISIONS).put(r));
+  await complete(tx);
+};
+
+/* ---------- working draft ------------------------------------------------ */
+export type Draft = { form: Form; recordId: string | null };
+
+export const loadDraft = async (): Promise<Draft | undefined> => {
+  const d = await done((await store(META)).get("draft") as IDBRequest<Draft | undefined>);
+  return d && { ...d, form: normalizeForm(d.form) };
+};
+
+export const saveDraft = async (draft: Draft) => {
+  await done((await store(META, "readwrite")).put(draft, "draft"));
+};
+
+/* ---------- localStorage migration -------------------------------------- */
+const LEGACY_DRAFT_KEY = "invoice_draft_v3";
+const LEGACY_SAVE_PREFIX = "invoice_save_";
+
+// Moves `invoice_save_*` entries and the `invoice_draft_v3` autosave into
+// IndexedDB, then removes them from localStorage. Unreadable entries are left
+// in place so nothing is lost. Resolves to the number of invoices migrated; a
+// failed run is forgotten so the next call tries again.
+let migration: Promise<number> | null = null;
+export const migrateLocalStorage = () => migration ??= runMigration().catch(err => {
+  migration = null;
+  throw err;
+});
+
+const runMigration = async (): Promise<number> => {
+  const keys = Object.keys(localStorage).filter(k => k.startsWith(LEGACY_SAVE_PREFIX));
+  const rawDraft = localStorage.getItem(LEGACY_DRAFT_KEY);
+  if (!keys.length && !rawDraft) return 0;
+
+  const db = await openDb();
+  const tx = db.transaction([INVOICES, META], "readwrite");
+  const moved: string[] = [];
+  for (const key of keys) {
+    try {
+      const form = normalizeForm(JSON.parse(localStorage.getItem(key) ?? ""));
+      if (!form.invoiceNo) form.invoiceNo = key.slice(LEGACY_SAVE_PREFIX.length);
+      tx.objectStore(INVOICES).put(toRecord(form));
+      moved.push(key);
+    } catch { /* keep the key for manual recovery */ }
+  }
+  if (rawDraft) {
+    try {
+      const draft: Draft = { form: normalizeForm(JSON.parse(rawDraft)), recordId: null };
+      tx.objectStore(META).put(draft, "draft");
+      moved.push(LEGACY_DRAFT_KEY);
+    } catch { /* keep the key for manual recovery */ }
+  }
+  await complete(tx);
+  moved.forEach(k => localStorage.removeItem(k));
+  return moved.length - (moved.includes(LEGACY_DRAFT_KEY) ? 1 : 0);
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { readInvoiceJson } from "./invoiceJson";
+
+const form = { invoiceNo: "INV-1", date: "2026-04-01", items: [{ description: "Widget", qty: 2, rate: 50 }] };
+
+describe("readInvoiceJson", () => {
+  it("reads a bare form and fills in the defaults", () => {
+    const { form: f, payment, layout } = readInvoiceJson(JSON.stringify(form));
+    expect(f.invoiceNo).toBe("INV-1");
+    expect(f.docType).toBe("invoice");
+    expect(f.items[0]).toMatchObject({ description: "Widget", qty: 2, rate: 50, gstRate: 0, kind: "item" });
+    expect(f.items[0].id).toBeTruthy();
+    expect(payment.showQr).toBe(true);
+    expect(layout.template).toBe("classic");
+  });
+
+  it("reads a saved record or a one-document bundle, with payment and layout", () => {
+    const record = { id: "inv_1", status: "issued", form };
+    expect(readInvoiceJson(JSON.stringify(record)).form.invoiceNo).toBe("INV-1");
+    const bundle = {
+      format: "invoice-app/bundle", version: 1, invoices: [record],
+      payment: { vpa: "shop@okbank" }, layout: { template: "gst" },
+    };
+    const file = readInvoiceJson(JSON.stringify(bundle));
+    expect(file.form.invoiceNo).toBe("INV-1");
+    expect(file.payment.vpa).toBe("shop@okbank");
+    expect(file.layout).toMatchObject({ template: "gst", signatory: "Authorised Signatory" });
+  });
+
+  it("rejects what it cannot render", () => {
+    expect(() => readInvoiceJson("{")).toThrow(/not JSON/);
+    expect(() => readInvoiceJson("{}")).toThrow(/no items/);
+    expect(() => readInvoiceJson(JSON.stringify({ ...form, date: "01/04/2026" }))).toThrow(/YYYY-MM-DD/);
+    expect(() => readInvoiceJson(JSON.stringify({ invoices: [{ form }, { form }] }))).toThrow(/2 documents/);
+  });
+});
@@ -0,0 +1,38 @@
+import { normalizeForm, type Form, type LegacyForm } from "./invoice";
+import { EMPTY_PAYMENT, type PaymentSettings } from "./payment";
+import { DEFAULT_LAYOUT, type PdfLayout } from "./pdfLayout";
+
+/* ---------- invoice.json ------------------------------------------------- */
+// What headless callers (the CLI, backend jobs) hand in. Anything the app
+// writes is accepted: a bare form, a saved record ({ form, ... }) or a JSON
+// bundle holding one document. Optional top-level `payment` and `layout`
+// objects stand in for the app's bank/UPI and PDF layout settings.
+export type InvoiceFile = { form: Form; payment: PaymentSettings; layout: PdfLayout };
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObj = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+export const readInvoiceJson = (text: string): InvoiceFile => {
+  let raw: unknown;
+  try { raw = JSON.parse(text); } catch { throw new Error("This is not an invoice file (not JSON)."); }
+  if (!isObj(raw)) throw new Error("This is not an invoice file (expected a JSON object).");
+
+  let doc: unknown = raw;
+  if (Array.isArray(raw.invoices)) {
+    if (raw.invoices.length !== 1) {
+      throw new Error(`The bundle holds ${raw.invoices.length} documents; export them one at a time.`);
+    }
+    doc = raw.invoices[0];
+  }
+  const form = isObj(doc) && isObj(doc.form) ? doc.form : doc;
+  if (!isObj(form) || !Array.isArray(form.items)) throw new Error("This is not an invoice file (no items list).");
+  if (typeof form.date !== "string" || !ISO_DATE.test(form.date)) throw new Error("date: not YYYY-MM-DD");
+
+  return {
+    form: normalizeForm(form as LegacyForm),
+    payment: { ...EMPTY_PAYMENT(), ...(isObj(raw.payment) ? raw.payment : {}) },
+    layout: { ...DEFAULT_LAYOUT(), ...(isObj(raw.layout) ? raw.layout : {}) },
+  };
+};
@@ -0,0 +1,115 @@
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import { describe, expect, it } from "vitest";
+import { NEW_FORM, newItem, type Form } from "./invoice";
+import { EMPTY_PAYMENT } from "./payment";
+import { DEFAULT_LAYOUT, type PdfTemplate } from "./pdfLayout";
+import { unzipSync } from "fflate";
+import { toRecord } from "./invoiceDb";
+import { invoicePdfZip } from "./pdfZip";
+import { buildInvoicePdf, darkTheme, fmtDate, lightTheme, parseColor, type PdfInput } from "./invoicePdf";
+
+const require = createRequire(import.meta.url);
+const readFont = async (file: string) => (await readFile(require.resolve(file))).toString("base64");
+const noFont = () => Promise.reject(new Error("no font needed"));
+
+// runs without localStorage: the seller profile reads as empty
+const sample = (): Form => ({
+  ...NEW_FORM(),
+  invoiceNo: "INV-2026-007",
+  date: "2026-04-01",
+  dueDate: "2026-04-15",
+  seller: { ...NEW_FORM().seller, name: "Acme Traders", gstin: "29ABCDE1234F1Z5", state: "29", line1: "12 MG Road", city: "Bengaluru" },
+  buyer: { ...NEW_FORM().buyer, name: "Ravi Kumar", state: "33", city: "Chennai" },
+  items: [
+    { ...newItem(), description: "Laptop stand", qty: 2, rate: 1500, hsn: "8473", gstRate: 18 },
+    { ...newItem("section"), description: "Services" },
+    { ...newItem(), description: "Installation", qty: 1, rate: 500, hsn: "998729", gstRate: 18, discount: 10, discountMode: "percent" },
+    { ...newItem("subtotal") },
+  ],
+  notes: "Thank you",
+  pdfFont: "helvetica",
+});
+
+const input = (template: PdfTemplate, form = sample()): PdfInput => ({
+  form,
+  payment: { ...EMPTY_PAYMENT(), vpa: "acme@okbank", payeeName: "Acme Traders", bankName: "HDFC Bank", ifsc: "HDFC0001234" },
+  layout: { ...DEFAULT_LAYOUT(), template, terms: "Goods once sold are not taken back" },
+  theme: lightTheme(),
+  loadFont: noFont,
+});
+
+const build = async (i: PdfInput) => (await buildInvoicePdf(i)).pdf;
+
+// the text drawn on each page, in drawing order (uncompressed jsPDF output)
+const pdfText = async (pdf: Blob) => {
+  const src = new TextDecoder("latin1").decode(await pdf.arrayBuffer());
+  return [...src.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)].map(m => m[1].replace(/\\(.)/g, "$1"));
+};
+
+describe("buildInvoicePdf", () => {
+  it.each<PdfTemplate>(["classic", "compact", "gst"])("draws the %s template", async template => {
+    expect(await pdfText(await build(input(template)))).toMatchSnapshot();
+  });
+
+  it("does not depend on the theme for its content", async () => {
+    const dark = { ...input("classic"), theme: darkTheme() };
+    expect(await pdfText(await build(dark))).toEqual(await pdfText(await build(input("classic"))));
+  });
+
+  it("prints the footer on every page", async () => {
+    const withFooter = input("classic");
+    withFooter.layout.footer = "Regd. office: 12 MG Road, Bengaluru";
+    withFooter.form.items = Array.from({ length: 60 }, (_, i) => ({ ...newItem(), description: `Item ${i + 1}`, qty: 1, rate: 10 }));
+    const text = await pdfText(await build(withFooter));
+    const pages = text.filter(t => /^Page \d+ of \d+$/.test(t)).length;
+    expect(pages).toBeGreaterThan(1);
+    expect(text.filter(t => t === "Regd. office: 12 MG Road, Bengaluru")).toHaveLength(pages);
+  });
+
+  it("embeds the selected font read through the loader", async () => {
+    const pdf = await build({ ...input("classic", { ...sample(), pdfFont: "noto-sans" }), loadFont: readFont });
+    const src = new TextDecoder("latin1").decode(await pdf.arrayBuffer());
+    expect(src).toContain("/FontName /NotoSans");
+  });
+
+  it("leaves out an image it cannot draw and reports it", async () => {
+    const broken = input("classic");
+    broken.layout.logo = "data:image/png;base64,bm90IGFuIGltYWdl";
+    const { pdf, warnings } = await buildInvoicePdf(broken);
+    expect(warnings).toEqual([expect.stringMatching(/^The logo could not be drawn: /)]);
+    expect(await pdfText(pdf)).toEqual(await pdfText(await build(input("classic"))));
+  });
+
+  it("rejects when the font cannot be loaded", async () => {
+    await expect(buildInvoicePdf(input("classic", { ...sample(), pdfFont: "noto-sans" }))).rejects.toThrow("no font needed");
+  });
+});
+
+describe("invoicePdfZip", () => {
+  it("falls back to the built-in font and names the documents it did that for", async () => {
+    const records = [
+      toRecord(sample()),
+      toRecord({ ...sample(), invoiceNo: "INV-2026-008", pdfFont: "noto-sans" }),
+      toRecord({ ...sample(), invoiceNo: "", pdfFont: "noto-sans" }),
+    ];
+    const { zip, fallbackFont } = await invoicePdfZip(records, input("classic"));
+    expect(fallbackFont).toEqual(["INV-2026-008", "draft for Ravi Kumar"]);
+    expect(Object.keys(unzipSync(new Uint8Array(await zip.arrayBuffer()))))
+      .toEqual(["INV-2026-007.pdf", "INV-2026-008.pdf", "draft_Ravi_Kumar.pdf"]);
+  });
+});
+
+describe("theme and format helpers", () => {
+  it("parses hex and rgb() colours", () => {
+    expect(parseColor("#2563eb")).toEqual([37, 99, 235]);
+    expect(parseColor(" #26e ")).toEqual([34, 102, 238]);
+    expect(parseColor("rgb(15, 23, 42)")).toEqual([15, 23, 42]);
+    expect(parseColor("rebeccapurple")).toBeNull();
+  });
+
+  it("formats dates without going through the time zone", () => {
+    expect(fmtDate("2026-04-01")).toBe("01-04-2026");
+    expect(fmtDate("")).toBe("");
+  });
+});
@@ -0,0 +1,482 @@
+import { jsPDF } from "jspdf";
+import autoTable, { type CellHookData, type HookData, type RowInput, type UserOptions } from "jspdf-autotable";
+import { stateLabel } from "./gst";
+import { bankLine, qrMatrix, upiUri, type PaymentSettings } from "./payment";
+import { addressLines, partyLines } from "./parties";
+import { invoiceTotals, placeOfSupply, serials, type Form } from "./invoice";
+import { DOC_META, refLine } from "./documents";
+import { BASE_CURRENCY, amountInWords, currencyInfo, inrEquivalent, numberFmt } from "./currency";
+import { registerPdfFont, type FontLoader } from "./pdfFonts";
+import { hasIrn } from "./einvoice";
+import type { PdfLayout, PdfTemplate } from "./pdfLayout";
+
+/* ---------- theme -------------------------------------------------------- */
+// The PDF never reads the page's CSS: callers pass the colours in. The app
+// takes them from its CSS variables; the CLI from flags.
+export type RGB = [number, number, number];
+
+export type PdfTheme = { bg: RGB; text: RGB; accent: RGB; surface: RGB };
+
+export const DEFAULT_ACCENT: RGB = [37, 99, 235];
+
+// print-friendly: white paper, dark ink; the accent is kept
+export const lightTheme = (accent: RGB = DEFAULT_ACCENT): PdfTheme => ({
+  bg: [255, 255, 255], text: [10, 10, 10], accent, surface: [255, 255, 255],
+});
+
+// the app's dark palette (:root.dark in index.css)
+export const darkTheme = (accent: RGB = [96, 165, 250]): PdfTheme => ({
+  bg: [15, 23, 42], text: [226, 232, 240], accent, surface: [30, 41, 59],
+});
+
+// "#2563eb", "#26e" or "rgb(37, 99, 235)"; null for anything else (named colours)
+export const parseColor = (value: string): RGB | null => {
+  const v = value.trim();
+  const hex = v.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) {
+    const h = hex[1].length === 3 ? hex[1].split("").map(c => c + c).join("") : hex[1];
+    const n = parseInt(h, 16);
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+  }
+  const m = v.match(/^rgba?\((\d+),\s*(\d+),\s*(\d+)/i);
+  return m ? [parseInt(m[1]), parseInt(m[2]), parseInt(m[3])] : null;
+};
+
+// very subtle tint for zebra rows / lines
+const tint = ([r, g, b]: RGB, amt = 10): RGB => {
+  const clamp = (x: number) => Math.max(0, Math.min(255, x));
+  return [clamp(r + amt), clamp(g + amt), clamp(b + amt)];
+};
+
+/* ---------- template metrics -------------------------------------------- */
+type TemplateStyle = {
+  body: number;         // base font size
+  table: number;        // table font size
+  pad: number;          // table cell padding
+  zebra: boolean;
+  hsnSummary: boolean;
+  lineTax: boolean;     // per-line taxable value and GST amounts in the items table
+  bankBlock: boolean;   // bank details as a block (else one line under the QR)
+};
+
+const STYLES: Record<PdfTemplate, TemplateStyle> = {
+  classic: { body: 9, table: 9, pad: 2, zebra: true, hsnSummary: true, lineTax: false, bankBlock: true },
+  compact: { body: 8, table: 8, pad: 1.2, zebra: false, hsnSummary: false, lineTax: false, bankBlock: false },
+  gst: { body: 8.5, table: 7.5, pad: 1.5, zebra: true, hsnSummary: true, lineTax: true, bankBlock: true },
+};
+
+const MARGIN = 14;
+const RUNNING_TOP = 24;   // content top on continuation pages
+const FOOTER_H = 14;      // reserved for "Page X of Y"
+
+/* ---------- helpers ------------------------------------------------------ */
+// read from the text, not through Date, so the time zone cannot shift the day
+export const fmtDate = (iso?: string) => {
+  const m = iso?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return m ? `${m[3]}-${m[2]}-${m[1]}` : "";
+};
+
+// helvetica only covers Latin-1 (plus €); anything else prints as the ISO code
+const pdfSymbol = (code: string, unicode: boolean) => {
+  const { symbol } = currencyInfo(code);
+  if (unicode) return symbol;
+  if (code === "INR") return "Rs.";
+  return /^[\x20-\x7E\u00A0-\u00FF€]+$/.test(symbol) ? symbol : `${code} `;
+};
+
+const imageFormat = (dataUrl: string) => (/^data:image\/png/i.test(dataUrl) ? "PNG" : "JPEG");
+
+/* ---------- builder ------------------------------------------------------ */
+export type PdfInput = {
+  form: Form;
+  payment: PaymentSettings;
+  layout: PdfLayout;
+  theme: PdfTheme;
+  loadFont: FontLoader;
+};
+
+// the file, plus what could not be drawn (a broken logo or signature image)
+export type PdfResult = { pdf: Blob; warnings: string[] };
+
+// Draws the invoice on A4 and returns the file, ready to download, share or
+// zip. Long item lists flow onto further pages; every page gets the running
+// header and "Page X of Y". An image that cannot be drawn is left out and
+// reported in `warnings`. Rejects if the font cannot be loaded.
+export const buildInvoicePdf = async ({ form, payment, layout, theme, loadFont }: PdfInput): Promise<PdfResult> => {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const warnings: string[] = [];
+  const font = await registerPdfFont(doc, form.pdfFont, loadFont);
+  const unicode = font !== "helvetica";
+  const st = STYLES[layout.template] ?? STYLES.classic;
+  const { bg, text, accent, surface } = theme;
+  const line = tint(surface, 18);
+
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const bottom = pageH - FOOTER_H - 4;
+
+  const meta = DOC_META[form.docType];
+  const totals = invoiceTotals(form);
+  const { tax } = totals;
+  const intra = tax.supply === "intra";
+  const displayNo = form.invoiceNo || "DRAFT";
+  const cur = currencyInfo(form.currency);
+  const num = numberFmt(cur.decimals, form.numberSystem);
+  const sym = pdfSymbol(form.currency, unicode);
+  const m = (n: number) => `${sym}${num(n)}`;
+  const upi = payment.showQr && meta.payable && form.currency === BASE_CURRENCY
+    ? upiUri(payment, totals.grand, form.invoiceNo) : "";
+  const inr = inrEquivalent(totals.grand, form.currency, +form.exchangeRate || 0);
+
+  const setText = (size: number, style: "normal" | "bold" = "normal", color: RGB = text) => {
+    doc.setFont(font, style);
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+  };
+
+  /* pages: background + running header, painted once per page */
+  const decorated = new Set<number>();
+  const decorate = () => {
+    const page = doc.getCurrentPageInfo().pageNumber;
+    if (decorated.has(page)) return;
+    decorated.add(page);
+    doc.setFillColor(...bg);
+    doc.rect(0, 0, pageW, pageH, "F");
+    if (page === 1) return;
+    setText(10, "bold");
+    doc.text(form.seller.name || "Invoice", MARGIN, 14);
+    setText(10, "bold", accent);
+    doc.text(`${meta.title} ${displayNo}`, pageW - MARGIN, 14, { align: "right" });
+    doc.setDrawColor(...accent);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, 17, pageW - MARGIN, 17);
+  };
+  decorate();
+
+  let y = 0;
+  // start a new page when the next block of height h would run into the footer
+  const ensure = (h: number) => {
+    if (y + h <= bottom) return;
+    doc.addPage();
+    decorate();
+    y = RUNNING_TOP;
+  };
+
+  const table = (opts: UserOptions) => {
+    let end = y;
+    autoTable(doc, {
+      theme: "grid",
+      margin: { top: RUNNING_TOP, bottom: FOOTER_H + 4, left: MARGIN, right: MARGIN },
+      headStyles: { fillColor: accent, textColor: [255, 255, 255], fontStyle: "bold" },
+      styles: {
+        font,
+        fontSize: st.table,
+        cellPadding: st.pad,
+        textColor: text,
+        fillColor: surface,
+        lineColor: line,
+        lineWidth: 0.15,
+      },
+      tableLineColor: line,
+      ...opts,
+      willDrawPage: decorate,
+      didDrawPage: (data: HookData) => { end = data.cursor?.y ?? end; },
+    });
+    y = end;
+  };
+
+  /* header: logo, seller, document title + meta */
+  let hx = MARGIN;
+  let hy = 12;
+  if (layout.logo) {
+    try {
+      const p = doc.getImageProperties(layout.logo);
+      const h = 18, w = Math.min(40, h * p.width / p.height);
+      doc.addImage(layout.logo, imageFormat(layout.logo), MARGIN, 10, w, w * p.height / p.width);
+      hx = MARGIN + w + 4;
+    } catch (err) {
+      warnings.push(`The logo could not be drawn: ${(err as Error).message}`);
+    }
+  }
+  setText(st.body + 9, "bold");
+  doc.text(form.seller.name || "Invoice", hx, hy + 6);
+  setText(st.body);
+  hy += 12;
+  for (const l of partyLines(form.seller)) { doc.text(l, hx, hy); hy += st.body * 0.5; }
+  if (layout.logo) hy = Math.max(hy, 30);
+
+  setText(st.body + 4, "bold", accent);
+  doc.text(meta.title, pageW - MARGIN, 16, { align: "right" });
+  setText(st.body + 1);
+  const metaLines = [
+    `${meta.noLabel}: ${displayNo}`,
+    `Date: ${fmtDate(form.date)}`,
+    form.dueDate ? `${meta.dueLabel}: ${fmtDate(form.dueDate)}` : "",
+    placeOfSupply(form) ? `Place of Supply: ${stateLabel(placeOfSupply(form))}` : "",
+    layout.template === "gst" ? `Supply: ${intra ? "Intra-state (CGST + SGST)" : "Inter-state (IGST)"}` : "",
+    form.ref?.no ? refLine({ ...form.ref, date: fmtDate(form.ref.date) }) : "",
+  ].filter(Boolean);
+  let my = 22;
+  for (const l of metaLines) { doc.text(l, pageW - MARGIN, my, { align: "right" }); my += 5; }
+
+  // QR codes are always black on white with a quiet zone, whatever the theme
+  const drawQr = (value: string, x: number, top: number, size: number) => {
+    const qr = qrMatrix(value);
+    const cell = size / (qr.length + 4);
+    doc.setFillColor(255, 255, 255);
+    doc.rect(x, top, size, size, "F");
+    doc.setFillColor(0, 0, 0);
+    qr.forEach((r, ri) => r.forEach((dark, ci) => {
+      if (dark) doc.rect(x + (ci + 2) * cell, top + (ri + 2) * cell, cell, cell, "F");
+    }));
+  };
+
+  /* e-invoice registration: IRN / ack on the left, signed QR on the right */
+  let irnBottom = Math.max(hy, my);
+  if (hasIrn(form.irn)) {
+    const top = irnBottom + 2;
+    const qrH = form.irn.signedQr.trim() ? 32 : 0;
+    setText(st.body, "bold", accent);
+    doc.text("e-Invoice", MARGIN, top + 4);
+    setText(st.body - 1);
+    const irnLines = [
+      `IRN: ${form.irn.irn.trim()}`,
+      form.irn.ackNo.trim() ? `Ack No: ${form.irn.ackNo.trim()}` : "",
+      form.irn.ackDate.trim() ? `Ack Date: ${form.irn.ackDate.trim()}` : "",
+    ].filter(Boolean);
+    let iy = top + 9;
+    for (const l of irnLines) {
+      for (const part of doc.splitTextToSize(l, pageW - 2 * MARGIN - qrH - 6) as string[]) {
+        doc.text(part, MARGIN, iy); iy += st.body * 0.45;
+      }
+    }
+    if (qrH) drawQr(form.irn.signedQr.trim(), pageW - MARGIN - qrH, top, qrH);
+    irnBottom = Math.max(iy, top + qrH);
+  }
+
+  /* Bill To / Ship To */
+  const partyBlock = (title: string, name: string, lines: string[], x: number, top: number) => {
+    setText(st.body, "bold", accent);
+    doc.text(title, x, top);
+    setText(st.body + 1, "bold");
+    doc.text(name || "—", x, top + 5);
+    setText(st.body);
+    let by = top + 10;
+    const shown = layout.template === "compact" ? [lines.join(", ")] : lines;
+    for (const l of shown) {
+      for (const part of doc.splitTextToSize(l, pageW / 2 - MARGIN - 4) as string[]) {
+        doc.text(part, x, by); by += st.body * 0.5;
+      }
+    }
+    return by;
+  };
+  const partyTop = irnBottom + 4;
+  let partyBottom = partyBlock("Bill To", form.buyer.name, partyLines(form.buyer), MARGIN, partyTop);
+  if (!form.shipToSame) {
+    partyBottom = Math.max(partyBottom,
+      partyBlock("Ship To", form.shipTo.name, addressLines(form.shipTo), pageW / 2 + 4, partyTop));
+  }
+  y = partyBottom + 2;
+
+  /* items */
+  const s = sym.trim();
+  const disc = (i: number) => {
+    const it = form.items[i];
+    return it.discountMode === "percent" ? `${+it.discount || 0}%` : num(+it.discount || 0);
+  };
+  const rateHead = `Rate (${s})${form.priceMode === "inclusive" ? " incl. GST" : ""}`;
+  const head = st.lineTax
+    ? ["S.N", "Description", "HSN", "Qty", "Unit", rateHead, "Disc", "Taxable", "GST %",
+      ...(intra ? ["CGST", "SGST"] : ["IGST"]), "Cess", `Total (${s})`]
+    : ["S.N", "Description", "Qty", "Unit", rateHead, "Disc", "GST %", `Amount (${s})`];
+  const sn = serials(form.items);
+  const body = form.items.map((it, i): RowInput => {
+    // headings span the table; subtotals sit in the Amount / Taxable column (index 7)
+    if (it.kind === "section") {
+      return [{ content: it.description, colSpan: head.length, styles: { fontStyle: "bold" } }];
+    }
+    if (it.kind === "subtotal") {
+      const bold = { fontStyle: "bold" as const, halign: "right" as const };
+      return [
+        { content: it.description || "Subtotal", colSpan: 7, styles: bold },
+        { content: num(totals.lines[i].sum ?? 0), styles: bold },
+        ...(head.length > 8 ? [{ content: "", colSpan: head.length - 8 }] : []),
+      ];
+    }
+    if (!st.lineTax) {
+      return [
+        String(sn[i]), it.description || "", String(it.qty || 0), it.unit || "",
+        num(+it.rate || 0), disc(i), String(+it.gstRate || 0), num(totals.lines[i].net),
+      ];
+    }
+    const lt = tax.lines[i];
+    return [
+      String(sn[i]), it.description || "", it.hsn, String(it.qty || 0), it.unit || "",
+      num(+it.rate || 0), disc(i), num(lt.taxable), String(lt.rate),
+      ...(intra ? [num(lt.cgst), num(lt.sgst)] : [num(lt.igst)]), num(lt.cess), num(lt.total),
+    ];
+  });
+  const right = { halign: "right" as const };
+  table({
+    startY: y,
+    head: [head],
+    body,
+    headStyles: { fillColor: accent, textColor: [255, 255, 255], fontStyle: "bold", halign: "left" },
+    ...(st.zebra ? { alternateRowStyles: { fillColor: tint(surface, 8) } } : {}),
+    columnStyles: st.lineTax
+      ? Object.fromEntries(head.map((_, c) => [c, c === 0 ? { halign: "center" } : c === 1 ? {} : right]))
+      : {
+        0: { halign: "center", cellWidth: 10 },
+        2: { halign: "right",  cellWidth: 14 },
+        3: { halign: "center", cellWidth: 14 },
+        4: { halign: "right",  cellWidth: 22 },
+        5: { halign: "right",  cellWidth: 22 },
+        6: { halign: "right",  cellWidth: 14 },
+        7: { halign: "right",  cellWidth: 24 },
+      },
+    // safety: if any cell still comes out pure white on a dark theme, repaint it
+    didParseCell: (data: CellHookData) => {
+      const fc = data.cell.styles.fillColor as RGB | undefined;
+      if (fc && fc[0] === 255 && fc[1] === 255 && fc[2] === 255) data.cell.styles.fillColor = surface;
+    },
+  });
+
+  /* totals (kept together with the QR on one page) */
+  const rows: [string, string, boolean?][] = [
+    ["Subtotal", m(totals.subtotal)],
+    ["Overall Discount", m(totals.discount)],
+    ["Taxable Value", m(tax.taxable)],
+    ...(intra
+      ? [["CGST", m(tax.cgst)], ["SGST", m(tax.sgst)]] as [string, string][]
+      : [["IGST", m(tax.igst)]] as [string, string][]),
+    ...(tax.cess ? [["Cess", m(tax.cess)]] as [string, string][] : []),
+    ["Round Off", m(totals.roundoff)],
+    [meta.totalLabel, (meta.sign < 0 ? "-" : "") + m(totals.grand), true],
+  ];
+  const qrSize = layout.template === "compact" ? 24 : 30;
+  const bank = bankLine(payment);
+  const payH = (upi ? qrSize + 8 : 0) + (bank && !st.bankBlock ? 5 : 0);
+  y += 8;
+  ensure(Math.max(rows.length * 6, payH + 4));
+  const totalsTop = y;
+  const rightX = pageW - 12;
+  for (const [label, value, strong] of rows) {
+    setText(strong ? st.body + 2 : st.body + 1, strong ? "bold" : "normal", strong ? accent : text);
+    doc.text(label, rightX - 60, y);
+    doc.text(value, rightX, y, { align: "right" });
+    y += 6;
+  }
+
+  // UPI QR (+ bank line in the compact layout), left of the totals
+  const payTop = totalsTop - 4;
+  let payBottom = payTop;
+  if (upi) {
+    drawQr(upi, MARGIN, payTop, qrSize);
+    setText(8);
+    doc.text("Scan to pay via UPI", MARGIN, payTop + qrSize + 4);
+    doc.text(payment.vpa.trim(), MARGIN, payTop + qrSize + 8);
+    payBottom = payTop + qrSize + 8;
+  }
+  if (bank && !st.bankBlock) {
+    setText(8);
+    doc.text(bank, MARGIN, payBottom + 5);
+    payBottom += 5;
+  }
+  y = Math.max(y, payBottom + 4);
+
+  /* amount in words (+ INR equivalent on export invoices) */
+  const words = doc.splitTextToSize(
+    `Amount in words: ${amountInWords(totals.grand, form.currency, form.numberSystem)}`, pageW - 2 * MARGIN,
+  ) as string[];
+  ensure(words.length * 4.5 + (inr ? 4.5 : 0));
+  setText(st.body, "bold");
+  for (const l of words) { doc.text(l, MARGIN, y + 2); y += 4.5; }
+  if (inr) {
+    setText(st.body);
+    doc.text(unicode ? inr : inr.replace(/₹/g, "Rs."), MARGIN, y + 2); y += 4.5;
+  }
+
+  /* HSN-wise tax summary */
+  if (st.hsnSummary && tax.hsn.length) {
+    y += 4;
+    ensure(16);
+    table({
+      startY: y,
+      head: [[
+        "HSN/SAC", "Taxable", "GST %",
+        ...(intra ? ["CGST", "SGST"] : ["IGST"]), "Cess", "Total Tax",
+      ]],
+      body: tax.hsn.map(h => [
+        h.hsn || "—",
+        num(h.taxable),
+        String(h.rate),
+        ...(intra ? [num(h.cgst), num(h.sgst)] : [num(h.igst)]),
+        num(h.cess),
+        num(h.cgst + h.sgst + h.igst + h.cess),
+      ]),
+      styles: {
+        font, fontSize: Math.min(st.table, 8), cellPadding: 1.5, textColor: text,
+        fillColor: surface, lineColor: line, lineWidth: 0.15, halign: "right",
+      },
+      columnStyles: { 0: { halign: "left" } },
+    });
+  }
+
+  /* text sections: bank details, notes, terms */
+  const section = (title: string, lines: string[]) => {
+    const wrapped = lines.flatMap(l => doc.splitTextToSize(l, pageW - 2 * MARGIN) as string[]);
+    y += 5;
+    ensure(10);
+    setText(st.body, "bold", accent);
+    doc.text(title, MARGIN, y);
+    y += 4.5;
+    setText(st.body);
+    for (const l of wrapped) {
+      ensure(4.5);
+      doc.text(l, MARGIN, y);
+      y += st.body * 0.5;
+    }
+  };
+  if (st.bankBlock && (bank || payment.payeeName.trim())) {
+    section("Bank Details", [
+      payment.payeeName.trim() && `Account Name: ${payment.payeeName.trim()}`,
+      payment.bankName && `Bank: ${payment.bankName}`,
+      payment.accountNo && `A/c No: ${payment.accountNo}`,
+      payment.ifsc && `IFSC: ${payment.ifsc.toUpperCase()}`,
+    ].filter(Boolean) as string[]);
+  }
+  if (form.notes.trim()) section("Notes", form.notes.trim().split("\n"));
+  if (layout.terms.trim()) section("Terms & Conditions", layout.terms.trim().split("\n"));
+
+  /* authorised signatory, bottom right */
+  y += 6;
+  ensure(32);
+  setText(st.body, "bold");
+  doc.text(`For ${form.seller.name || ""}`.trim(), pageW - MARGIN, y, { align: "right" });
+  if (layout.signature) {
+    try {
+      const p = doc.getImageProperties(layout.signature);
+      const h = 14, w = Math.min(50, h * p.width / p.height);
+      doc.addImage(layout.signature, imageFormat(layout.signature),
+        pageW - MARGIN - w, y + 2, w, w * p.height / p.width);
+    } catch (err) {
+      warnings.push(`The signature could not be drawn: ${(err as Error).message}`);
+    }
+  }
+  setText(st.body);
+  doc.text(layout.signatory || "Authorised Signatory", pageW - MARGIN, y + 22, { align: "right" });
+
+  /* footer on every page */
+  const pages = doc.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    doc.setPage(p);
+    setText(8, "normal", tint(text, text[0] > 128 ? -60 : 90));
+    if (layout.footer.trim()) {
+      const [first] = doc.splitTextToSize(layout.footer.trim(), pageW - 2 * MARGIN) as string[];
+      doc.text(first, pageW / 2, pageH - 13, { align: "center" });
+    }
+    doc.text(`${meta.label} ${displayNo}`, MARGIN, pageH - 8);
+    doc.text(`Page ${p} of ${pages}`, pageW - MARGIN, pageH - 8, { align: "right" });
+  }
+  return { pdf: doc.output("blob"), warnings };
+};
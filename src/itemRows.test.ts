@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { newItem, type Item } from "./invoice";
+import { applyPaste, duplicateRow, isGridPaste, moveRow, parseGridPaste } from "./itemRows";
+
+const rows = (...names: string[]): Item[] => names.map(description => ({ ...newItem(), description }));
+
+describe("row operations", () => {
+  it("moves a row and keeps the others in order", () => {
+    const items = rows("a", "b", "c");
+    expect(moveRow(items, 0, 2).map(i => i.description)).toEqual(["b", "c", "a"]);
+    expect(moveRow(items, 2, 0).map(i => i.description)).toEqual(["c", "a", "b"]);
+    expect(moveRow(items, 1, 5)).toBe(items);
+  });
+
+  it("duplicates a row under itself with a fresh id", () => {
+    const items = rows("a", "b");
+    const next = duplicateRow(items, 0);
+    expect(next.map(i => i.description)).toEqual(["a", "a", "b"]);
+    expect(next[1].id).not.toBe(next[0].id);
+  });
+});
+
+describe("spreadsheet paste", () => {
+  it("only takes over multi-cell pastes", () => {
+    expect(isGridPaste("Widget\n")).toBe(false);
+    expect(isGridPaste("Widget\t2")).toBe(true);
+    expect(isGridPaste("Widget\nCable\n")).toBe(true);
+  });
+
+  it("reads headerless cells from the column pasted into", () => {
+    expect(parseGridPaste("2\tNos\t₹1,250.50\t10%\n1\tPcs.\t80\t", "qty")).toEqual([
+      { qty: 2, unit: "Nos", rate: 1250.5, discount: 10, discountMode: "percent" },
+      { qty: 1, unit: "Pcs.", rate: 80, discount: 0 },
+    ]);
+  });
+
+  it("maps columns by header name, ignoring unknown ones", () => {
+    const text = 'Item\tColour\tHSN/SAC\tQty\tPrice\n"Cable, 2m"\tred\t8544\t3\t120\n';
+    expect(parseGridPaste(text, "rate")).toEqual([
+      { description: "Cable, 2m", hsn: "8544", qty: 3, rate: 120 },
+    ]);
+  });
+
+  it("fills item rows from the paste point and inserts the rest", () => {
+    const items = [...rows("a", ""), { ...newItem("subtotal") }];
+    const next = applyPaste(items, 1, [{ description: "x" }, { description: "y" }]);
+    expect(next.map(i => [i.kind, i.description])).toEqual([
+      ["item", "a"], ["item", "x"], ["item", "y"], ["subtotal", ""],
+    ]);
+    expect(next[1].id).toBe(items[1].id);
+  });
+});
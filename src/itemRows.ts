@@ -0,0 +1,82 @@
+import { headerIndex, parseCsv } from "./csv";
+import { newItem, newRowId, type Item } from "./invoice";
+import { isLine } from "./pricing";
+
+/* ---------- row operations ----------------------------------------------- */
+export const moveRow = (items: Item[], from: number, to: number): Item[] => {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const next = [...items];
+  const [row] = next.splice(from, 1);
+  next.splice(to, 0, row);
+  return next;
+};
+
+export const duplicateRow = (items: Item[], i: number): Item[] =>
+  [...items.slice(0, i + 1), { ...items[i], id: newRowId() }, ...items.slice(i + 1)];
+
+/* ---------- paste from a spreadsheet ------------------------------------- */
+// Cells copied from Excel or Google Sheets arrive as tab-separated lines. With
+// a header row the columns are matched by name; without one they are read in
+// PASTE_COLUMNS order, starting at the column the user pasted into.
+export type PasteColumn = "description" | "qty" | "unit" | "rate" | "discount" | "hsn" | "sku";
+
+export const PASTE_COLUMNS: PasteColumn[] = ["description", "qty", "unit", "rate", "discount", "hsn", "sku"];
+
+const HEADER_NAMES: Record<PasteColumn, string[]> = {
+  description: ["description", "item", "particulars", "product"],
+  qty: ["quantity", "qty"],
+  unit: ["unit", "uqc", "uom"],
+  rate: ["rate", "unit price", "price"],
+  discount: ["discount", "disc"],
+  hsn: ["hsn/sac", "hsn", "sac"],
+  sku: ["sku", "item code", "code"],
+};
+
+// a single cell (spreadsheets add a trailing newline) is left to the input
+export const isGridPaste = (text: string) => /[\t\r\n]/.test(text.replace(/\r?\n$/, ""));
+
+// "₹1,250.00" → 1250; blank → 0; anything unreadable stays NaN for validation
+const amount = (v: string) => {
+  const s = v.replace(/[^\d.-]/g, "");
+  return s === "" ? 0 : Number(s);
+};
+
+const isNumeric = (v: string) => v.trim() !== "" && Number.isFinite(amount(v)) && /\d/.test(v);
+
+export const parseGridPaste = (text: string, startCol: PasteColumn = "description"): Partial<Item>[] => {
+  const rows = parseCsv(text, "\t");
+  if (!rows.length) return [];
+
+  const byName = PASTE_COLUMNS.map(c => headerIndex(rows[0], ...HEADER_NAMES[c]));
+  const hasHeader = byName.some(i => i >= 0) && !rows[0].some(isNumeric);
+  const fieldAt: (PasteColumn | undefined)[] = [];
+  if (hasHeader) byName.forEach((c, k) => { if (c >= 0 && !fieldAt[c]) fieldAt[c] = PASTE_COLUMNS[k]; });
+  const start = PASTE_COLUMNS.indexOf(startCol);
+
+  return (hasHeader ? rows.slice(1) : rows).map(r => {
+    const patch: Partial<Item> = {};
+    r.forEach((cell, c) => {
+      const k = hasHeader ? fieldAt[c] : PASTE_COLUMNS[start + c];
+      const v = cell.trim();
+      if (!k) return;
+      if (k === "qty" || k === "rate") patch[k] = amount(v);
+      else if (k === "discount") {
+        patch.discount = amount(v);
+        if (v.endsWith("%")) patch.discountMode = "percent";
+      } else patch[k] = v;
+    });
+    return patch;
+  });
+};
+
+// Pasted rows overwrite the item rows from `at` down; past the last item row
+// (or at a heading/subtotal) the rest are inserted as new rows.
+export const applyPaste = (items: Item[], at: number, rows: Partial<Item>[]): Item[] => {
+  const next = [...items];
+  rows.forEach((patch, k) => {
+    const i = at + k;
+    if (i < next.length && isLine(next[i])) next[i] = { ...next[i], ...patch };
+    else next.splice(i, 0, { ...newItem(), ...patch });
+  });
+  return next;
+};
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { newItem, type Form } from "./invoice";
+import type { InvoiceRecord } from "./invoiceDb";
+import { monthlyTotals, outstandingByCustomer, todayIso, unconvertible } from "./ledger";
+import { makeForm, makeRecord } from "./testFixtures";
+
+// one untaxed line, so every amount is the plain rate
+const issued = (p: Partial<Form> = {}): InvoiceRecord => makeRecord({
+  invoiceNo: "INV-1", rounding: "none",
+  buyer: { ...makeForm().buyer, name: "Asha Stores" },
+  items: [{ ...newItem(), description: "Widget", qty: 1, rate: 1000, gstRate: 0 }],
+  ...p,
+});
+
+describe("dashboard aggregates", () => {
+  it("converts foreign-currency documents and leaves out those without a rate", () => {
+    const usd = {
+      ...issued({ invoiceNo: "INV-2", currency: "USD", exchangeRate: 83 }),
+      payments: [{ id: "p1", date: "2025-04-20", amount: 400, mode: "Bank Transfer" as const, reference: "" }],
+    };
+    const noRate = issued({ invoiceNo: "INV-3", currency: "EUR", exchangeRate: "" });
+    const records = [issued(), usd, noRate];
+
+    const [asha] = outstandingByCustomer(records, "2025-04-10");
+    expect(asha.invoices).toBe(2);
+    expect(asha.total).toBe(1000 + 600 * 83);
+    expect(monthlyTotals(records)).toEqual([
+      { month: "2025-04", invoices: 2, invoiced: 1000 + 1000 * 83, received: 400 * 83 },
+    ]);
+    expect(unconvertible(records).map(r => r.invoiceNo)).toEqual(["INV-3"]);
+  });
+
+  it("nets converted credit notes off the customer total", () => {
+    const credit = issued({
+      docType: "credit_note", invoiceNo: "CN-1", currency: "USD", exchangeRate: 80,
+      items: [{ ...newItem(), qty: 1, rate: 5, gstRate: 0 }],
+    });
+    const [asha] = outstandingByCustomer([issued(), credit], "2025-04-10");
+    expect(asha).toMatchObject({ credits: 400, total: 600 });
+  });
+});
+
+describe("todayIso", () => {
+  const tz = process.env.TZ;
+  afterEach(() => {
+    vi.useRealTimers();
+    process.env.TZ = tz;
+  });
+
+  it("gives the local date, not the UTC one", () => {
+    process.env.TZ = "Asia/Kolkata";
+    vi.useFakeTimers({ now: new Date("2025-03-31T20:00:00Z") });   // 01:30 on 1 April in India
+    expect(todayIso()).toBe("2025-04-01");
+  });
+});
@@ -0,0 +1,181 @@
+import { BASE_CURRENCY, currencyInfo, roundMinor } from "./currency";
+import { isReceivable } from "./documents";
+import type { InvoiceRecord } from "./invoiceDb";
+
+/* ---------- payment terms ----------------------------------------------- */
+export const PAYMENT_TERMS: { days: number; label: string }[] = [
+  { days: 0, label: "Due on receipt" },
+  { days: 7, label: "Net 7" },
+  { days: 15, label: "Net 15" },
+  { days: 30, label: "Net 30" },
+  { days: 45, label: "Net 45" },
+  { days: 60, label: "Net 60" },
+];
+
+// the local calendar date; toISOString would give the UTC one, which is still
+// yesterday in India until 05:30
+export const todayIso = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+export const addDays = (iso: string, days: number) => {
+  const d = new Date(iso + "T00:00:00Z");
+  if (isNaN(+d)) return "";
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+export const daysBetween = (fromIso: string, toIso: string) =>
+  Math.round((Date.parse(toIso + "T00:00:00Z") - Date.parse(fromIso + "T00:00:00Z")) / 86_400_000);
+
+/* ---------- payment ledger ---------------------------------------------- */
+export const PAYMENT_MODES = ["Cash", "UPI", "Bank Transfer", "Cheque", "Card", "Other"] as const;
+export type PaymentMode = (typeof PAYMENT_MODES)[number];
+
+export type PaymentEntry = {
+  id: string;
+  date: string;
+  amount: number;
+  mode: PaymentMode;
+  reference: string;
+};
+
+export const newPaymentId = () =>
+  `pay_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const r2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+// in the document's currency, to its minor unit
+const rMinor = (rec: InvoiceRecord, n: number) => roundMinor(n, currencyInfo(rec.form.currency).decimals);
+
+export const paidAmount = (rec: InvoiceRecord) => rMinor(rec, rec.payments.reduce((s, p) => s + p.amount, 0));
+export const balanceDue = (rec: InvoiceRecord) => rMinor(rec, Math.max(0, rec.grand - paidAmount(rec)));
+
+/* ---------- status ------------------------------------------------------- */
+// Only draft / issued / cancelled are stored; the rest follow from the ledger
+// and the due date, so they can never drift out of sync.
+export type DisplayStatus = "draft" | "issued" | "partial" | "paid" | "overdue" | "cancelled";
+
+export const STATUS_LABEL: Record<DisplayStatus, string> = {
+  draft: "Draft",
+  issued: "Issued",
+  partial: "Partially paid",
+  paid: "Paid",
+  overdue: "Overdue",
+  cancelled: "Cancelled",
+};
+
+export const statusOf = (rec: InvoiceRecord, today = todayIso()): DisplayStatus => {
+  if (rec.status === "draft" || rec.status === "cancelled") return rec.status;
+  if (!isReceivable(rec.form.docType)) return "issued";
+  const paid = paidAmount(rec);
+  if (paid >= rec.grand) return "paid";
+  if (rec.form.dueDate && rec.form.dueDate < today) return "overdue";
+  return paid > 0 ? "partial" : "issued";
+};
+
+// open = an issued receivable (invoice / debit note) with a balance left
+export const isOpen = (rec: InvoiceRecord) =>
+  rec.status === "issued" && isReceivable(rec.form.docType) && balanceDue(rec) > 0;
+
+const isIssuedCredit = (rec: InvoiceRecord) =>
+  rec.status === "issued" && rec.form.docType === "credit_note";
+
+/* ---------- dashboard aggregates ---------------------------------------- */
+// All in BASE_CURRENCY: a foreign-currency document and its payments are
+// converted at the exchange rate entered on it. One without a rate cannot be
+// converted and is left out; `unconvertible` lists them so the screen can say so.
+export const baseRate = (rec: InvoiceRecord) =>
+  rec.form.currency === BASE_CURRENCY ? 1 : +rec.form.exchangeRate || 0;
+
+const inBase = (rec: InvoiceRecord, amount: number) => r2(amount * baseRate(rec));
+
+const counted = (rec: InvoiceRecord) =>
+  rec.status === "issued" && (isReceivable(rec.form.docType) || rec.form.docType === "credit_note");
+
+export const unconvertible = (records: InvoiceRecord[]) => records.filter(r => counted(r) && !baseRate(r));
+
+export type AgeingBucket = "notDue" | "d0_30" | "d31_60" | "d60plus";
+
+export const AGEING_LABEL: Record<AgeingBucket, string> = {
+  notDue: "Not due",
+  d0_30: "0–30",
+  d31_60: "31–60",
+  d60plus: "60+",
+};
+
+// days past the due date (falls back to the invoice date when no due date)
+export const ageingBucket = (rec: InvoiceRecord, today = todayIso()): AgeingBucket => {
+  const late = daysBetween(rec.form.dueDate || rec.date, today);
+  if (late <= 0) return "notDue";
+  if (late <= 30) return "d0_30";
+  if (late <= 60) return "d31_60";
+  return "d60plus";
+};
+
+export type CustomerOutstanding = {
+  customer: string;
+  invoices: number;
+  credits: number;      // issued credit notes, netted off the total
+  total: number;
+  buckets: Record<AgeingBucket, number>;
+};
+
+export const outstandingByCustomer = (records: InvoiceRecord[], today = todayIso()): CustomerOutstanding[] => {
+  const map = new Map<string, CustomerOutstanding>();
+  const rowFor = (rec: InvoiceRecord) => {
+    const key = rec.customer.trim() || "—";
+    const row = map.get(key) ?? {
+      customer: key, invoices: 0, credits: 0, total: 0,
+      buckets: { notDue: 0, d0_30: 0, d31_60: 0, d60plus: 0 },
+    };
+    map.set(key, row);
+    return row;
+  };
+  const convertible = records.filter(r => baseRate(r) > 0);
+  for (const rec of convertible.filter(isIssuedCredit)) {
+    const row = rowFor(rec);
+    const credit = inBase(rec, rec.grand);
+    row.credits = r2(row.credits + credit);
+    row.total = r2(row.total - credit);
+  }
+  for (const rec of convertible.filter(isOpen)) {
+    const row = rowFor(rec);
+    const due = inBase(rec, balanceDue(rec));
+    const bucket = ageingBucket(rec, today);
+    row.invoices += 1;
+    row.total = r2(row.total + due);
+    row.buckets[bucket] = r2(row.buckets[bucket] + due);
+  }
+  return [...map.values()].filter(r => r.invoices > 0).sort((a, b) => b.total - a.total);
+};
+
+export type MonthTotals = { month: string; invoices: number; invoiced: number; received: number };
+
+// invoiced (net of credit notes) by document month, received by payment month;
+// drafts, cancelled documents, quotations and proformas are excluded
+export const monthlyTotals = (records: InvoiceRecord[]): MonthTotals[] => {
+  const map = new Map<string, MonthTotals>();
+  const row = (month: string) => {
+    const r = map.get(month) ?? { month, invoices: 0, invoiced: 0, received: 0 };
+    map.set(month, r);
+    return r;
+  };
+  for (const rec of records) {
+    if (!counted(rec) || !baseRate(rec)) continue;
+    if (isIssuedCredit(rec)) {
+      const m = row(rec.date.slice(0, 7));
+      m.invoiced = r2(m.invoiced - inBase(rec, rec.grand));
+      continue;
+    }
+    const m = row(rec.date.slice(0, 7));
+    m.invoices += 1;
+    m.invoiced = r2(m.invoiced + inBase(rec, rec.grand));
+    for (const p of rec.payments) {
+      const pm = row(p.date.slice(0, 7));
+      pm.received = r2(pm.received + inBase(rec, p.amount));
+    }
+  }
+  return [...map.values()].sort((a, b) => b.month.localeCompare(a.month));
+};
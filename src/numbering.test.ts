@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SERIES, financialYear, formatNumber, newSeriesId, nextSeq, patternError, reserveSeq, takeNumber,
+  type NumberSeries,
+} from "./numbering";
+
+const series = (p: Partial<NumberSeries> = {}): NumberSeries => ({ ...DEFAULT_SERIES()[0], ...p });
+
+describe("financialYear", () => {
+  it("starts on 1 April", () => {
+    expect(financialYear("2025-03-31")).toEqual({ start: 2024, label: "2024-25", short: "24-25" });
+    expect(financialYear("2025-04-01")).toEqual({ start: 2025, label: "2025-26", short: "25-26" });
+  });
+  it("pads the century turn", () => {
+    expect(financialYear("2099-12-01").label).toBe("2099-00");
+    expect(financialYear("2009-06-01").short).toBe("09-10");
+  });
+});
+
+describe("formatNumber", () => {
+  it("fills in the prefix, financial year and padded sequence", () => {
+    expect(formatNumber(series(), "2025-04-05", 7)).toBe("INV/25-26/0007");
+    expect(formatNumber(series({ pattern: "{PREFIX}-{FYL}-{SEQ:3}" }), "2026-01-15", 42)).toBe("INV-2025-26-042");
+  });
+  it("fills in calendar tokens and leaves an unpadded {SEQ} as is", () => {
+    expect(formatNumber(series({ pattern: "{YYYY}{MM}/{YY}/{SEQ}" }), "2026-01-15", 12345)).toBe("202601/26/12345");
+  });
+  it("never cuts a sequence longer than the width", () => {
+    expect(formatNumber(series(), "2025-04-05", 12345)).toBe("INV/25-26/12345");
+  });
+});
+
+describe("patternError", () => {
+  it("requires a sequence and known tokens", () => {
+    expect(patternError("{PREFIX}/{FY}/{SEQ:4}")).toBe("");
+    expect(patternError("{PREFIX}/{FY}")).toMatch(/must contain \{SEQ\}/);
+    expect(patternError("{PREFIX}/{DD}/{SEQ}")).toBe("Unknown token {DD}");
+  });
+});
+
+describe("counters", () => {
+  it("keeps one counter per financial year, so the sequence restarts in April", () => {
+    let s = reserveSeq(series(), "2026-03-31", 118);
+    expect(nextSeq(s, "2026-03-31")).toBe(119);
+    expect(nextSeq(s, "2026-04-01")).toBe(1);
+    s = reserveSeq(s, "2026-04-01", 1);
+    expect(s.counters).toEqual({ "2025-26": 118, "2026-27": 1 });
+  });
+  it("never moves a counter back", () => {
+    const s = reserveSeq(reserveSeq(series(), "2025-05-01", 10), "2025-06-01", 4);
+    expect(s.counters["2025-26"]).toBe(10);
+  });
+  it("skips numbers already taken", () => {
+    const taken = new Set(["INV/25-26/0001", "INV/25-26/0002"]);
+    const res = takeNumber(series(), "2025-04-05", taken);
+    expect(res.invoiceNo).toBe("INV/25-26/0003");
+    expect(res.series.counters["2025-26"]).toBe(3);
+    expect(taken.has("INV/25-26/0003")).toBe(true);
+  });
+});
+
+describe("newSeriesId", () => {
+  it("gives distinct ids within the same millisecond", () => {
+    const ids = new Set(Array.from({ length: 20 }, newSeriesId));
+    expect(ids.size).toBe(20);
+  });
+});
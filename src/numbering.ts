@@ -0,0 +1,96 @@
+import type { DocType } from "./documents";
+import { readJson, writeJson } from "./storage";
+
+/* ---------- series ------------------------------------------------------- */
+export type NumberSeries = {
+  id: string;
+  name: string;
+  docType: DocType;                  // which documents draw from this series
+  prefix: string;
+  pattern: string;                   // e.g. "{PREFIX}/{FY}/{SEQ:4}"
+  counters: Record<string, number>;  // financial year label → last issued sequence
+};
+
+// one series per document type, so e.g. credit notes never consume invoice numbers
+export const DEFAULT_SERIES = (): NumberSeries[] => [
+  { id: "inv", name: "Tax Invoice", docType: "invoice", prefix: "INV", pattern: "{PREFIX}/{FY}/{SEQ:4}", counters: {} },
+  { id: "qtn", name: "Quotation", docType: "quotation", prefix: "QTN", pattern: "{PREFIX}/{FY}/{SEQ:4}", counters: {} },
+  { id: "pi", name: "Proforma", docType: "proforma", prefix: "PI", pattern: "{PREFIX}/{FY}/{SEQ:4}", counters: {} },
+  { id: "cn", name: "Credit Note", docType: "credit_note", prefix: "CN", pattern: "{PREFIX}/{FY}/{SEQ:4}", counters: {} },
+  { id: "dn", name: "Debit Note", docType: "debit_note", prefix: "DN", pattern: "{PREFIX}/{FY}/{SEQ:4}", counters: {} },
+];
+
+export const seriesFor = (list: NumberSeries[], docType: DocType, id?: string) =>
+  list.find(s => s.id === id && s.docType === docType) ??
+  list.find(s => s.docType === docType) ??
+  list[0];
+
+export const newSeriesId = () => `ser_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/* ---------- financial year (1 April – 31 March) ------------------------- */
+export const financialYear = (iso: string) => {
+  const [y, m] = iso.split("-").map(Number);
+  const start = m >= 4 ? y : y - 1;
+  const end2 = String((start + 1) % 100).padStart(2, "0");
+  return { start, label: `${start}-${end2}`, short: `${String(start % 100).padStart(2, "0")}-${end2}` };
+};
+
+/* ---------- pattern ------------------------------------------------------ */
+// Tokens: {PREFIX} {FY} (25-26) {FYL} (2025-26) {YYYY} {YY} {MM} {SEQ} / {SEQ:n} (zero-padded)
+const TOKEN_RE = /\{(PREFIX|FYL|FY|YYYY|YY|MM|SEQ)(?::(\d+))?\}/g;
+
+export const patternError = (pattern: string): string => {
+  if (!/\{SEQ(:\d+)?\}/.test(pattern)) return "Pattern must contain {SEQ} or {SEQ:n}";
+  const unknown = pattern.replace(TOKEN_RE, "").match(/\{[^}]*\}/);
+  return unknown ? `Unknown token ${unknown[0]}` : "";
+};
+
+export const formatNumber = (s: NumberSeries, dateIso: string, seq: number): string => {
+  const fy = financialYear(dateIso);
+  const [y, m] = dateIso.split("-");
+  return s.pattern.replace(TOKEN_RE, (_, tok: string, width?: string) => {
+    switch (tok) {
+      case "PREFIX": return s.prefix;
+      case "FY": return fy.short;
+      case "FYL": return fy.label;
+      case "YYYY": return y;
+      case "YY": return y.slice(2);
+      case "MM": return m;
+      default: return String(seq).padStart(width ? +width : 1, "0");
+    }
+  });
+};
+
+// counters are per financial year, so the sequence restarts at 1 on 1 April
+export const nextSeq = (s: NumberSeries, dateIso: string) =>
+  (s.counters[financialYear(dateIso).label] ?? 0) + 1;
+
+export const previewNext = (s: NumberSeries, dateIso: string) =>
+  formatNumber(s, dateIso, nextSeq(s, dateIso));
+
+export const reserveSeq = (s: NumberSeries, dateIso: string, seq: number): NumberSeries => {
+  const fy = financialYear(dateIso).label;
+  return { ...s, counters: { ...s.counters, [fy]: Math.max(s.counters[fy] ?? 0, seq) } };
+};
+
+// Batch allocation (recurring runs, bulk creation): the next number in `s` not
+// in `taken`. The number is added to `taken`; the returned series has its
+// counter advanced and replaces `s`.
+export const takeNumber = (s: NumberSeries, dateIso: string, taken: Set<string>) => {
+  let seq = nextSeq(s, dateIso);
+  while (taken.has(formatNumber(s, dateIso, seq))) seq++;
+  const invoiceNo = formatNumber(s, dateIso, seq);
+  taken.add(invoiceNo);
+  return { invoiceNo, series: reserveSeq(s, dateIso, seq) };
+};
+
+/* ---------- local storage ------------------------------------------------ */
+const SERIES_KEY = "invoice_series_v1";
+
+// document types without any series yet get their default one
+export const loadSeries = (): NumberSeries[] => {
+  const list = readJson<NumberSeries[]>(SERIES_KEY, []);
+  const missing = DEFAULT_SERIES().filter(d => !list.some(s => s.docType === d.docType));
+  return [...list, ...missing];
+};
+export const saveSeries = (list: NumberSeries[]) => writeJson(SERIES_KEY, list);
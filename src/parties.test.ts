@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { gstinCheckChar, gstinError, isValidGstin, isValidPan } from "./parties";
+
+const GOOD = ["27AAPFU0939F1ZV", "29AAGCB7383J1Z4", "07AAGFF2194N1Z1"];
+
+describe("gstinCheckChar", () => {
+  it.each(GOOD)("gives the published check character of %s", g => {
+    expect(gstinCheckChar(g.slice(0, 14))).toBe(g[14]);
+  });
+});
+
+describe("gstinError", () => {
+  it.each(GOOD)("accepts %s", g => {
+    expect(gstinError(g)).toBe("");
+    expect(isValidGstin(g)).toBe(true);
+  });
+  it("accepts lower case and surrounding spaces", () => {
+    expect(gstinError(" 27aapfu0939f1zv ")).toBe("");
+  });
+  it("rejects a wrong check character or a mistyped character", () => {
+    expect(gstinError("27AAPFU0939F1ZW")).toBe("GSTIN checksum does not match");
+    expect(gstinError("27AAPFU0989F1ZV")).toBe("GSTIN checksum does not match");
+    expect(gstinError("27AAPFU0939F1ZV".replace("27", "29"))).toBe("GSTIN checksum does not match");
+  });
+  it("rejects a bad length, layout or state code", () => {
+    expect(gstinError("27AAPFU0939F1Z")).toBe("GSTIN must be 15 characters");
+    expect(gstinError("27AAPFU0939F1XV")).toBe("GSTIN format is invalid");
+    expect(gstinError("2AAAPFU0939F1ZV")).toBe("GSTIN format is invalid");
+    expect(gstinError("99AAPFU0939F1ZV")).toBe("GSTIN state code is invalid");
+  });
+  it("treats a blank GSTIN as no error but not as valid", () => {
+    expect(gstinError("  ")).toBe("");
+    expect(isValidGstin("  ")).toBe(false);
+  });
+});
+
+describe("isValidPan", () => {
+  it("accepts five letters, four digits and a letter", () => {
+    expect(isValidPan("AAPFU0939F")).toBe(true);
+    expect(isValidPan(" aapfu0939f ")).toBe(true);
+  });
+  it("rejects anything else", () => {
+    expect(isValidPan("AAPFU0939")).toBe(false);
+    expect(isValidPan("AAPF10939F")).toBe(false);
+    expect(isValidPan("AAPFU09391")).toBe(false);
+    expect(isValidPan("")).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { resolveState, stateLabel } from "./gst";
+import { readJson, writeJson } from "./storage";
+
+/* ---------- types -------------------------------------------------------- */
+export type Address = {
+  name: string;
+  line1: string;
+  line2: string;
+  city: string;
+  pincode: string;
+  state: string;        // GST state code
+};
+
+export type Party = Address & {
+  id: string;
+  gstin: string;
+  pan: string;
+  phone: string;
+  email: string;
+};
+
+export const EMPTY_ADDRESS = (): Address => ({
+  name: "", line1: "", line2: "", city: "", pincode: "", state: "",
+});
+
+export const EMPTY_PARTY = (): Party => ({
+  ...EMPTY_ADDRESS(), id: "", gstin: "", pan: "", phone: "", email: "",
+});
+
+export const newPartyId = () =>
+  `p_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+/* ---------- GSTIN / PAN validation -------------------------------------- */
+const GSTIN_CHARS = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+const GSTIN_RE = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const PAN_RE = /^[A-Z]{5}\d{4}[A-Z]$/;
+
+// Mod-36 check character over the first 14 characters (weights 1,2,1,2,…)
+export const gstinCheckChar = (first14: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const p = GSTIN_CHARS.indexOf(first14[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(p / 36) + (p % 36);
+  }
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36];
+};
+
+// "" when valid, otherwise a short reason for the inline hint
+export const gstinError = (value: string): string => {
+  const g = value.trim().toUpperCase();
+  if (!g) return "";
+  if (g.length !== 15) return "GSTIN must be 15 characters";
+  if (!GSTIN_RE.test(g)) return "GSTIN format is invalid";
+  if (!resolveState(g.slice(0, 2))) return "GSTIN state code is invalid";
+  if (gstinCheckChar(g.slice(0, 14)) !== g[14]) return "GSTIN checksum does not match";
+  return "";
+};
+
+export const isValidGstin = (value: string) => !!value.trim() && !gstinError(value);
+export const isValidPan = (value: string) => PAN_RE.test(value.trim().toUpperCase());
+
+/* ---------- display ------------------------------------------------------ */
+export const addressLines = (a: Address): string[] => [
+  a.line1,
+  a.line2,
+  [a.city, a.pincode].filter(Boolean).join(" - "),
+  a.state ? `State: ${stateLabel(a.state)}` : "",
+].filter(Boolean);
+
+export const partyLines = (p: Party): string[] => [
+  ...addressLines(p),
+  p.gstin ? `GSTIN: ${p.gstin}` : "",
+  p.pan ? `PAN: ${p.pan}` : "",
+  [p.phone && `Ph: ${p.phone}`, p.email].filter(Boolean).join("  •  "),
+].filter(Boolean);
+
+export const matchesParty = (p: Party, query: string) => {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [p.name, p.gstin, p.city, p.phone, p.email].some(v => v.toLowerCase().includes(q));
+};
+
+/* ---------- local storage ------------------------------------------------ */
+const SELLER_KEY = "invoice_seller_v1";
+const CUSTOMERS_KEY = "invoice_customers_v1";
+
+export const loadSellerProfile = (): Party | null => {
+  const p = readJson<Party | null>(SELLER_KEY, null);
+  return p ? { ...EMPTY_PARTY(), ...p } : null;
+};
+export const saveSellerProfile = (p: Party) => writeJson(SELLER_KEY, p);
+
+export const loadCustomers = (): Party[] =>
+  readJson<Party[]>(CUSTOMERS_KEY, []).map(p => ({ ...EMPTY_PARTY(), ...p }));
+export const saveCustomers = (list: Party[]) => writeJson(CUSTOMERS_KEY, list);
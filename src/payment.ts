@@ -0,0 +1,48 @@
+import qrcode from "qrcode-generator";
+
+/* ---------- payment settings -------------------------------------------- */
+export type PaymentSettings = {
+  vpa: string;          // UPI id, e.g. "shop@okhdfcbank"
+  payeeName: string;
+  bankName: string;
+  accountNo: string;
+  ifsc: string;
+  showQr: boolean;
+};
+
+export const EMPTY_PAYMENT = (): PaymentSettings => ({
+  vpa: "", payeeName: "", bankName: "", accountNo: "", ifsc: "", showQr: true,
+});
+
+export const isValidVpa = (vpa: string) => /^[\w.-]{2,256}@[a-z][a-z0-9]{2,64}$/i.test(vpa.trim());
+export const isValidIfsc = (ifsc: string) => /^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc.trim().toUpperCase());
+
+// one line for the preview / compact PDF: "HDFC Bank • A/c 123 • IFSC HDFC0001234"
+export const bankLine = (p: PaymentSettings) => [
+  p.bankName,
+  p.accountNo && `A/c ${p.accountNo}`,
+  p.ifsc && `IFSC ${p.ifsc.toUpperCase()}`,
+].filter(Boolean).join(" • ");
+
+/* ---------- UPI deep link ------------------------------------------------ */
+// upi://pay?pa=<vpa>&pn=<name>&am=<amount>&cu=INR&tn=<note>
+export const upiUri = (p: PaymentSettings, amount: number, note: string): string => {
+  if (!isValidVpa(p.vpa)) return "";
+  const q: [string, string][] = [["pa", p.vpa.trim()]];
+  if (p.payeeName.trim()) q.push(["pn", p.payeeName.trim()]);
+  if (amount > 0) q.push(["am", amount.toFixed(2)]);
+  q.push(["cu", "INR"]);
+  if (note.trim()) q.push(["tn", note.trim()]);
+  // keep "@" literal: some UPI apps do not decode %40 in the payee address
+  return "upi://pay?" + q.map(([k, v]) => `${k}=${encodeURIComponent(v).replace(/%40/g, "@")}`).join("&");
+};
+
+/* ---------- QR matrix ---------------------------------------------------- */
+// dark/light modules, shared by the preview (SVG) and the PDF (vector rects)
+export const qrMatrix = (text: string): boolean[][] => {
+  const qr = qrcode(0, "M");
+  qr.addData(text);
+  qr.make();
+  const n = qr.getModuleCount();
+  return Array.from({ length: n }, (_, r) => Array.from({ length: n }, (_, c) => qr.isDark(r, c)));
+};
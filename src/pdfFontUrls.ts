@@ -0,0 +1,37 @@
+import notoSansRegular from "@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf?url";
+import notoSansBold from "@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf?url";
+import notoTamilRegular from "@expo-google-fonts/noto-sans-tamil/400Regular/NotoSansTamil_400Regular.ttf?url";
+import notoTamilBold from "@expo-google-fonts/noto-sans-tamil/700Bold/NotoSansTamil_700Bold.ttf?url";
+import { pdfFontDef, toBase64, type FontLoader } from "./pdfFonts";
+
+/* ---------- PDF fonts in the browser ------------------------------------- */
+// Vite copies each TTF into the build; the package path in PDF_FONTS maps to
+// the hashed URL here.
+const notoSans = pdfFontDef("noto-sans").files!;
+const notoTamil = pdfFontDef("noto-sans-tamil").files!;
+
+const URLS: Record<string, string> = {
+  [notoSans.normal]: notoSansRegular,
+  [notoSans.bold]: notoSansBold,
+  [notoTamil.normal]: notoTamilRegular,
+  [notoTamil.bold]: notoTamilBold,
+};
+
+// fetched on first export and kept as base64 for the rest of the session
+const cache = new Map<string, Promise<string>>();
+
+export const fetchPdfFont: FontLoader = file => {
+  let p = cache.get(file);
+  if (!p) {
+    const url = URLS[file];
+    p = (url ? fetch(url) : Promise.reject(new Error(`Unknown font file ${file}`)))
+      .then(r => {
+        if (!r.ok) throw new Error(`Font download failed (${r.status})`);
+        return r.arrayBuffer();
+      })
+      .then(toBase64);
+    p.catch(() => cache.delete(file));
+    cache.set(file, p);
+  }
+  return p;
+};
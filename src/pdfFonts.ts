@@ -0,0 +1,62 @@
+import type { jsPDF } from "jspdf";
+
+/* ---------- fonts available to the PDF export --------------------------- */
+// jsPDF's built-in helvetica only covers Latin-1, so ₹ and regional scripts need
+// an embedded TTF. jsPDF does not shape text: conjuncts and vowel signs that
+// reorder may print in logical rather than visual order.
+export type PdfFont = "noto-sans" | "noto-sans-tamil" | "helvetica";
+
+type FontDef = {
+  id: PdfFont;
+  label: string;
+  family: string;                           // name passed to doc.setFont / autoTable
+  files?: { normal: string; bold: string }; // TTFs as package paths; none = built in
+};
+
+export const PDF_FONTS: FontDef[] = [
+  {
+    id: "noto-sans", label: "Noto Sans (Latin, Devanagari, ₹)", family: "NotoSans",
+    files: {
+      normal: "@expo-google-fonts/noto-sans/400Regular/NotoSans_400Regular.ttf",
+      bold: "@expo-google-fonts/noto-sans/700Bold/NotoSans_700Bold.ttf",
+    },
+  },
+  {
+    id: "noto-sans-tamil", label: "Noto Sans Tamil", family: "NotoSansTamil",
+    files: {
+      normal: "@expo-google-fonts/noto-sans-tamil/400Regular/NotoSansTamil_400Regular.ttf",
+      bold: "@expo-google-fonts/noto-sans-tamil/700Bold/NotoSansTamil_700Bold.ttf",
+    },
+  },
+  { id: "helvetica", label: "Helvetica (built-in, Latin only)", family: "helvetica" },
+];
+
+export const DEFAULT_PDF_FONT: PdfFont = "noto-sans";
+
+export const pdfFontDef = (id: PdfFont) => PDF_FONTS.find(f => f.id === id) ?? PDF_FONTS[0];
+
+/* ---------- loading ------------------------------------------------------ */
+// Reads one TTF (by its package path) as base64. The browser fetches the
+// bundled copy (./pdfFontUrls); Node reads it from node_modules.
+export type FontLoader = (file: string) => Promise<string>;
+
+export const toBase64 = (buf: ArrayBuffer) => {
+  const bytes = new Uint8Array(buf);
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+};
+
+// registers the font's regular and bold faces with this document; returns the family name
+export const registerPdfFont = async (doc: jsPDF, id: PdfFont, load: FontLoader): Promise<string> => {
+  const def = pdfFontDef(id);
+  if (!def.files) return def.family;
+  const [normal, bold] = await Promise.all([load(def.files.normal), load(def.files.bold)]);
+  doc.addFileToVFS(`${def.family}-Regular.ttf`, normal);
+  doc.addFont(`${def.family}-Regular.ttf`, def.family, "normal");
+  doc.addFileToVFS(`${def.family}-Bold.ttf`, bold);
+  doc.addFont(`${def.family}-Bold.ttf`, def.family, "bold");
+  return def.family;
+};
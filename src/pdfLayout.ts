@@ -0,0 +1,52 @@
+import { readJson, writeJson } from "./storage";
+
+/* ---------- templates ---------------------------------------------------- */
+export type PdfTemplate = "classic" | "compact" | "gst";
+
+export const PDF_TEMPLATES: { id: PdfTemplate; label: string }[] = [
+  { id: "classic", label: "Classic" },
+  { id: "compact", label: "Compact" },
+  { id: "gst", label: "GST detailed" },
+];
+
+/* ---------- layout settings (shared by every invoice) ------------------- */
+export type PdfLayout = {
+  template: PdfTemplate;
+  printLight: boolean;   // white paper even when the app is in dark mode
+  logo: string;          // data: URL, "" = none; the app takes it from the brand (./brands)
+  signature: string;     // data: URL of the authorised signatory's signature
+  signatory: string;     // printed under the signature
+  terms: string;         // terms & conditions, one per line
+  footer: string;        // one line at the foot of every page, "" = none
+};
+
+export const DEFAULT_LAYOUT = (): PdfLayout => ({
+  template: "classic",
+  printLight: false,
+  logo: "",
+  signature: "",
+  signatory: "Authorised Signatory",
+  terms: "",
+  footer: "",
+});
+
+// images are kept in localStorage, so keep them small
+export const MAX_IMAGE_BYTES = 300 * 1024;
+
+export const readImageFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    if (!/^image\/(png|jpe?g)$/.test(file.type)) { reject(new Error("Use a PNG or JPEG image.")); return; }
+    if (file.size > MAX_IMAGE_BYTES) {
+      reject(new Error(`Image is larger than ${MAX_IMAGE_BYTES / 1024} KB.`)); return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read the image."));
+    reader.readAsDataURL(file);
+  });
+
+/* ---------- local storage ------------------------------------------------ */
+const LAYOUT_KEY = "invoice_layout_v1";
+
+export const loadLayout = (): PdfLayout => ({ ...DEFAULT_LAYOUT(), ...readJson<Partial<PdfLayout>>(LAYOUT_KEY, {}) });
+export const saveLayout = (l: PdfLayout) => writeJson(LAYOUT_KEY, l);
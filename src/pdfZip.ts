@@ -0,0 +1,37 @@
+import { zipSync } from "fflate";
+import { buildInvoicePdf, type PdfInput } from "./invoicePdf";
+import type { InvoiceRecord } from "./invoiceDb";
+import { safeFileName } from "./download";
+
+/* ---------- many PDFs as one ZIP ---------------------------------------- */
+// the archive, plus the documents (number, or customer for drafts) printed in
+// the built-in font because their own could not be loaded
+export type PdfZip = { zip: Blob; fallbackFont: string[] };
+
+// One PDF per record, named by number (drafts by customer); same names get a
+// suffix. A font that fails to load falls back to the built-in one rather
+// than stopping the batch. `onProgress` is called after each file.
+export const invoicePdfZip = async (
+  records: InvoiceRecord[],
+  opts: Omit<PdfInput, "form">,
+  onProgress?: (done: number) => void,
+): Promise<PdfZip> => {
+  const files: Record<string, Uint8Array> = {};
+  const fallbackFont: string[] = [];
+  for (const [i, rec] of records.entries()) {
+    let pdf;
+    try {
+      ({ pdf } = await buildInvoicePdf({ ...opts, form: rec.form }));
+    } catch {
+      fallbackFont.push(rec.invoiceNo || `draft for ${rec.customer || rec.id}`);
+      ({ pdf } = await buildInvoicePdf({ ...opts, form: { ...rec.form, pdfFont: "helvetica" } }));
+    }
+    const stem = safeFileName(rec.invoiceNo || `draft_${rec.customer || rec.id}`);
+    let name = `${stem}.pdf`;
+    for (let n = 2; files[name]; n++) name = `${stem}_${n}.pdf`;
+    files[name] = new Uint8Array(await pdf.arrayBuffer());
+    onProgress?.(i + 1);
+  }
+  // PDFs are already compressed; storing them keeps the ZIP fast to build
+  return { zip: new Blob([zipSync(files, { level: 0 })], { type: "application/zip" }), fallbackFont };
+};
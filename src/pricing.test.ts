@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import { invoiceTotals, newItem } from "./invoice";
+import { discountAmount, linePrice, priceInvoice, roundTotal, type PriceLine, type PricingInput } from "./pricing";
+import { makeForm } from "./testFixtures";
+
+const r = (x: number) => Math.round(x * 100) / 100;
+
+const line = (p: Partial<PriceLine> = {}): PriceLine => ({
+  qty: 1, rate: 100, discount: 0, discountMode: "amount", gstRate: 18, cess: 0, hsn: "", ...p,
+});
+
+const input = (p: Partial<PricingInput> = {}): PricingInput => ({
+  lines: [line()], overallDiscount: 0, overallDiscountMode: "amount",
+  priceMode: "exclusive", rounding: "none", supply: "intra", ...p,
+});
+
+describe("discountAmount", () => {
+  it("takes a flat amount as is", () => {
+    expect(discountAmount(500, 40, "amount")).toBe(40);
+  });
+  it("works out a percentage of the base", () => {
+    expect(discountAmount(500, 10, "percent")).toBe(50);
+    expect(discountAmount(333.33, "12.5", "percent")).toBe(41.67);
+  });
+  it("treats blanks as zero", () => {
+    expect(discountAmount(500, "", "percent")).toBe(0);
+  });
+});
+
+describe("linePrice", () => {
+  it("applies a percentage discount", () => {
+    expect(linePrice(line({ qty: 3, rate: 200, discount: 10, discountMode: "percent" }), "exclusive"))
+      .toEqual({ gross: 600, discount: 60, amount: 540, net: 540, negative: false });
+  });
+  it("back-calculates the taxable value from tax-inclusive rates", () => {
+    expect(linePrice(line({ rate: 118 }), "inclusive").net).toBe(100);
+    expect(linePrice(line({ rate: 112, gstRate: 5, cess: 7 }), "inclusive").net).toBe(100);
+  });
+  it("flags and clamps a discount larger than the line", () => {
+    const l = linePrice(line({ discount: 150 }), "exclusive");
+    expect(l.negative).toBe(true);
+    expect(l.amount).toBe(-50);
+    expect(l.net).toBe(0);
+  });
+});
+
+describe("roundTotal", () => {
+  it.each([
+    ["none", 1234.567, 1234.57],
+    ["nearest1", 1234.5, 1235],
+    ["nearest1", 1234.49, 1234],
+    ["nearest0.05", 10.02, 10],
+    ["nearest0.05", 10.03, 10.05],
+    ["up1", 10.01, 11],
+    ["up1", 10, 10],
+    ["down1", 10.99, 10],
+  ] as const)("%s rounds %d to %d", (policy, value, expected) => {
+    expect(roundTotal(value, policy)).toBe(expected);
+  });
+  it("does not push an exact amount up because of float noise", () => {
+    expect(roundTotal(0.1 + 0.2 + 99.7, "up1")).toBe(100);
+  });
+});
+
+describe("priceInvoice", () => {
+  it("splits GST into CGST and SGST for intra-state supplies", () => {
+    const p = priceInvoice(input({ rounding: "nearest1" }));
+    expect(p.subtotal).toBe(100);
+    expect(p.tax.cgst).toBe(9);
+    expect(p.tax.sgst).toBe(9);
+    expect(p.grand).toBe(118);
+    expect(p.roundoff).toBe(0);
+  });
+
+  it("spreads a percentage overall discount before tax", () => {
+    const p = priceInvoice(input({
+      lines: [line({ rate: 300 }), line({ rate: 100, gstRate: 5 })],
+      overallDiscount: 10, overallDiscountMode: "percent", supply: "inter",
+    }));
+    expect(p.discount).toBe(40);
+    expect(p.tax.taxable).toBe(360);
+    expect(p.tax.igst).toBe(r(270 * 0.18 + 90 * 0.05));
+  });
+
+  it("keeps a tax-inclusive invoice at the entered total", () => {
+    const p = priceInvoice(input({
+      lines: [line({ qty: 2, rate: 590 }), line({ rate: 105, gstRate: 5 })],
+      priceMode: "inclusive",
+    }));
+    expect(p.subtotal).toBe(1100);
+    expect(p.grand).toBe(1285);
+  });
+
+  it("treats an overall amount discount as tax-inclusive in inclusive mode", () => {
+    const p = priceInvoice(input({
+      lines: [line({ rate: 1180 })], priceMode: "inclusive", overallDiscount: 118,
+    }));
+    expect(p.discount).toBe(100);
+    expect(p.grand).toBe(1062);
+  });
+
+  it("records the round-off for the chosen policy", () => {
+    const p = priceInvoice(input({ lines: [line({ rate: 10.5 })], rounding: "up1" }));
+    expect(p.grand).toBe(13);
+    expect(p.roundoff).toBe(0.61);
+  });
+
+  it("warns about lines and overall discounts that would go negative", () => {
+    const p = priceInvoice(input({
+      lines: [line(), line({ discount: 120 })], overallDiscount: 500,
+    }));
+    expect(p.warnings).toHaveLength(2);
+    expect(p.warnings[0]).toMatch(/^Row 2/);
+    expect(p.discount).toBe(100);
+    expect(p.grand).toBe(0);
+  });
+
+  it("prices headings at nothing and sums each group into its subtotal row", () => {
+    const p = priceInvoice(input({
+      lines: [
+        line({ kind: "section", qty: 5, hsn: "9999" }), line(), line({ rate: 50 }), line({ kind: "subtotal" }),
+        line({ kind: "section" }), line({ rate: 30 }), line({ kind: "subtotal" }),
+      ],
+    }));
+    expect(p.lines.map(l => l.sum)).toEqual([undefined, undefined, undefined, 150, undefined, undefined, 30]);
+    expect(p.subtotal).toBe(180);
+    expect(p.tax.lines).toHaveLength(7);
+    expect(p.tax.hsn).toEqual([expect.objectContaining({ hsn: "", rate: 18, taxable: 180 })]);
+  });
+});
+
+describe("currency minor units", () => {
+  it("rounds yen to whole amounts", () => {
+    const p = priceInvoice(input({ lines: [line({ qty: 3, rate: 333 })], decimals: 0 }));
+    expect(p.tax).toMatchObject({ taxable: 999, cgst: 90, sgst: 90, tax: 180 });
+    expect(p.grand).toBe(1179);
+  });
+  it("keeps three decimals for dinars", () => {
+    const p = priceInvoice(input({ lines: [line({ qty: 2, rate: 1.2345 })], rounding: "nearest1", decimals: 3 }));
+    expect(p.subtotal).toBe(2.469);
+    expect(p.tax).toMatchObject({ cgst: 0.222, sgst: 0.222, tax: 0.444 });
+    expect(p.grand).toBe(3);
+    expect(p.roundoff).toBe(0.087);
+  });
+  it("takes the minor unit from the invoice currency", () => {
+    const items = [{ ...newItem(), qty: 3, rate: 333 }];
+    expect(invoiceTotals(makeForm({ currency: "JPY", items, rounding: "none" })).grand).toBe(1179);
+    expect(invoiceTotals(makeForm({ currency: "INR", items, rounding: "none" })).grand).toBe(1178.82);
+  });
+});
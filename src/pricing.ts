@@ -0,0 +1,155 @@
+import { roundMinor } from "./currency";
+import { computeTax, hsnSummary, type SupplyType, type TaxResult } from "./gst";
+
+/* ---------- options ------------------------------------------------------ */
+export type DiscountMode = "amount" | "percent";
+
+// exclusive: rates are before GST • inclusive: rates already contain GST + cess
+export type PriceMode = "exclusive" | "inclusive";
+
+export type RoundingPolicy = "none" | "nearest1" | "nearest0.05" | "up1" | "down1";
+
+export const ROUNDING_POLICIES: { id: RoundingPolicy; label: string }[] = [
+  { id: "nearest1", label: "Nearest 1" },
+  { id: "nearest0.05", label: "Nearest 0.05" },
+  { id: "up1", label: "Always up (1)" },
+  { id: "down1", label: "Always down (1)" },
+  { id: "none", label: "No rounding" },
+];
+
+// form fields are strings while being typed
+const n = (v: number | string) => +v || 0;
+
+/* ---------- lines -------------------------------------------------------- */
+// section headings and subtotal rows sit between the lines and carry no value
+export type RowKind = "item" | "section" | "subtotal";
+
+export const ROW_KINDS: RowKind[] = ["item", "section", "subtotal"];
+
+export const isLine = (l: { kind?: RowKind }) => !l.kind || l.kind === "item";
+
+export type PriceLine = {
+  kind?: RowKind;
+  qty: number | string;
+  rate: number | string;
+  discount: number | string;
+  discountMode: DiscountMode;
+  gstRate: number | string;
+  cess: number | string;
+  hsn: string;
+};
+
+export type LinePrice = {
+  gross: number;       // qty × rate, as entered
+  discount: number;    // line discount as an amount
+  amount: number;      // gross − discount, as entered (tax-inclusive in inclusive mode)
+  net: number;         // value before tax and before the overall discount; never below 0
+  negative: boolean;   // discount exceeded the line value, so net was clamped to 0
+  sum?: number;        // subtotal rows: Σ net since the previous heading or subtotal
+};
+
+const NO_PRICE: LinePrice = { gross: 0, discount: 0, amount: 0, net: 0, negative: false };
+
+// `decimals` below is the currency's minor unit (2 for rupees, 0 for yen,
+// 3 for dinars); every amount is rounded to it
+export const discountAmount = (base: number, value: number | string, mode: DiscountMode, decimals = 2) =>
+  roundMinor(mode === "percent" ? base * n(value) / 100 : n(value), decimals);
+
+export const linePrice = (line: PriceLine, mode: PriceMode, decimals = 2): LinePrice => {
+  if (!isLine(line)) return NO_PRICE;
+  const r = (v: number) => roundMinor(v, decimals);
+  const gross = r(n(line.qty) * n(line.rate));
+  const discount = discountAmount(gross, line.discount, line.discountMode, decimals);
+  const amount = r(gross - discount);
+  const taxPct = n(line.gstRate) + n(line.cess);
+  const value = Math.max(0, amount);
+  return {
+    gross, discount, amount,
+    net: r(mode === "inclusive" ? value / (1 + taxPct / 100) : value),
+    negative: amount < 0,
+  };
+};
+
+/* ---------- rounding ----------------------------------------------------- */
+export const roundTotal = (value: number, policy: RoundingPolicy, decimals = 2): number => {
+  const v = roundMinor(value, decimals);
+  switch (policy) {
+    case "nearest1": return Math.round(v);
+    case "nearest0.05": return roundMinor(Math.round(v * 20) / 20, decimals);
+    case "up1": return Math.ceil(v - 1e-9);
+    case "down1": return Math.floor(v + 1e-9);
+    default: return v;
+  }
+};
+
+/* ---------- invoice ------------------------------------------------------ */
+export type PricingInput = {
+  lines: PriceLine[];
+  overallDiscount: number | string;
+  overallDiscountMode: DiscountMode;
+  priceMode: PriceMode;
+  rounding: RoundingPolicy;
+  supply: SupplyType;
+  decimals?: number;        // the currency's minor unit digits; 2 when not given
+};
+
+export type Pricing = {
+  lines: LinePrice[];
+  subtotal: number;         // Σ net
+  discount: number;         // overall discount, before tax
+  tax: TaxResult;
+  roundoff: number;
+  grand: number;
+  warnings: string[];
+};
+
+// One place for every money figure on the invoice; the editor, the preview and
+// the PDF all read from this.
+export const priceInvoice = (input: PricingInput): Pricing => {
+  const { decimals = 2 } = input;
+  const r = (v: number) => roundMinor(v, decimals);
+  let run = 0;
+  const lines = input.lines.map(l => {
+    const p = linePrice(l, input.priceMode, decimals);
+    if (l.kind === "section") run = 0;
+    else if (l.kind === "subtotal") { const sum = r(run); run = 0; return { ...p, sum }; }
+    else run += p.net;
+    return p;
+  });
+  const subtotal = r(lines.reduce((s, l) => s + l.net, 0));
+
+  // an overall discount typed as an amount is tax-inclusive in inclusive mode,
+  // so it is scaled down by the same ratio as the lines
+  const entered = r(lines.reduce((s, l) => s + Math.max(0, l.amount), 0));
+  const base = input.overallDiscountMode === "percent" ? subtotal : entered;
+  let discount = discountAmount(base, input.overallDiscount, input.overallDiscountMode, decimals);
+  if (input.overallDiscountMode === "amount" && input.priceMode === "inclusive" && entered > 0) {
+    discount = r(discount * subtotal / entered);
+  }
+
+  const warnings: string[] = [];
+  lines.forEach((l, i) => {
+    if (l.negative) warnings.push(`Row ${i + 1}: discount is more than the line value; counted as 0.`);
+  });
+  if (discount < 0) {
+    warnings.push("Overall discount is negative; ignored.");
+    discount = 0;
+  }
+  if (discount > subtotal) {
+    warnings.push("Overall discount is more than the subtotal; limited to the subtotal.");
+    discount = subtotal;
+  }
+
+  const tax = computeTax(input.lines.map((l, i) => ({
+    hsn: l.hsn.trim(),
+    amount: lines[i].net,
+    gstRate: n(l.gstRate),
+    cess: n(l.cess),
+  })), discount, input.supply, decimals);
+  // headings and subtotals stay in tax.lines (by row index) but not in the HSN summary
+  if (!input.lines.every(isLine)) tax.hsn = hsnSummary(tax.lines.filter((_, i) => isLine(input.lines[i])), decimals);
+
+  const beforeRound = r(tax.taxable + tax.tax);
+  const grand = roundTotal(beforeRound, input.rounding, decimals);
+  return { lines, subtotal, discount, tax, roundoff: r(grand - beforeRound), grand, warnings };
+};
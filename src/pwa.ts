@@ -0,0 +1,25 @@
+/* ---------- service worker ----------------------------------------------- */
+// Registered in production builds only (the dev server has no sw.js). When a
+// new deploy has installed and is waiting, `onUpdate` gets a function that
+// hands over to it and reloads the page; the working draft is autosaved, so
+// nothing typed is lost.
+export const registerServiceWorker = (onUpdate: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  const sw = navigator.serviceWorker;
+
+  const waiting = (worker: ServiceWorker) => onUpdate(() => {
+    sw.addEventListener("controllerchange", () => location.reload(), { once: true });
+    worker.postMessage("skip-waiting");
+  });
+
+  sw.register("/sw.js").then(reg => {
+    // a first install has no controller yet and takes over by itself
+    if (reg.waiting && sw.controller) waiting(reg.waiting);
+    reg.addEventListener("updatefound", () => {
+      const worker = reg.installing;
+      worker?.addEventListener("statechange", () => {
+        if (worker.state === "installed" && sw.controller) waiting(worker);
+      });
+    });
+  }).catch(err => console.error("Service worker registration failed", err));
+};
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { newItem, type Form } from "./invoice";
+import { DEFAULT_SERIES } from "./numbering";
+import { addMonths, dueDates, planRecurring, recurringForm, templateFromForm } from "./recurring";
+import { parseBulkCsv } from "./bulk";
+import { EMPTY_PARTY } from "./parties";
+import { makeForm } from "./testFixtures";
+
+const retainer = (p: Partial<Form> = {}): Form => makeForm({
+  invoiceNo: "INV/24-25/0042", date: "2025-01-31", dueDate: "2025-02-15", terms: 15,
+  buyer: { ...EMPTY_PARTY(), name: "Acme", state: "27" },
+  items: [{ ...newItem(), description: "Retainer", hsn: "998311", qty: 1, rate: 25000 }],
+  irn: { irn: "x", ackNo: "", ackDate: "", signedQr: "" },
+  ...p,
+});
+
+describe("recurring schedule", () => {
+  it("keeps the day of month, clamped to short months", () => {
+    expect(addMonths("2025-01-31", 1)).toBe("2025-02-28");
+    expect(addMonths("2025-01-31", 3)).toBe("2025-04-30");
+    expect(addMonths("2024-11-15", 3)).toBe("2025-02-15");
+  });
+
+  it("lists the dates that have come due, honouring the end date and pauses", () => {
+    const t = templateFromForm(retainer(), { startDate: "2025-01-31", frequency: "monthly" });
+    expect(dueDates(t, "2025-03-30")).toEqual(["2025-01-31", "2025-02-28"]);
+    expect(dueDates({ ...t, generated: 2 }, "2025-03-30")).toEqual([]);
+    expect(dueDates({ ...t, endDate: "2025-02-01" }, "2025-06-01")).toEqual(["2025-01-31"]);
+    expect(dueDates({ ...t, active: false }, "2025-06-01")).toEqual([]);
+    expect(dueDates({ ...t, frequency: "quarterly" }, "2025-06-01")).toEqual(["2025-01-31", "2025-04-30"]);
+  });
+
+  it("starts each invoice from fresh defaults with the template's rows", () => {
+    const t = templateFromForm(retainer());
+    const f = recurringForm(t, "2025-02-28");
+    expect(f).toMatchObject({ invoiceNo: "", irn: null, ref: null, date: "2025-02-28", dueDate: "2025-03-15" });
+    expect(f.items[0].description).toBe("Retainer");
+    expect(f.items[0]).not.toBe(t.form.items[0]);
+  });
+});
+
+describe("recurring generation", () => {
+  it("issues due invoices with the next free numbers and advances the template", () => {
+    const t = templateFromForm(retainer(), { startDate: "2025-04-10", issue: true });
+    const run = planRecurring([t], DEFAULT_SERIES(), new Set(["INV/25-26/0001"]), "2025-05-20");
+    expect(run.records.map(r => [r.invoiceNo, r.status, r.date])).toEqual([
+      ["INV/25-26/0002", "issued", "2025-04-10"],
+      ["INV/25-26/0003", "issued", "2025-05-10"],
+    ]);
+    expect(run.templates[0].generated).toBe(2);
+    expect(run.series.find(s => s.id === "inv")?.counters["2025-26"]).toBe(3);
+  });
+
+  it("saves drafts when the template is not set to issue", () => {
+    const t = templateFromForm(retainer(), { startDate: "2025-04-10" });
+    const run = planRecurring([t], DEFAULT_SERIES(), new Set(), "2025-04-10");
+    expect(run.records.map(r => [r.invoiceNo, r.status])).toEqual([["", "draft"]]);
+  });
+});
+
+describe("bulk CSV", () => {
+  const csv = [
+    "Invoice,Customer,GSTIN,State,Description,HSN/SAC,Quantity,Rate,GST Rate",
+    "A1,Acme,27AAPFU0939F1ZV,,Retainer,998311,1,25000,18",
+    "A1,Acme,27AAPFU0939F1ZV,,Hosting,998315,1,1500,18",
+    "B1,Walk-in,,MH,Widget,8471,2,500,",
+    "C1,,,,Broken,8471,x,500,18",
+  ].join("\n");
+
+  it("groups rows into invoices and reports bad rows", () => {
+    const { forms, errors } = parseBulkCsv(csv, [], "2025-04-05");
+    expect(forms).toHaveLength(2);
+    expect(forms[0].buyer).toMatchObject({ name: "Acme", state: "27" });
+    expect(forms[0].items.map(i => i.description)).toEqual(["Retainer", "Hosting"]);
+    expect(forms[1]).toMatchObject({ date: "2025-04-05", buyer: { state: "27" } });
+    expect(forms[1].items[0].gstRate).toBe(18);
+    expect(errors.map(e => e.row)).toEqual(["Row 5", "Row 5"]);
+  });
+
+  it("fills addresses from the address book", () => {
+    const known = { ...EMPTY_PARTY(), name: "Acme", gstin: "27AAPFU0939F1ZV", city: "Pune", pincode: "411001" };
+    const { forms } = parseBulkCsv(csv, [known], "2025-04-05");
+    expect(forms[0].buyer).toMatchObject({ city: "Pune", pincode: "411001" });
+  });
+});
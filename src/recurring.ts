@@ -0,0 +1,176 @@
+import { NEW_FORM, normalizeForm, type Form } from "./invoice";
+import { listInvoices, restoreRecords, toRecord, type InvoiceRecord } from "./invoiceDb";
+import { addDays } from "./ledger";
+import { patternError, saveSeries, seriesFor, takeNumber, type NumberSeries } from "./numbering";
+import { readJson, writeJson } from "./storage";
+
+/* ---------- templates ---------------------------------------------------- */
+export type Frequency = "monthly" | "quarterly";
+
+export const FREQUENCIES: { id: Frequency; label: string; months: number }[] = [
+  { id: "monthly", label: "Monthly", months: 1 },
+  { id: "quarterly", label: "Quarterly", months: 3 },
+];
+
+export type RecurringTemplate = {
+  id: string;
+  name: string;
+  frequency: Frequency;
+  startDate: string;      // date of the first invoice; later ones keep its day of month
+  endDate: string;        // last date to bill on; "" = no end
+  generated: number;      // invoices created so far
+  issue: boolean;         // issue with a number, or leave as a draft to review
+  active: boolean;
+  form: Form;             // parties, rows and terms copied into each invoice
+};
+
+export const newTemplateId = () => `rec_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+// 31 Jan + 1 month → 28/29 Feb; the day is clamped, never rolled over
+export const addMonths = (iso: string, months: number) => {
+  const [y, m, d] = iso.split("-").map(Number);
+  const first = new Date(Date.UTC(y, m - 1 + months, 1));
+  const last = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate();
+  first.setUTCDate(Math.min(d, last));
+  return first.toISOString().slice(0, 10);
+};
+
+const stepOf = (t: RecurringTemplate) => FREQUENCIES.find(f => f.id === t.frequency)?.months ?? 1;
+
+export const nextRunDate = (t: RecurringTemplate) => addMonths(t.startDate, t.generated * stepOf(t));
+
+// a long-closed app catches up, but never by more than this many invoices per template
+const MAX_CATCH_UP = 12;
+
+// billing dates that have come due and not been generated yet
+export const dueDates = (t: RecurringTemplate, today: string): string[] => {
+  if (!t.active) return [];
+  const out: string[] = [];
+  for (let k = t.generated; out.length < MAX_CATCH_UP; k++) {
+    const d = addMonths(t.startDate, k * stepOf(t));
+    if (d > today || (t.endDate && d > t.endDate)) break;
+    out.push(d);
+  }
+  return out;
+};
+
+// A fresh document from the template: NEW_FORM defaults (today's seller
+// profile, no number, no IRN) with the template's customer, rows and terms.
+export const recurringForm = (t: RecurringTemplate, date: string): Form => {
+  const base = NEW_FORM();
+  const src = t.form;
+  return {
+    ...base,
+    docType: src.docType,
+    series: src.series,
+    seller: base.seller.name ? base.seller : src.seller,
+    buyer: { ...src.buyer },
+    shipToSame: src.shipToSame,
+    shipTo: { ...src.shipTo },
+    place: src.place,
+    date,
+    terms: src.terms,
+    dueDate: addDays(date, src.terms),
+    currency: src.currency,
+    numberSystem: src.numberSystem,
+    exchangeRate: src.exchangeRate,
+    items: src.items.map(it => ({ ...it })),
+    overallDiscount: src.overallDiscount,
+    overallDiscountMode: src.overallDiscountMode,
+    priceMode: src.priceMode,
+    rounding: src.rounding,
+    notes: src.notes,
+    pdfFont: src.pdfFont,
+  };
+};
+
+export const templateFromForm = (form: Form, p: Partial<RecurringTemplate> = {}): RecurringTemplate => ({
+  id: newTemplateId(),
+  name: form.buyer.name || "Recurring invoice",
+  frequency: "monthly",
+  startDate: form.date,
+  endDate: "",
+  generated: 0,
+  issue: false,
+  active: true,
+  form: { ...form, invoiceNo: "", ref: null, irn: null },
+  ...p,
+});
+
+/* ---------- generation --------------------------------------------------- */
+export type RecurringRun = {
+  records: InvoiceRecord[];
+  templates: RecurringTemplate[];
+  series: NumberSeries[];
+  errors: string[];
+};
+
+// Everything due by `today`, in date order per template. Numbers come from the series
+// skipping any already saved (`taken`); a template whose series pattern is
+// broken produces drafts and an error instead.
+export const planRecurring = (
+  templates: RecurringTemplate[], series: NumberSeries[], taken: Set<string>, today: string,
+): RecurringRun => {
+  const records: InvoiceRecord[] = [];
+  const errors: string[] = [];
+  let list = series;
+  const next = templates.map(t => {
+    const dates = dueDates(t, today);
+    for (const date of dates) {
+      let form = recurringForm(t, date);
+      let issued = false;
+      if (t.issue) {
+        const s = seriesFor(list, form.docType, form.series);
+        const err = patternError(s.pattern);
+        if (err) {
+          errors.push(`${t.name}: numbering series "${s.name}": ${err}; saved as a draft`);
+        } else {
+          const res = takeNumber(s, date, taken);
+          list = list.map(x => (x.id === s.id ? res.series : x));
+          form = { ...form, invoiceNo: res.invoiceNo };
+          issued = true;
+        }
+      }
+      records.push({ ...toRecord(form), status: issued ? "issued" : "draft" });
+    }
+    return dates.length ? { ...t, generated: t.generated + dates.length } : t;
+  });
+  return { records, templates: next, series: list, errors };
+};
+
+// Plans against the saved invoices and stores what was generated. The advanced
+// templates and series are saved first and the records then go in as one
+// transaction, so a failed write or a closed tab can never leave invoices
+// behind that the next run would generate again; if the write fails, the
+// templates and series are put back.
+export const runRecurring = async (
+  templates: RecurringTemplate[], series: NumberSeries[], today: string,
+): Promise<RecurringRun> => {
+  const taken = new Set((await listInvoices()).map(r => r.invoiceNo).filter(Boolean));
+  const run = planRecurring(templates, series, taken, today);
+  if (!run.records.length) return run;
+  saveRecurring(run.templates);
+  saveSeries(run.series);
+  try {
+    await restoreRecords(run.records, []);
+  } catch (err) {
+    saveRecurring(templates);
+    saveSeries(series);
+    throw err;
+  }
+  return run;
+};
+
+export const runSummary = (run: RecurringRun) => [
+  run.records.length
+    ? `Created ${run.records.length} recurring document(s): ${run.records.map(r => r.invoiceNo || `draft for ${r.customer}`).join(", ")}.`
+    : "",
+  ...run.errors,
+].filter(Boolean).join(" ");
+
+/* ---------- local storage ------------------------------------------------ */
+const RECURRING_KEY = "invoice_recurring_v1";
+
+export const loadRecurring = (): RecurringTemplate[] =>
+  readJson<RecurringTemplate[]>(RECURRING_KEY, []).map(t => ({ ...t, form: normalizeForm(t.form) }));
+export const saveRecurring = (list: RecurringTemplate[]) => writeJson(RECURRING_KEY, list);
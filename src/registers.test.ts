@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { InvoiceRecord } from "./invoiceDb";
+import { makeBundle, parseBundle, planImport } from "./bundle";
+import { gstDate, invoiceRegister, lineRegister, parseLineRegister, parseRegisterDate } from "./registers";
+import { toCsv } from "./csv";
+import { makeRecord } from "./testFixtures";
+
+describe("register dates", () => {
+  it("writes the GSTR-1 style and reads the usual spellings back", () => {
+    expect(gstDate("2025-04-05")).toBe("05-Apr-2025");
+    expect(parseRegisterDate("05-Apr-2025")).toBe("2025-04-05");
+    expect(parseRegisterDate("5/4/2025")).toBe("2025-04-05");
+    expect(parseRegisterDate("31-02-2025")).toBe("");
+  });
+});
+
+describe("sales registers", () => {
+  it("lists issued tax documents with GST split, credit notes negative", () => {
+    const credit = makeRecord({ docType: "credit_note", invoiceNo: "CN/25-26/0001" });
+    const draft = { ...makeRecord({ invoiceNo: "" }), status: "draft" as const };
+    const rows = invoiceRegister([makeRecord(), credit, draft]);
+    expect(rows).toHaveLength(3);
+    const h = rows[0];
+    const byNo = Object.fromEntries(rows.slice(1).map(r => [r[1], Object.fromEntries(h.map((k, i) => [k, r[i]]))]));
+    const inv = byNo["INV/25-26/0001"], cn = byNo["CN/25-26/0001"];
+    expect(inv["Place Of Supply"]).toBe("27-Maharashtra");
+    expect(inv["Taxable Value"]).toBe("2000.00");
+    expect(inv["CGST Amount"]).toBe("115.00");
+    expect(inv["Invoice Value"]).toBe("2230.00");
+    expect(cn["Invoice Value"]).toBe("-2230.00");
+  });
+
+  it("round-trips the line register", () => {
+    const csv = toCsv(lineRegister([makeRecord()]));
+    const { records, errors } = parseLineRegister(csv);
+    expect(errors).toEqual([]);
+    expect(records).toHaveLength(1);
+    expect(records[0].invoiceNo).toBe("INV/25-26/0001");
+    expect(records[0].customer).toBe("Buyer, Pune");
+    expect(records[0].form.items.map(i => i.gstRate)).toEqual([18, 5]);
+    expect(records[0].grand).toBe(2230);
+  });
+
+  it("keeps the overall discount, rounding and reference through the register", () => {
+    const credit = makeRecord({
+      docType: "credit_note", invoiceNo: "CN/25-26/0001", overallDiscount: 10, overallDiscountMode: "percent",
+      rounding: "none", ref: { docType: "invoice", no: "INV/25-26/0001", date: "2025-04-05" },
+    });
+    const { records, errors } = parseLineRegister(toCsv(lineRegister([credit])));
+    expect(errors).toEqual([]);
+    expect(records[0].form).toMatchObject({
+      overallDiscount: 10, overallDiscountMode: "percent", rounding: "none", ref: credit.form.ref,
+    });
+    expect(records[0].grand).toBe(credit.grand);
+  });
+
+  it("reports a rebuilt invoice that disagrees with the register's figures", () => {
+    const rows = lineRegister([makeRecord({ overallDiscount: 100 })]);
+    const at = rows[0].indexOf("Overall Discount");
+    rows.slice(1).forEach(r => { r[at] = ""; });    // a register that lost the discount column's values
+    const { records, errors } = parseLineRegister(toCsv(rows));
+    expect(records).toHaveLength(1);
+    expect(errors.map(e => e.message)).toEqual([
+      "rebuilt taxable value 2000.00 differs from the register's 1900.00; check the rates, discounts and GST columns",
+      "rebuilt line total 2230.00 differs from the register's 2118.50; check the rates, discounts and GST columns",
+    ]);
+  });
+
+  it("reports bad rows and keeps the good ones", () => {
+    const csv = [
+      "Invoice Number,Invoice date,Description,Quantity,Rate,GST Rate",
+      "A1,05-Apr-2025,Pen,2,10,18",
+      "A2,someday,Ink,1,5,18",
+      "A3,05-Apr-2025,Pad,x,5,18",
+    ].join("\n");
+    const { records, errors } = parseLineRegister(csv);
+    expect(records.map(r => r.invoiceNo)).toEqual(["A1"]);
+    expect(errors).toEqual([
+      { row: "Row 3", message: 'unreadable date "someday"' },
+      { row: "Row 4", message: "invalid quantity" },
+    ]);
+  });
+});
+
+describe("JSON bundle", () => {
+  it("round-trips and validates records one by one", () => {
+    const good = makeRecord();
+    const bad = { ...makeRecord(), id: "x2", form: { ...good.form, date: "5/4/2025" } };
+    const { records, errors } = parseBundle(JSON.stringify(makeBundle([good, bad])));
+    expect(records.map(r => r.id)).toEqual([good.id]);
+    expect(errors).toEqual([{ row: "Invoice 2 (INV/25-26/0001)", message: "form.date: not YYYY-MM-DD" }]);
+  });
+
+  it("recomputes the total and checks the timestamps", () => {
+    const { id, createdAt, ...rest } = makeRecord();
+    const stale = { ...rest, id, grand: 1, createdAt };
+    const undated = { ...rest, id: "x2", updatedAt: undefined };
+    const broken = { ...rest, id: "x3", createdAt: "yesterday" };
+    const { records, errors } = parseBundle(JSON.stringify(makeBundle([stale, undated, broken] as InvoiceRecord[])));
+    expect(records[0]).toMatchObject({ grand: 2230, createdAt });
+    expect(records[1].updatedAt).toBe(records[1].createdAt);
+    expect(errors).toEqual([{ row: "Invoice 3 (INV/25-26/0001)", message: "createdAt: not a timestamp" }]);
+  });
+
+  it("rejects files from a newer version", () => {
+    const text = JSON.stringify({ ...makeBundle([]), version: 99 });
+    expect(parseBundle(text).errors[0].message).toMatch(/newer/);
+  });
+
+  it("resolves conflicts by policy", () => {
+    const here = makeRecord();
+    const incoming = [{ ...here, id: "other" }, makeRecord({ invoiceNo: "INV/25-26/0002" })];
+    expect(planImport(incoming, [here], "skip")).toMatchObject({ added: 1, skipped: 1 });
+    const replace = planImport(incoming, [here], "replace");
+    expect(replace.put[0].id).toBe(here.id);
+    const copy = planImport(incoming, [here], "copy");
+    expect(copy.put[0]).toMatchObject({ invoiceNo: "", status: "draft" });
+    expect(copy.put[0].id).not.toBe(here.id);
+  });
+});
@@ -0,0 +1,252 @@
+import { resolveState } from "./gst";
+import { DOC_META, DOC_TYPES, type DocType } from "./documents";
+import { NEW_FORM, invoiceTotals, newItem, placeOfSupply, type Form, type Item } from "./invoice";
+import { toRecord, type InvoiceRecord, type InvoiceStatus } from "./invoiceDb";
+import { ROUNDING_POLICIES, isLine, type RoundingPolicy } from "./pricing";
+import { balanceDue, paidAmount } from "./ledger";
+import { headerIndex, parseCsv } from "./csv";
+import type { ImportIssue, ParsedImport } from "./bundle";
+
+/* ---------- sales registers (CSV for Excel / Tally) ---------------------- */
+// Column names and formats follow the GSTR-1 offline template ("Invoice date"
+// as 05-Apr-2025, "Place Of Supply" as 27-Maharashtra). Only issued tax
+// documents are listed; credit notes carry negative amounts so columns sum.
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export const gstDate = (iso: string) => {
+  const [y, m, d] = iso.split("-");
+  return y && m && d ? `${d}-${MONTHS[+m - 1]}-${y}` : iso;
+};
+
+// 05-Apr-2025, 2025-04-05, 05-04-2025 or 05/04/2025 → 2025-04-05 ("" if unreadable)
+export const parseRegisterDate = (s: string): string => {
+  const v = s.trim();
+  let m = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (m) return iso(+m[1], +m[2], +m[3]);
+  m = v.match(/^(\d{1,2})[-/ ]([A-Za-z]{3})[a-z]*[-/ ](\d{4})$/);
+  if (m) {
+    const mon = MONTHS.findIndex(x => x.toLowerCase() === m![2].toLowerCase());
+    return mon < 0 ? "" : iso(+m[3], mon + 1, +m[1]);
+  }
+  m = v.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  return m ? iso(+m[3], +m[2], +m[1]) : "";
+};
+
+const iso = (y: number, m: number, d: number) => {
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d
+    ? dt.toISOString().slice(0, 10) : "";
+};
+
+const posLabel = (code: string) => {
+  const s = resolveState(code);
+  return s ? `${s.code}-${s.name}` : code;
+};
+
+const isTaxDocument = (t: DocType) => t === "invoice" || t === "credit_note" || t === "debit_note";
+
+export const registerRecords = (records: InvoiceRecord[]) =>
+  records
+    .filter(r => r.status === "issued" && isTaxDocument(r.form.docType))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.invoiceNo.localeCompare(b.invoiceNo));
+
+const amt = (n: number) => (Math.round(n * 100) / 100).toFixed(2);
+
+export const INVOICE_REGISTER_HEADER = [
+  "Invoice Type", "Invoice Number", "Invoice date", "Customer Name", "GSTIN/UIN of Recipient",
+  "Place Of Supply", "Supply Type", "Reverse Charge", "Currency", "Taxable Value",
+  "CGST Amount", "SGST Amount", "IGST Amount", "Cess Amount", "Round Off", "Invoice Value",
+  "Amount Received", "Balance Due",
+];
+
+export const invoiceRegister = (records: InvoiceRecord[]): string[][] => [
+  INVOICE_REGISTER_HEADER,
+  ...registerRecords(records).map(r => {
+    const f = r.form;
+    const t = invoiceTotals(f);
+    const s = DOC_META[f.docType].sign;
+    return [
+      DOC_META[f.docType].label, f.invoiceNo, gstDate(f.date), f.buyer.name, f.buyer.gstin,
+      posLabel(placeOfSupply(f)), t.tax.supply === "intra" ? "Intra-State" : "Inter-State", "N", f.currency,
+      amt(s * t.tax.taxable), amt(s * t.tax.cgst), amt(s * t.tax.sgst), amt(s * t.tax.igst),
+      amt(s * t.tax.cess), amt(s * t.roundoff), amt(s * t.grand),
+      amt(paidAmount(r)), amt(s * balanceDue(r)),
+    ];
+  }),
+];
+
+export const LINE_REGISTER_HEADER = [
+  "Invoice Type", "Invoice Number", "Invoice date", "Status", "Customer Name", "GSTIN/UIN of Recipient",
+  "Place Of Supply", "Currency", "Rates Include GST", "HSN/SAC", "SKU", "Description", "Quantity", "Unit",
+  "Rate", "Discount", "Discount Type", "Taxable Value", "GST Rate", "CGST Amount", "SGST Amount",
+  "IGST Amount", "Cess Rate", "Cess Amount", "Line Total",
+  "Overall Discount", "Overall Discount Type", "Rounding", "Original Document Type", "Original Document Number",
+  "Original Document date",
+];
+
+// One row per item; taxable values already include the share of any overall
+// discount. The document-level columns at the end repeat on every row so the
+// register can be imported back without losing the discount or the reference.
+export const lineRegister = (records: InvoiceRecord[]): string[][] => [
+  LINE_REGISTER_HEADER,
+  ...registerRecords(records).flatMap(r => {
+    const f = r.form;
+    const t = invoiceTotals(f);
+    const s = DOC_META[f.docType].sign;
+    return f.items.flatMap((it, i) => {
+      if (!isLine(it)) return [];
+      const l = t.tax.lines[i];
+      return [[
+        DOC_META[f.docType].label, f.invoiceNo, gstDate(f.date), "Issued", f.buyer.name, f.buyer.gstin,
+        posLabel(placeOfSupply(f)), f.currency, f.priceMode === "inclusive" ? "Y" : "N",
+        it.hsn, it.sku, it.description, String(+it.qty || 0), it.unit, String(+it.rate || 0),
+        String(+it.discount || 0), it.discountMode === "percent" ? "%" : "Amount",
+        amt(s * l.taxable), String(l.rate), amt(s * l.cgst), amt(s * l.sgst), amt(s * l.igst),
+        String(l.cessRate), amt(s * l.cess), amt(s * l.total),
+        String(+f.overallDiscount || 0), f.overallDiscountMode === "percent" ? "%" : "Amount", f.rounding,
+        f.ref ? DOC_META[f.ref.docType].label : "", f.ref?.no ?? "", f.ref?.date ? gstDate(f.ref.date) : "",
+      ]];
+    });
+  }),
+];
+
+/* ---------- line register import ---------------------------------------- */
+// Rebuilds invoices from a line-level register (ours, or one kept by hand in
+// the same layout). Rows are grouped by type + number; every bad row is reported.
+// The register has no seller columns, so the seller comes from the saved
+// business profile. Where the file has "Taxable Value" / "Line Total", each
+// rebuilt invoice is checked against them and any difference is reported.
+export const parseLineRegister = (text: string): ParsedImport => {
+  const rows = parseCsv(text);
+  if (rows.length < 2) return { records: [], errors: [{ row: "file", message: "CSV has no data rows" }] };
+  const [header, ...data] = rows;
+  const col = {
+    type: headerIndex(header, "invoice type", "type"),
+    no: headerIndex(header, "invoice number", "invoice no", "number"),
+    date: headerIndex(header, "invoice date", "date"),
+    status: headerIndex(header, "status"),
+    customer: headerIndex(header, "customer name", "customer", "receiver name"),
+    gstin: headerIndex(header, "gstin/uin of recipient", "gstin"),
+    pos: headerIndex(header, "place of supply", "pos"),
+    currency: headerIndex(header, "currency"),
+    inclusive: headerIndex(header, "rates include gst"),
+    hsn: headerIndex(header, "hsn/sac", "hsn"),
+    sku: headerIndex(header, "sku"),
+    description: headerIndex(header, "description", "item"),
+    qty: headerIndex(header, "quantity", "qty"),
+    unit: headerIndex(header, "unit", "uqc"),
+    rate: headerIndex(header, "rate", "unit price"),
+    discount: headerIndex(header, "discount"),
+    discountType: headerIndex(header, "discount type"),
+    gstRate: headerIndex(header, "gst rate", "gst %"),
+    cessRate: headerIndex(header, "cess rate"),
+    taxable: headerIndex(header, "taxable value"),
+    lineTotal: headerIndex(header, "line total"),
+    overall: headerIndex(header, "overall discount"),
+    overallType: headerIndex(header, "overall discount type"),
+    rounding: headerIndex(header, "rounding"),
+    refType: headerIndex(header, "original document type"),
+    refNo: headerIndex(header, "original document number"),
+    refDate: headerIndex(header, "original document date"),
+  };
+  const missing = (["no", "date", "qty", "rate"] as const).filter(k => col[k] < 0);
+  if (missing.length) {
+    return { records: [], errors: [{ row: "header", message: `missing column(s): ${missing.join(", ")}` }] };
+  }
+
+  const errors: ImportIssue[] = [];
+  // the register's own figures, summed per document, to check the rebuild
+  // against (null: the column is missing or has blank cells)
+  type Group = { form: Form; status: InvoiceStatus; taxable: number | null; total: number | null };
+  const groups = new Map<string, Group>();
+  data.forEach((r, i) => {
+    const row = `Row ${i + 2}`;
+    const get = (c: number) => (c >= 0 ? (r[c] ?? "").trim() : "");
+    const num = (c: number, fallback = 0) => {
+      const v = get(c).replace(/,/g, "").replace("%", "");
+      return v === "" ? fallback : Number(v);
+    };
+    const problems: string[] = [];
+    const no = get(col.no);
+    if (!no) problems.push("missing invoice number");
+    const date = parseRegisterDate(get(col.date));
+    if (!date) problems.push(`unreadable date "${get(col.date)}"`);
+    const label = get(col.type).toLowerCase();
+    const docType = label ? DOC_TYPES.find(t => DOC_META[t].label.toLowerCase() === label) : "invoice";
+    if (!docType) problems.push(`unknown invoice type "${get(col.type)}"`);
+    const qty = num(col.qty), rate = num(col.rate), discount = num(col.discount);
+    const gstRate = num(col.gstRate, 18), cess = num(col.cessRate), overall = num(col.overall);
+    for (const [name, v] of [
+      ["quantity", qty], ["rate", rate], ["discount", discount], ["GST rate", gstRate], ["cess rate", cess],
+      ["overall discount", overall],
+    ] as const) {
+      if (!Number.isFinite(v) || v < 0) problems.push(`invalid ${name}`);
+    }
+    const rounding = (get(col.rounding) || "nearest1") as RoundingPolicy;
+    if (!ROUNDING_POLICIES.some(p => p.id === rounding)) problems.push(`unknown rounding "${get(col.rounding)}"`);
+    const refLabel = get(col.refType).toLowerCase();
+    const refType = refLabel ? DOC_TYPES.find(t => DOC_META[t].label.toLowerCase() === refLabel) : "invoice";
+    if (!refType) problems.push(`unknown original document type "${get(col.refType)}"`);
+    const refDate = parseRegisterDate(get(col.refDate));
+    if (get(col.refDate) && !refDate) problems.push(`unreadable original document date "${get(col.refDate)}"`);
+    const posRaw = get(col.pos);
+    const pos = posRaw ? resolveState(posRaw.match(/^\d{1,2}/)?.[0] ?? posRaw)?.code : "";
+    if (pos === undefined) problems.push(`unknown place of supply "${posRaw}"`);
+    if (problems.length) { problems.forEach(message => errors.push({ row, message })); return; }
+
+    const key = `${docType}|${no}`;
+    let g = groups.get(key);
+    if (!g) {
+      const base = NEW_FORM();
+      const status = get(col.status).toLowerCase();
+      const refNo = get(col.refNo);
+      g = {
+        status: status === "draft" || status === "cancelled" ? status : "issued",
+        form: {
+          ...base, docType: docType!, invoiceNo: no, date, dueDate: date, place: pos ?? "",
+          ref: refNo ? { docType: refType!, no: refNo, date: refDate } : null,
+          buyer: { ...base.buyer, name: get(col.customer), gstin: get(col.gstin).toUpperCase(), state: pos ?? "" },
+          currency: get(col.currency) || base.currency,
+          priceMode: /^y/i.test(get(col.inclusive)) ? "inclusive" : "exclusive",
+          overallDiscount: overall,
+          overallDiscountMode: get(col.overallType) === "%" ? "percent" : "amount",
+          rounding,
+          items: [],
+        },
+        taxable: col.taxable < 0 ? null : 0,
+        total: col.lineTotal < 0 ? null : 0,
+      };
+      groups.set(key, g);
+    } else if (g.form.date !== date) {
+      errors.push({ row, message: `date differs from earlier rows of ${no}; using ${g.form.date}` });
+    }
+    const item: Item = {
+      ...newItem(),
+      description: get(col.description), hsn: get(col.hsn), sku: get(col.sku),
+      unit: get(col.unit) || "Pcs.", qty, rate, discount, gstRate, cess,
+      discountMode: get(col.discountType) === "%" ? "percent" : "amount",
+    };
+    g.form.items.push(item);
+    const sum = (prev: number | null, c: number) => (prev === null || get(c) === "" ? null : prev + num(c));
+    g.taxable = sum(g.taxable, col.taxable);
+    g.total = sum(g.total, col.lineTotal);
+  });
+
+  const records = [...groups.values()].map(({ form, status, taxable, total }) => {
+    const { lines } = invoiceTotals(form).tax;
+    const s = DOC_META[form.docType].sign;
+    const checks = [
+      ["taxable value", taxable, lines.reduce((a, l) => a + +amt(s * l.taxable), 0)],
+      ["line total", total, lines.reduce((a, l) => a + +amt(s * l.total), 0)],
+    ] as const;
+    for (const [name, file, rebuilt] of checks) {
+      if (file === null || !Number.isFinite(file) || Math.abs(file - rebuilt) < 0.005) continue;
+      errors.push({
+        row: form.invoiceNo,
+        message: `rebuilt ${name} ${amt(rebuilt)} differs from the register's ${amt(file)}; check the rates, discounts and GST columns`,
+      });
+    }
+    return { ...toRecord(form), status };
+  });
+  return { records, errors };
+};
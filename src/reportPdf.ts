@@ -0,0 +1,72 @@
+import { jsPDF } from "jspdf";
+import autoTable, { type RowInput } from "jspdf-autotable";
+import { numberFmt } from "./currency";
+import { registerPdfFont, type FontLoader, type PdfFont } from "./pdfFonts";
+import type { PdfTheme } from "./invoicePdf";
+import { rangeLabel, type ColumnKind, type Report, type ReportCell, type ReportRange } from "./reports";
+
+/* ---------- report PDF --------------------------------------------------- */
+// One report as an A4 table: title, period and business name on top, the
+// rows, the total in the footer and "Page X of Y" on every page. Landscape
+// when the table is wide.
+export type ReportPdfInput = {
+  report: Report;
+  range: ReportRange;
+  business: string;
+  font: PdfFont;
+  theme: PdfTheme;
+  loadFont: FontLoader;
+};
+
+const MARGIN = 12;
+
+// figures as shown on screen and in the PDF (the CSV keeps plain numbers)
+export const formatReportCell = (v: ReportCell, kind: ColumnKind) => {
+  if (typeof v !== "number") return v;
+  if (kind === "money") return numberFmt(2, "indian")(v);
+  if (kind === "percent") return `${numberFmt(1, "indian")(v)}%`;
+  return numberFmt(kind === "qty" && !Number.isInteger(v) ? 2 : 0, "indian")(v);
+};
+
+export const buildReportPdf = async ({ report, range, business, font, theme, loadFont }: ReportPdfInput): Promise<Blob> => {
+  const doc = new jsPDF({ unit: "mm", format: "a4", orientation: report.columns.length > 6 ? "landscape" : "portrait" });
+  const family = await registerPdfFont(doc, font, loadFont);
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const { text, accent, surface } = theme;
+
+  doc.setFont(family, "bold");
+  doc.setFontSize(14);
+  doc.setTextColor(...accent);
+  doc.text(report.title, MARGIN, 16);
+  doc.setFont(family, "normal");
+  doc.setFontSize(9);
+  doc.setTextColor(...text);
+  doc.text([business, `Period: ${rangeLabel(range)} • Amounts in INR`].filter(Boolean), MARGIN, 22);
+
+  const align = (kind: ColumnKind) => (kind === "text" ? "left" : "right");
+  const row = (r: ReportCell[]): RowInput =>
+    r.map((v, i) => ({ content: formatReportCell(v, report.columns[i].kind), styles: { halign: align(report.columns[i].kind) } }));
+
+  autoTable(doc, {
+    startY: business ? 32 : 28,
+    theme: "grid",
+    margin: { left: MARGIN, right: MARGIN, bottom: 16 },
+    head: [report.columns.map(c => ({ content: c.label, styles: { halign: align(c.kind) } }))],
+    body: report.rows.length ? report.rows.map(row) : [[{ content: "No documents in this period", colSpan: report.columns.length }]],
+    foot: report.total ? [row(report.total)] : undefined,
+    showFoot: "lastPage",
+    headStyles: { fillColor: accent, textColor: [255, 255, 255], fontStyle: "bold" },
+    footStyles: { fillColor: surface, textColor: text, fontStyle: "bold" },
+    styles: { font: family, fontSize: 8.5, cellPadding: 1.6, textColor: text, fillColor: surface, lineWidth: 0.15 },
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    doc.setPage(p);
+    doc.setFontSize(8);
+    doc.text(report.title, MARGIN, pageH - 8);
+    doc.text(`Page ${p} of ${pages}`, pageW - MARGIN, pageH - 8, { align: "right" });
+  }
+  return doc.output("blob");
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { newItem, type Form } from "./invoice";
+import type { InvoiceRecord } from "./invoiceDb";
+import { lightTheme } from "./invoicePdf";
+import { buildReportPdf } from "./reportPdf";
+import { EMPTY_PARTY } from "./parties";
+import { buildReports, rangePresets, reportRows, type ReportId, type SalesReports } from "./reports";
+import { makeForm, makeRecord } from "./testFixtures";
+
+const issued = (p: Partial<Form> = {}): InvoiceRecord => makeRecord({
+  invoiceNo: "INV-1", rounding: "none",
+  buyer: { ...makeForm().buyer, name: "Asha Stores" },
+  items: [
+    { ...newItem(), description: "Widget", sku: "W-1", hsn: "8471", qty: 2, rate: 500, discount: 10, discountMode: "percent" },
+    { ...newItem(), description: "Service", hsn: "9983", unit: "Nos", qty: 1, rate: 1000, gstRate: 5 },
+  ],
+  ...p,
+});
+
+const report = (r: SalesReports, id: ReportId) => r.reports.find(x => x.id === id)!;
+const ALL = { from: "", to: "" };
+
+describe("sales reports", () => {
+  it("totals revenue by month with credit notes subtracted", () => {
+    const r = buildReports([
+      issued(),
+      issued({ invoiceNo: "INV-2", date: "2025-05-02" }),
+      issued({ docType: "credit_note", invoiceNo: "CN-1", date: "2025-05-20", items: [{ ...newItem(), qty: 1, rate: 100 }] }),
+      { ...issued({ invoiceNo: "" }), status: "draft" },
+      issued({ docType: "quotation", invoiceNo: "Q-1" }),
+    ], ALL);
+    expect(r.documents).toBe(3);
+    const months = report(r, "months");
+    expect(months.rows).toEqual([
+      ["Apr 2025", 1, 1900, 212, 2112],
+      ["May 2025", 2, 1800, 194, 1994],
+    ]);
+    expect(months.total).toEqual(["Total", 3, 3700, 406, 4106]);
+  });
+
+  it("limits to the date range and ranks customers by value", () => {
+    const r = buildReports([
+      issued(),
+      issued({ invoiceNo: "INV-2", buyer: { ...EMPTY_PARTY(), name: "Big Buyer" }, items: [{ ...newItem(), qty: 10, rate: 1000 }] }),
+      issued({ invoiceNo: "INV-3", date: "2025-06-01" }),
+    ], { from: "2025-04-01", to: "2025-04-30" });
+    const customers = report(r, "customers");
+    expect(customers.rows.map(c => c[0])).toEqual(["Big Buyer", "Asha Stores"]);
+    expect(customers.rows[1][2]).toBe(1);
+  });
+
+  it("adds up products, HSN codes, discounts and tax by rate", () => {
+    const r = buildReports([issued(), issued({ invoiceNo: "INV-2", overallDiscount: 100 })], ALL);
+    const products = report(r, "products");
+    expect(products.rows[0]).toEqual(["", "Service", "9983", 2, "Nos", 1947.37]);
+    expect(products.rows[1]).toEqual(["W-1", "Widget", "8471", 4, "Pcs.", 1752.63]);
+    expect(report(r, "hsn").rows.map(h => h.slice(0, 3))).toEqual([["9983", "NOS", 2], ["8471", "PCS", 4]]);
+    expect(report(r, "discounts").total).toEqual(["Total", 4000, 200, 100, 300, 7.5]);
+    const tax = report(r, "tax");
+    expect(tax.rows.map(t => t[0])).toEqual(["5%", "18%"]);
+    expect(tax.total?.[6]).toBe(r2(97.37 + 315.47));
+  });
+
+  it("ranks by quantity on request and skips foreign documents without a rate", () => {
+    const r = buildReports([
+      issued(),
+      issued({ invoiceNo: "E-1", currency: "USD", exchangeRate: 0 }),
+      issued({ invoiceNo: "E-2", currency: "USD", exchangeRate: 80, items: [{ ...newItem(), description: "Export", qty: 1, rate: 10, gstRate: 0 }] }),
+    ], ALL, { rankBy: "qty" });
+    expect(r.skipped).toBe(1);
+    expect(report(r, "products").rows.map(p => p[1])).toEqual(["Widget", "Service", "Export"]);
+    expect(report(r, "customers").rows[0][5]).toBe(2112 + 800);
+  });
+
+  it("exports plain numbers to CSV", () => {
+    const rows = reportRows(report(buildReports([issued()], ALL), "months"));
+    expect(rows).toEqual([
+      ["Month", "Documents", "Taxable value", "Tax", "Invoice value"],
+      ["Apr 2025", "1", "1900.00", "212.00", "2112.00"],
+      ["Total", "1", "1900.00", "212.00", "2112.00"],
+    ]);
+  });
+});
+
+describe("report PDF", () => {
+  it("draws the table with formatted figures and the total", async () => {
+    const months = report(buildReports([issued()], ALL), "months");
+    const pdf = await buildReportPdf({
+      report: months, range: { from: "2025-04-01", to: "2026-03-31" }, business: "Seller",
+      font: "helvetica", theme: lightTheme(), loadFont: () => Promise.reject(new Error("not needed")),
+    });
+    const src = new TextDecoder("latin1").decode(await pdf.arrayBuffer());
+    const text = [...src.matchAll(/\(((?:\\.|[^\\)])*)\) Tj/g)].map(m => m[1]);
+    expect(text).toEqual(expect.arrayContaining(["Revenue by month", "Seller", "Apr 2025", "1,900.00", "2,112.00", "Total", "Page 1 of 1"]));
+  });
+});
+
+describe("date presets", () => {
+  it("follow the April–March financial year", () => {
+    const p = Object.fromEntries(rangePresets("2026-02-14").map(x => [x.id, x.range]));
+    expect(p.month).toEqual({ from: "2026-02-01", to: "2026-02-14" });
+    expect(p["last-month"]).toEqual({ from: "2026-01-01", to: "2026-01-31" });
+    expect(p.fy).toEqual({ from: "2025-04-01", to: "2026-02-14" });
+    expect(p["last-fy"]).toEqual({ from: "2024-04-01", to: "2025-03-31" });
+  });
+});
+
+const r2 = (n: number) => Math.round(n * 100) / 100;
@@ -0,0 +1,238 @@
+import { DOC_META } from "./documents";
+import { uqcOf } from "./gst";
+import { invoiceTotals } from "./invoice";
+import type { InvoiceRecord } from "./invoiceDb";
+import { addDays, baseRate } from "./ledger";
+import { financialYear } from "./numbering";
+import { isLine } from "./pricing";
+import { registerRecords } from "./registers";
+
+/* ---------- sales reports ------------------------------------------------ */
+// Built from the same documents as the sales registers: issued invoices and
+// debit notes, less credit notes. Figures are in rupees; a foreign-currency
+// document is converted at the rate entered on it, or left out (and counted
+// in `skipped`) when it has none. Taxable values already include each line's
+// share of the overall discount.
+export type ReportId = "months" | "customers" | "products" | "hsn" | "discounts" | "tax";
+
+export type ColumnKind = "text" | "count" | "qty" | "money" | "percent";
+
+export type ReportColumn = { label: string; kind: ColumnKind };
+
+export type ReportCell = string | number;
+
+export type Report = {
+  id: ReportId;
+  title: string;
+  columns: ReportColumn[];
+  rows: ReportCell[][];
+  total: ReportCell[] | null;     // footer row
+  chart: { label: string; value: number }[];
+  chartLabel: string;             // what the bars measure
+};
+
+export type ReportRange = { from: string; to: string };   // inclusive YYYY-MM-DD, "" = open
+
+export type ReportOptions = { top?: number; rankBy?: "value" | "qty" };
+
+export type SalesReports = { documents: number; skipped: number; reports: Report[] };
+
+const r2 = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// "2025-04" → "Apr 2025"
+export const monthLabel = (ym: string) => `${MONTHS[+ym.slice(5, 7) - 1]} ${ym.slice(0, 4)}`;
+
+export const inRange = (iso: string, { from, to }: ReportRange) => (!from || iso >= from) && (!to || iso <= to);
+
+/* ---------- date presets ------------------------------------------------- */
+export type RangePreset = { id: string; label: string; range: ReportRange };
+
+export const rangePresets = (today: string): RangePreset[] => {
+  const month = today.slice(0, 7);
+  const lastMonthEnd = addDays(`${month}-01`, -1);
+  const fy = financialYear(today).start;
+  return [
+    { id: "month", label: "This month", range: { from: `${month}-01`, to: today } },
+    { id: "last-month", label: "Last month", range: { from: `${lastMonthEnd.slice(0, 7)}-01`, to: lastMonthEnd } },
+    { id: "fy", label: "This financial year", range: { from: `${fy}-04-01`, to: today } },
+    { id: "last-fy", label: "Last financial year", range: { from: `${fy - 1}-04-01`, to: `${fy}-03-31` } },
+    { id: "all", label: "All time", range: { from: "", to: "" } },
+  ];
+};
+
+/* ---------- aggregation -------------------------------------------------- */
+type Money = { taxable: number; tax: number; value: number };
+
+const add = <T extends Record<string, number | string>>(row: T, patch: Partial<Record<keyof T, number>>) => {
+  for (const [k, v] of Object.entries(patch) as [keyof T, number][]) row[k] = r2((row[k] as number) + v) as T[keyof T];
+};
+
+const bucket = <K, T>(map: Map<K, T>, key: K, make: () => T) => {
+  let row = map.get(key);
+  if (!row) { row = make(); map.set(key, row); }
+  return row;
+};
+
+export const buildReports = (
+  records: InvoiceRecord[], range: ReportRange, { top = 10, rankBy = "value" }: ReportOptions = {},
+): SalesReports => {
+  const months = new Map<string, Money & { month: string; docs: number; lineDisc: number; overallDisc: number }>();
+  const customers = new Map<string, Money & { name: string; gstin: string; docs: number }>();
+  const products = new Map<string, { sku: string; description: string; hsn: string; unit: string; qty: number; taxable: number }>();
+  const hsns = new Map<string, Money & { hsn: string; uqc: string; qty: number }>();
+  const rates = new Map<number, { rate: number; taxable: number; cgst: number; sgst: number; igst: number; cess: number }>();
+  let documents = 0, skipped = 0;
+
+  for (const rec of registerRecords(records)) {
+    const f = rec.form;
+    if (!inRange(f.date, range)) continue;
+    const fx = baseRate(rec);
+    if (!fx) { skipped++; continue; }
+    documents++;
+    const s = DOC_META[f.docType].sign * fx;
+    const t = invoiceTotals(f);
+
+    const month = bucket(months, f.date.slice(0, 7), () => ({
+      month: f.date.slice(0, 7), docs: 0, taxable: 0, tax: 0, value: 0, lineDisc: 0, overallDisc: 0,
+    }));
+    const name = f.buyer.name.trim() || "(no name)";
+    const customer = bucket(customers, f.buyer.gstin.trim().toUpperCase() || name.toLowerCase(), () => ({
+      name, gstin: f.buyer.gstin.trim().toUpperCase(), docs: 0, taxable: 0, tax: 0, value: 0,
+    }));
+    const money = { taxable: s * t.tax.taxable, tax: s * t.tax.tax, value: s * t.grand };
+    add(month, { ...money, docs: 1, overallDisc: s * t.discount });
+    add(customer, { ...money, docs: 1 });
+
+    f.items.forEach((it, i) => {
+      if (!isLine(it)) return;
+      const price = t.lines[i];
+      const lt = t.tax.lines[i];
+      const qty = DOC_META[f.docType].sign * (+it.qty || 0);
+      const taxable = s * lt.taxable;
+      const lineTaxes = s * (lt.cgst + lt.sgst + lt.igst + lt.cess);
+      // inclusive rates carry tax in the discount too; report it before tax
+      const disc = f.priceMode === "inclusive"
+        ? price.discount / (1 + ((+it.gstRate || 0) + (+it.cess || 0)) / 100) : price.discount;
+      add(month, { lineDisc: s * disc });
+
+      const sku = it.sku.trim();
+      const product = bucket(products, sku ? `sku|${sku.toLowerCase()}` : `desc|${it.description.trim().toLowerCase()}`,
+        () => ({ sku, description: it.description.trim(), hsn: it.hsn.trim(), unit: it.unit, qty: 0, taxable: 0 }));
+      add(product, { qty, taxable });
+
+      const uqc = uqcOf(it.unit);
+      const hsn = bucket(hsns, `${it.hsn.trim()}|${uqc}`, () => ({ hsn: it.hsn.trim(), uqc, qty: 0, taxable: 0, tax: 0, value: 0 }));
+      add(hsn, { qty, taxable, tax: lineTaxes, value: taxable + lineTaxes });
+
+      const rate = bucket(rates, lt.rate, () => ({ rate: lt.rate, taxable: 0, cgst: 0, sgst: 0, igst: 0, cess: 0 }));
+      add(rate, { taxable, cgst: s * lt.cgst, sgst: s * lt.sgst, igst: s * lt.igst, cess: s * lt.cess });
+    });
+  }
+
+  const sum = <T>(rows: T[], pick: (r: T) => number) => r2(rows.reduce((a, r) => a + pick(r), 0));
+  const rank = <T extends { qty: number; taxable: number }>(rows: T[]) =>
+    rows.sort((a, b) => (rankBy === "qty" ? b.qty - a.qty : 0) || b.taxable - a.taxable).slice(0, top);
+
+  const monthRows = [...months.values()].sort((a, b) => a.month.localeCompare(b.month));
+  const customerRows = [...customers.values()].sort((a, b) => b.value - a.value).slice(0, top);
+  const productRows = rank([...products.values()]);
+  const hsnRows = rank([...hsns.values()]);
+  const rateRows = [...rates.values()].sort((a, b) => a.rate - b.rate);
+  const pct = (part: number, whole: number) => (whole ? r2(part * 100 / whole) : 0);
+
+  const reports: Report[] = [
+    {
+      id: "months", title: "Revenue by month", chartLabel: "Taxable value",
+      columns: [
+        { label: "Month", kind: "text" }, { label: "Documents", kind: "count" },
+        { label: "Taxable value", kind: "money" }, { label: "Tax", kind: "money" }, { label: "Invoice value", kind: "money" },
+      ],
+      rows: monthRows.map(m => [monthLabel(m.month), m.docs, m.taxable, m.tax, m.value]),
+      total: ["Total", sum(monthRows, m => m.docs), sum(monthRows, m => m.taxable), sum(monthRows, m => m.tax),
+        sum(monthRows, m => m.value)],
+      chart: monthRows.map(m => ({ label: monthLabel(m.month), value: m.taxable })),
+    },
+    {
+      id: "customers", title: `Top ${top} customers`, chartLabel: "Invoice value",
+      columns: [
+        { label: "Customer", kind: "text" }, { label: "GSTIN", kind: "text" }, { label: "Documents", kind: "count" },
+        { label: "Taxable value", kind: "money" }, { label: "Tax", kind: "money" }, { label: "Invoice value", kind: "money" },
+      ],
+      rows: customerRows.map(c => [c.name, c.gstin, c.docs, c.taxable, c.tax, c.value]),
+      total: null,
+      chart: customerRows.map(c => ({ label: c.name, value: c.value })),
+    },
+    {
+      id: "products", title: `Top ${top} products by ${rankBy === "qty" ? "quantity" : "value"}`,
+      chartLabel: rankBy === "qty" ? "Quantity" : "Taxable value",
+      columns: [
+        { label: "SKU", kind: "text" }, { label: "Description", kind: "text" }, { label: "HSN/SAC", kind: "text" },
+        { label: "Quantity", kind: "qty" }, { label: "Unit", kind: "text" }, { label: "Taxable value", kind: "money" },
+      ],
+      rows: productRows.map(p => [p.sku, p.description, p.hsn, p.qty, p.unit, p.taxable]),
+      total: null,
+      chart: productRows.map(p => ({ label: p.sku || p.description, value: rankBy === "qty" ? p.qty : p.taxable })),
+    },
+    {
+      id: "hsn", title: `Top ${top} HSN/SAC codes by ${rankBy === "qty" ? "quantity" : "value"}`,
+      chartLabel: rankBy === "qty" ? "Quantity" : "Taxable value",
+      columns: [
+        { label: "HSN/SAC", kind: "text" }, { label: "UQC", kind: "text" }, { label: "Quantity", kind: "qty" },
+        { label: "Taxable value", kind: "money" }, { label: "Tax", kind: "money" }, { label: "Total value", kind: "money" },
+      ],
+      rows: hsnRows.map(h => [h.hsn || "(none)", h.uqc, h.qty, h.taxable, h.tax, h.value]),
+      total: null,
+      chart: hsnRows.map(h => ({ label: h.hsn || "(none)", value: rankBy === "qty" ? h.qty : h.taxable })),
+    },
+    {
+      id: "discounts", title: "Discounts by month", chartLabel: "Total discount",
+      columns: [
+        { label: "Month", kind: "text" }, { label: "Sales before discount", kind: "money" },
+        { label: "Line discounts", kind: "money" }, { label: "Overall discount", kind: "money" },
+        { label: "Total discount", kind: "money" }, { label: "% of sales", kind: "percent" },
+      ],
+      rows: monthRows.map(m => {
+        const disc = r2(m.lineDisc + m.overallDisc);
+        return [monthLabel(m.month), r2(m.taxable + disc), m.lineDisc, m.overallDisc, disc, pct(disc, m.taxable + disc)];
+      }),
+      total: (() => {
+        const line = sum(monthRows, m => m.lineDisc), overall = sum(monthRows, m => m.overallDisc);
+        const gross = r2(sum(monthRows, m => m.taxable) + line + overall);
+        return ["Total", gross, line, overall, r2(line + overall), pct(line + overall, gross)];
+      })(),
+      chart: monthRows.map(m => ({ label: monthLabel(m.month), value: r2(m.lineDisc + m.overallDisc) })),
+    },
+    {
+      id: "tax", title: "Tax collected by GST rate", chartLabel: "Total tax",
+      columns: [
+        { label: "GST rate %", kind: "text" }, { label: "Taxable value", kind: "money" },
+        { label: "CGST", kind: "money" }, { label: "SGST", kind: "money" }, { label: "IGST", kind: "money" },
+        { label: "Cess", kind: "money" }, { label: "Total tax", kind: "money" },
+      ],
+      rows: rateRows.map(r => [`${r.rate}%`, r.taxable, r.cgst, r.sgst, r.igst, r.cess, r2(r.cgst + r.sgst + r.igst + r.cess)]),
+      total: ["Total", sum(rateRows, r => r.taxable), sum(rateRows, r => r.cgst), sum(rateRows, r => r.sgst),
+        sum(rateRows, r => r.igst), sum(rateRows, r => r.cess), sum(rateRows, r => r.cgst + r.sgst + r.igst + r.cess)],
+      chart: rateRows.map(r => ({ label: `${r.rate}%`, value: r2(r.cgst + r.sgst + r.igst + r.cess) })),
+    },
+  ];
+  return { documents, skipped, reports };
+};
+
+/* ---------- CSV ---------------------------------------------------------- */
+// plain numbers (2 decimals for money) so spreadsheets can sum the columns
+const csvCell = (v: ReportCell, kind: ColumnKind) =>
+  typeof v === "number" && (kind === "money" || kind === "percent") ? v.toFixed(2) : String(v);
+
+export const reportRows = (report: Report): string[][] => [
+  report.columns.map(c => c.label),
+  ...[...report.rows, ...(report.total ? [report.total] : [])]
+    .map(r => r.map((v, i) => csvCell(v, report.columns[i].kind))),
+];
+
+export const reportFileName = (report: Report, range: ReportRange, ext: "csv" | "pdf") =>
+  `report-${report.id}-${range.from || "start"}_${range.to || "today"}.${ext}`;
+
+export const rangeLabel = ({ from, to }: ReportRange) =>
+  from && to ? `${from} to ${to}` : from ? `from ${from}` : to ? `up to ${to}` : "all dates";
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_PARTY } from "./parties";
+import {
+  DEFAULT_MAIL_TEMPLATE, fillTemplate, mailtoUrl, messageVars, whatsappNumber, whatsappText, whatsappUrl,
+} from "./share";
+import { makeForm } from "./testFixtures";
+
+const vars = () => messageVars(makeForm({
+  invoiceNo: "INV-7", date: "2026-04-01", dueDate: "2026-04-15",
+  seller: { ...EMPTY_PARTY(), name: "Acme Traders " }, buyer: { ...EMPTY_PARTY(), name: "Ravi Kumar" },
+}), "₹1,180.00", "upi://pay?pa=acme@okbank&am=1180.00");
+
+describe("message templates", () => {
+  it("fills placeholders and keeps unknown ones", () => {
+    const v = vars();
+    expect(fillTemplate("{type} {number} for {customer} {nope}", v)).toBe("Tax Invoice INV-7 for Ravi Kumar {nope}");
+    expect(fillTemplate(DEFAULT_MAIL_TEMPLATE().subject, v)).toBe("Tax Invoice INV-7 from Acme Traders");
+  });
+
+  it("drops the UPI line without leaving a gap", () => {
+    const body = fillTemplate(DEFAULT_MAIL_TEMPLATE().body, { ...vars(), upi: "" });
+    expect(body).not.toMatch(/\n{3}/);
+    expect(body).not.toContain("UPI");
+    expect(whatsappText(vars())).toContain("Pay by UPI: upi://pay?pa=acme@okbank");
+  });
+});
+
+describe("links", () => {
+  it("normalises WhatsApp numbers to international form", () => {
+    expect(whatsappNumber("98765 43210")).toBe("919876543210");
+    expect(whatsappNumber("09876543210")).toBe("919876543210");
+    expect(whatsappNumber("+44 7700 900123")).toBe("447700900123");
+    expect(whatsappUrl("", "Hi & bye")).toBe("https://wa.me/?text=Hi%20%26%20bye");
+  });
+
+  it("builds a mailto link with CRLF line breaks and several recipients", () => {
+    const url = mailtoUrl("a@x.in; b@y.in", "Invoice 1", "Line 1\nLine 2");
+    expect(url).toBe("mailto:a@x.in,b@y.in?subject=Invoice%201&body=Line%201%0D%0ALine%202");
+  });
+});
@@ -0,0 +1,82 @@
+import { DOC_META } from "./documents";
+import type { Form } from "./invoice";
+import { readJson, writeJson } from "./storage";
+
+/* ---------- message templates -------------------------------------------- */
+// Placeholders in {braces}; unknown ones are left as typed. A placeholder that
+// comes out empty (no UPI link) leaves at most one blank line behind.
+export type MessageVars = {
+  type: string; number: string; date: string; due: string;
+  amount: string; seller: string; customer: string; upi: string;
+};
+
+export const PLACEHOLDERS: (keyof MessageVars)[] = ["type", "number", "date", "due", "amount", "seller", "customer", "upi"];
+
+export type MailTemplate = { subject: string; body: string };
+
+export const DEFAULT_MAIL_TEMPLATE = (): MailTemplate => ({
+  subject: "{type} {number} from {seller}",
+  body: "Dear {customer},\n\nPlease find attached {type} {number} dated {date} for {amount}, due by {due}.\n" +
+    "{upi}\n\nThank you for your business.\n{seller}",
+});
+
+const WHATSAPP_TEMPLATE = "{type} {number} from {seller}\nAmount: {amount}\nDue: {due}\n{upi}";
+
+export const messageVars = (form: Form, amount: string, upi: string): MessageVars => ({
+  type: DOC_META[form.docType].label,
+  number: form.invoiceNo || "(draft)",
+  date: form.date,
+  due: form.dueDate || form.date,
+  amount,
+  seller: form.seller.name.trim(),
+  customer: form.buyer.name.trim() || "Customer",
+  upi: upi ? `Pay by UPI: ${upi}` : "",
+});
+
+export const fillTemplate = (text: string, vars: MessageVars) =>
+  text.replace(/\{(\w+)\}/g, (m, k: string) => (k in vars ? vars[k as keyof MessageVars] : m))
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+export const whatsappText = (vars: MessageVars) => fillTemplate(WHATSAPP_TEMPLATE, vars);
+
+const MAIL_KEY = "invoice_mail_v1";
+
+export const loadMailTemplate = (): MailTemplate => ({ ...DEFAULT_MAIL_TEMPLATE(), ...readJson<Partial<MailTemplate>>(MAIL_KEY, {}) });
+export const saveMailTemplate = (t: MailTemplate) => writeJson(MAIL_KEY, t);
+
+/* ---------- links --------------------------------------------------------- */
+// wa.me wants the number with country code and no "+"; bare 10-digit numbers
+// (and 0-prefixed ones) are taken as Indian mobiles.
+export const whatsappNumber = (phone: string) => {
+  const d = phone.replace(/\D/g, "");
+  if (d.length === 10) return `91${d}`;
+  if (d.length === 11 && d.startsWith("0")) return `91${d.slice(1)}`;
+  return d;
+};
+
+export const whatsappUrl = (phone: string, text: string) =>
+  `https://wa.me/${whatsappNumber(phone)}?text=${encodeURIComponent(text)}`;
+
+// mail clients expect CRLF line breaks in the body
+export const mailtoUrl = (to: string, subject: string, body: string) =>
+  `mailto:${to.split(/[,;\s]+/).filter(Boolean).map(a => encodeURIComponent(a).replace(/%40/g, "@")).join(",")}` +
+  `?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body.replace(/\r?\n/g, "\r\n"))}`;
+
+/* ---------- Web Share ------------------------------------------------------ */
+export const canShareFiles = () =>
+  typeof navigator !== "undefined" && typeof navigator.canShare === "function" &&
+  navigator.canShare({ files: [new File([""], "invoice.pdf", { type: "application/pdf" })] });
+
+// Resolves false when the browser cannot share files (desktop mostly); a
+// share the user cancels counts as done.
+export const sharePdf = async (pdf: Blob, name: string, title: string, text: string) => {
+  const file = new File([pdf], name, { type: "application/pdf" });
+  if (!navigator.canShare?.({ files: [file] })) return false;
+  try {
+    await navigator.share({ files: [file], title, text });
+  } catch (err) {
+    if ((err as Error).name !== "AbortError") throw err;
+  }
+  return true;
+};
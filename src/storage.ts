@@ -0,0 +1,12 @@
+/* ---------- localStorage JSON helpers ----------------------------------- */
+// Outside the browser (the CLI, tests) there is no storage: every setting
+// reads as its default.
+export const readJson = <T>(key: string, fallback: T): T => {
+  if (typeof localStorage === "undefined") return fallback;
+  const raw = localStorage.getItem(key);
+  if (!raw) return fallback;
+  try { return JSON.parse(raw) as T; } catch { return fallback; }
+};
+
+export const writeJson = (key: string, value: unknown) =>
+  localStorage.setItem(key, JSON.stringify(value));
@@ -0,0 +1,49 @@
+/* ---------- offline app shell ------------------------------------------- */
+// Built by the serviceWorker() plugin in vite.config.ts, which fills in
+// PRECACHE (every build file plus public/) and VERSION. Each deploy installs
+// a new cache; the old one is dropped once the new worker takes over.
+const VERSION = "dev";
+const PRECACHE = [];
+const CACHE = `invoice-app-${VERSION}`;
+
+self.addEventListener("install", event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(PRECACHE)));
+});
+
+self.addEventListener("activate", event => {
+  event.waitUntil((async () => {
+    for (const key of await caches.keys()) {
+      if (key.startsWith("invoice-app-") && key !== CACHE) await caches.delete(key);
+    }
+    await self.clients.claim();
+  })());
+});
+
+// the page asks a waiting worker to take over when the user accepts the update
+self.addEventListener("message", event => {
+  if (event.data === "skip-waiting") self.skipWaiting();
+});
+
+self.addEventListener("fetch", event => {
+  const req = event.request;
+  if (req.method !== "GET" || new URL(req.url).origin !== self.location.origin) return;
+
+  // one-page app: the network when it answers (fresh deploys), else the cached shell
+  if (req.mode === "navigate") {
+    event.respondWith(fetch(req).catch(async () =>
+      (await caches.match("/index.html", { cacheName: CACHE })) ?? Response.error()));
+    return;
+  }
+
+  // hashed build files never change, so the cache wins; anything else is kept once fetched
+  event.respondWith((async () => {
+    const hit = await caches.match(req, { cacheName: CACHE });
+    if (hit) return hit;
+    const res = await fetch(req);
+    if (res.ok) {
+      const copy = res.clone();
+      event.waitUntil(caches.open(CACHE).then(cache => cache.put(req, copy)));
+    }
+    return res;
+  })());
+});
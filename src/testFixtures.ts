@@ -0,0 +1,24 @@
+import { NEW_FORM, newItem, type Form } from "./invoice";
+import { toRecord, type InvoiceRecord, type InvoiceStatus } from "./invoiceDb";
+
+/* ---------- test fixtures ------------------------------------------------ */
+// Shared by the *.test.ts files. An intra-state (Maharashtra) tax invoice with
+// two rows: 2,000.00 taxable, 2,230.00 with GST. Tests override only the
+// fields they look at. The seller starts from NEW_FORM(), which reads as empty
+// because the tests run without localStorage.
+export const makeForm = (p: Partial<Form> = {}): Form => {
+  const base = NEW_FORM();
+  return {
+    ...base, invoiceNo: "INV/25-26/0001", date: "2025-04-05", dueDate: "2025-04-05",
+    seller: { ...base.seller, name: "Seller", state: "27" },
+    buyer: { ...base.buyer, name: "Buyer, Pune", gstin: "27AAPFU0939F1ZV", state: "27" },
+    items: [
+      { ...newItem(), description: "Widget", hsn: "8471", qty: 2, rate: 500 },
+      { ...newItem(), description: "Service", hsn: "9983", qty: 1, rate: 1000, gstRate: 5 },
+    ],
+    ...p,
+  };
+};
+
+export const makeRecord = (p: Partial<Form> = {}, status: InvoiceStatus = "issued"): InvoiceRecord =>
+  ({ ...toRecord(makeForm(p)), status });
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { NEW_FORM, type Form } from "./invoice";
+import { toRecord, type InvoiceRecord } from "./invoiceDb";
+import { makeRecord } from "./testFixtures";
+import { pushTimeline, redoTimeline, startTimeline, undoTimeline, type Timeline } from "./useUndoable";
+
+describe("undo timeline", () => {
+  it("merges quick edits and steps on request", () => {
+    let h = startTimeline("a");
+    h = pushTimeline(h, "ab", {}, 1000);
+    h = pushTimeline(h, "abc", {}, 1200);          // typing on: same step
+    h = pushTimeline(h, "abcd", { step: true }, 1300);
+    expect(h.past).toEqual(["a", "abc"]);
+    h = undoTimeline(undoTimeline(h));
+    expect(h.present).toBe("a");
+    expect(redoTimeline(h).present).toBe("abc");
+  });
+
+  it("keeps undo from crossing into another saved document", () => {
+    const recordA = makeRecord({ invoiceNo: "INV-A", notes: "A" }, "draft");
+    const recordB = makeRecord({ invoiceNo: "INV-B", notes: "B" }, "draft");
+
+    // the editor as InvoiceApp holds it: the form history plus the record id
+    let editor: { h: Timeline<Form>; recordId: string | null } = { h: startTimeline(NEW_FORM()), recordId: null };
+    const load = (rec: InvoiceRecord) => { editor = { h: startTimeline(rec.form), recordId: rec.id }; };
+    const edit = (patch: Partial<Form>) => {
+      editor = { ...editor, h: pushTimeline(editor.h, { ...editor.h.present, ...patch }, { step: true }) };
+    };
+    const saved = new Map([recordA, recordB].map(r => [r.id, r]));
+    const save = () => toRecord(editor.h.present, saved.get(editor.recordId ?? ""));
+
+    load(recordA);
+    edit({ notes: "A, edited" });
+    load(recordB);
+    editor = { ...editor, h: undoTimeline(editor.h) };
+
+    const rec = save();
+    expect(rec.id).toBe(recordB.id);
+    expect(rec.invoiceNo).toBe("INV-B");
+    expect(rec.form.notes).toBe("B");
+  });
+});
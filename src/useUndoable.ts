@@ -0,0 +1,53 @@
+import { useCallback, useState, type SetStateAction } from "react";
+
+/* ---------- undo / redo -------------------------------------------------- */
+// Edits that arrive within MERGE_MS of each other (typing in one field) form a
+// single undo step; pass { step: true } to always start a new one (row deletes,
+// pasted rows). Switching to another document goes through `reset`, so undo
+// can never bring back a form that belongs to a different saved record. Only
+// the last LIMIT steps are kept.
+const MERGE_MS = 800;
+const LIMIT = 100;
+
+export type Timeline<T> = { past: T[]; present: T; future: T[]; at: number };
+
+export type SetOptions = { step?: boolean };
+
+export const startTimeline = <T>(value: T): Timeline<T> => ({ past: [], present: value, future: [], at: 0 });
+
+export const pushTimeline = <T>(h: Timeline<T>, next: T, opts: SetOptions = {}, now = Date.now()): Timeline<T> => {
+  if (Object.is(next, h.present)) return h;
+  const merge = !opts.step && h.past.length > 0 && now - h.at < MERGE_MS;
+  return {
+    past: merge ? h.past : [...h.past, h.present].slice(-LIMIT),
+    present: next,
+    future: [],
+    at: opts.step ? 0 : now,
+  };
+};
+
+export const undoTimeline = <T>(h: Timeline<T>): Timeline<T> => h.past.length ? {
+  past: h.past.slice(0, -1), present: h.past[h.past.length - 1], future: [h.present, ...h.future], at: 0,
+} : h;
+
+export const redoTimeline = <T>(h: Timeline<T>): Timeline<T> => h.future.length ? {
+  past: [...h.past, h.present], present: h.future[0], future: h.future.slice(1), at: 0,
+} : h;
+
+export function useUndoable<T>(init: () => T) {
+  const [h, setH] = useState<Timeline<T>>(() => startTimeline(init()));
+
+  const set = useCallback((action: SetStateAction<T>, opts: SetOptions = {}) => setH(h =>
+    pushTimeline(h, typeof action === "function" ? (action as (prev: T) => T)(h.present) : action, opts)), []);
+
+  // replaces the value and forgets the history (the autosaved draft, another document)
+  const reset = useCallback((value: T) => setH(startTimeline(value)), []);
+
+  const undo = useCallback(() => setH(undoTimeline), []);
+  const redo = useCallback(() => setH(redoTimeline), []);
+
+  return {
+    value: h.present, set, reset, undo, redo,
+    canUndo: h.past.length > 0, canRedo: h.future.length > 0,
+  };
+}
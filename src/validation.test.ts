@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { convertForm, invoiceTotals, newItem, type Form } from "./invoice";
+import { EMPTY_PARTY } from "./parties";
+import { fieldIssue, gateCheck, validateForm } from "./validation";
+import { diffForms } from "./formDiff";
+import { makeForm } from "./testFixtures";
+
+const sale = (p: Partial<Form> = {}): Form => makeForm({
+  invoiceNo: "", date: "2025-04-01", dueDate: "2025-04-16",
+  seller: { ...EMPTY_PARTY(), name: "Shop" },
+  buyer: { ...EMPTY_PARTY(), name: "Acme" },
+  items: [{ ...newItem(), description: "Widget", hsn: "8471", qty: 2, rate: 500 }],
+  ...p,
+});
+
+describe("form validation", () => {
+  it("passes a complete invoice", () => {
+    expect(validateForm(sale())).toEqual([]);
+  });
+
+  it("keys issues by field path", () => {
+    const f = sale({
+      buyer: { ...sale().buyer, name: " " },
+      dueDate: "2025-03-01",
+      items: [
+        { ...newItem(), description: "Widget", hsn: "84", qty: 0, rate: -1 },
+        newItem(),
+      ],
+    });
+    const issues = validateForm(f, { duplicateNo: true });
+    expect(issues.map(i => [i.field, i.level])).toEqual([
+      ["buyer.name", "error"],
+      ["invoiceNo", "error"],
+      ["dueDate", "warning"],
+      ["items.0.qty", "error"],
+      ["items.0.rate", "error"],
+      ["items.0.hsn", "error"],
+      ["items.1.description", "warning"],
+    ]);
+    expect(fieldIssue(issues, "items.0.qty")?.message).toBe("Row 1: quantity must be more than 0");
+  });
+
+  it("needs at least one filled row and a reference on notes", () => {
+    const issues = validateForm(sale({ docType: "credit_note", items: [newItem()] }));
+    expect(issues.filter(i => i.level === "error").map(i => i.field)).toEqual(["ref.no", "items"]);
+  });
+});
+
+describe("credit notes", () => {
+  const invoice = sale({ invoiceNo: "INV/25-26/0007" });
+  const refTotal = invoiceTotals(invoice).grand;
+
+  it("converts an invoice into an unnumbered note that cites it", () => {
+    const note = convertForm(invoice, "credit_note", "cn");
+    expect(note).toMatchObject({
+      docType: "credit_note", series: "cn", invoiceNo: "",
+      ref: { docType: "invoice", no: "INV/25-26/0007", date: "2025-04-01" },
+    });
+    expect(note.items).toEqual(invoice.items);
+    expect(note.items[0]).not.toBe(invoice.items[0]);
+    expect(invoiceTotals(note).grand).toBe(refTotal);
+    expect(validateForm(note, { refTotal })).toEqual([]);
+  });
+
+  it("does not let a note credit more than the referenced document", () => {
+    const note = convertForm(invoice, "credit_note", "cn");
+    const more = { ...note, items: [{ ...note.items[0], qty: 3 }] };
+    const issue = fieldIssue(validateForm(more, { refTotal }), "items");
+    expect(issue).toMatchObject({ level: "error", message: "Credit note total 1,770.00 is more than INV/25-26/0007 (1,180.00)" });
+    expect(gateCheck(validateForm(more, { refTotal }), "issue").block).toBe(true);
+    // a reference that is not saved here cannot be checked
+    expect(validateForm(more)).toEqual([]);
+  });
+});
+
+describe("gates", () => {
+  it("blocks issue and export on errors but lets a draft be saved after a confirm", () => {
+    const errors = validateForm(sale({ items: [] }));
+    expect(gateCheck(errors, "issue").block).toBe(true);
+    expect(gateCheck(errors, "export").block).toBe(true);
+    expect(gateCheck(errors, "save")).toMatchObject({ block: false, message: expect.stringContaining("Add at least one item") });
+  });
+
+  it("asks about warnings only before issue and export", () => {
+    const warnings = validateForm(sale({ dueDate: "2025-03-01" }));
+    expect(gateCheck(warnings, "export")).toMatchObject({ block: false, message: expect.stringContaining("Please check") });
+    expect(gateCheck(warnings, "save")).toEqual({ block: false, message: "" });
+  });
+});
+
+describe("version diff", () => {
+  it("lists changed fields and added rows", () => {
+    const before = sale();
+    const after = sale({
+      notes: "Thanks",
+      items: [{ ...before.items[0], qty: 3 }, { ...newItem(), description: "Cable", qty: 1, rate: 50 }],
+    });
+    const changes = diffForms(before, after);
+    expect(changes).toContainEqual({ section: "Row 1", field: "Qty", before: "2", after: "3" });
+    expect(changes).toContainEqual({ section: "Row 2", field: "Added", before: "—", after: "Cable × 1 @ 50" });
+    expect(changes).toContainEqual({ section: "Other", field: "Notes", before: "—", after: "Thanks" });
+    expect(changes.find(c => c.field === "Grand total")).toBeTruthy();
+    expect(diffForms(before, before)).toEqual([]);
+  });
+});
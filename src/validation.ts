@@ -0,0 +1,96 @@
+import { currencyInfo, numberFmt } from "./currency";
+import { DOC_META } from "./documents";
+import { invoiceTotals, type Form, type Item } from "./invoice";
+import { gstinError } from "./parties";
+
+/* ---------- field issues ------------------------------------------------- */
+// Field keys follow the form's shape: "buyer.name", "items.2.qty", "ref.no".
+// Errors block issuing and export (and need a confirm to save a draft);
+// warnings ask once before issuing or exporting.
+export type IssueLevel = "error" | "warning";
+
+export type FieldIssue = { field: string; level: IssueLevel; message: string };
+
+export type ValidationContext = {
+  duplicateNo?: boolean;   // the typed number belongs to another saved document
+  refTotal?: number;       // grand total of the referenced document, when it is saved here
+};
+
+const HSN_RE = /^\d{4}(\d{2}){0,2}$/;
+
+const num = (v: number | string) => (typeof v === "string" && v.trim() === "" ? NaN : +v);
+
+const isBlankRow = (it: Item) =>
+  !it.description.trim() && !(+it.qty) && !(+it.rate) && !it.hsn.trim() && !it.sku.trim();
+
+export const validateForm = (form: Form, ctx: ValidationContext = {}): FieldIssue[] => {
+  const out: FieldIssue[] = [];
+  const error = (field: string, message: string) => out.push({ field, level: "error", message });
+  const warn = (field: string, message: string) => out.push({ field, level: "warning", message });
+  const meta = DOC_META[form.docType];
+
+  if (!form.seller.name.trim()) error("seller.name", "Seller name is required");
+  const sg = gstinError(form.seller.gstin);
+  if (sg) error("seller.gstin", `Seller ${sg}`);
+  if (!form.buyer.name.trim()) error("buyer.name", "Customer name is required");
+  const bg = gstinError(form.buyer.gstin);
+  if (bg) error("buyer.gstin", `Customer ${bg}`);
+
+  if (ctx.duplicateNo) error("invoiceNo", `${meta.noLabel} ${form.invoiceNo.trim()} is already used by another saved document`);
+  if (!form.date) error("date", "Date is required");
+  else if (form.dueDate && form.dueDate < form.date) warn("dueDate", `${meta.dueLabel} is before the document date`);
+  if (meta.needsRef && !form.ref?.no.trim()) error("ref.no", `A ${meta.label.toLowerCase()} must reference the original invoice`);
+
+  const taxed = !!form.seller.gstin.trim();   // GST-registered sellers must quote HSN/SAC
+  let filled = 0;
+  form.items.forEach((it, i) => {
+    const row = `Row ${i + 1}`;
+    const at = (k: string) => `items.${i}.${k}`;
+    if (it.kind === "section") {
+      if (!it.description.trim()) warn(at("description"), `${row}: section heading is empty`);
+      return;
+    }
+    if (it.kind === "subtotal") return;
+    if (isBlankRow(it)) { warn(at("description"), `${row} is empty and will be printed as a blank line`); return; }
+    filled++;
+    if (!it.description.trim()) warn(at("description"), `${row} has no description`);
+    const qty = num(it.qty), rate = num(it.rate), discount = num(it.discount), cess = num(it.cess);
+    if (!(qty > 0)) error(at("qty"), `${row}: quantity must be more than 0`);
+    if (!(rate >= 0)) error(at("rate"), `${row}: rate cannot be negative`);
+    if (!(discount >= 0)) error(at("discount"), `${row}: discount cannot be negative`);
+    if (!(cess >= 0)) error(at("cess"), `${row}: cess cannot be negative`);
+    const hsn = it.hsn.trim();
+    if (hsn && !HSN_RE.test(hsn)) error(at("hsn"), `${row}: HSN/SAC must be 4, 6 or 8 digits`);
+    else if (!hsn && taxed) warn(at("hsn"), `${row}: HSN/SAC is missing`);
+  });
+  if (!filled) error("items", "Add at least one item");
+
+  // a credit note can give back at most what was invoiced
+  if (form.docType === "credit_note" && ctx.refTotal !== undefined) {
+    const grand = invoiceTotals(form).grand;
+    if (grand > ctx.refTotal) {
+      const fmt = numberFmt(currencyInfo(form.currency).decimals, form.numberSystem);
+      error("items", `Credit note total ${fmt(grand)} is more than ${form.ref?.no.trim()} (${fmt(ctx.refTotal)})`);
+    }
+  }
+  return out;
+};
+
+export const fieldIssue = (issues: FieldIssue[], field: string) =>
+  issues.find(i => i.field === field && i.level === "error") ?? issues.find(i => i.field === field);
+
+/* ---------- gates -------------------------------------------------------- */
+export type Gate = "save" | "issue" | "export";
+
+export type GateResult = { block: boolean; message: string };
+
+// What stands between the user and an action: `block` with the reasons, or a
+// message to confirm before continuing anyway ("" when nothing needs saying).
+export const gateCheck = (issues: FieldIssue[], gate: Gate): GateResult => {
+  const errors = issues.filter(i => i.level === "error").map(i => `• ${i.message}`);
+  const warnings = issues.filter(i => i.level === "warning").map(i => `• ${i.message}`);
+  if (errors.length && gate !== "save") return { block: true, message: `Please fix first:\n${errors.join("\n")}` };
+  if (errors.length) return { block: false, message: `This invoice has problems:\n${errors.join("\n")}\n\nSave it anyway as it is?` };
+  if (warnings.length && gate !== "save") return { block: false, message: `Please check:\n${warnings.join("\n")}\n\nContinue anyway?` };
+  return { block: false, message: "" };
+};
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Node build of the invoice-pdf CLI (cli/invoice-pdf.ts). Dependencies stay
+// external and are loaded from node_modules at run time.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/invoice-pdf.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: { entryFileNames: 'invoice-pdf.js', banner: '#!/usr/bin/env node' },
+    },
+  },
+})
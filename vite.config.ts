@@ -1,7 +1,38 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync } from 'node:fs'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// Emits sw.js from src/sw.js with the list of files to precache (the build
+// output plus public/) and a version hashed from their contents, so every
+// deploy that changes anything installs a fresh offline cache.
+function serviceWorker(): Plugin {
+  return {
+    name: 'invoice-service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const hash = createHash('sha256')
+      const files: string[] = []
+      for (const [name, chunk] of Object.entries(bundle)) {
+        if (name.endsWith('.map')) continue
+        files.push(name)
+        hash.update(name).update(chunk.type === 'chunk' ? chunk.code : chunk.source)
+      }
+      for (const name of readdirSync('public')) {
+        files.push(name)
+        hash.update(name).update(readFileSync(`public/${name}`))
+      }
+      const precache = ['/', ...files.sort().map(f => `/${f}`)]
+      const source = readFileSync('src/sw.js', 'utf8')
+        .replace('const VERSION = "dev";', `const VERSION = ${JSON.stringify(hash.digest('hex').slice(0, 12))};`)
+        .replace('const PRECACHE = [];', `const PRECACHE = ${JSON.stringify(precache)};`)
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
 })